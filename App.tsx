@@ -1,8 +1,38 @@
-import React, { useState, useCallback, useRef, useEffect, CSSProperties } from 'react';
-import { AspectRatio, Character, Scene, GeneratedImage } from './types';
-import { generateImage } from './services/geminiService';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import { AspectRatio, Character, EditStack, GeneratedImage, GenerationSettings, ImageEditRequest, ImageGenerationRequest, KenBurnsMotion, NormalizedRect, Project, ProjectSummary, PromptLanguage, PromptTemplate, ProviderSettings, ScriptDiagnostic, StoryLocation } from './types';
+import { createEmptyProject, listProjects, loadProject, saveProject, deleteProject, renameProject, duplicateProject, getLastProjectId, setLastProjectId } from './services/ProjectStore';
+import { parseScript, parseSceneBlock } from './services/ScriptParser';
+import { resolveCharacters, findLocation } from './services/CharacterMatcher';
+import { DEFAULT_GENERATION_SETTINGS, isChainedScene } from './services/GenerationScheduler';
+import { createJobEngine, GenerationJob, JobSpec } from './services/JobEngine';
+import { createImageProvider, DEFAULT_PROVIDER_SETTINGS } from './services/ImageProvider';
+import { parsePromptTemplate, renderScenePrompt } from './services/PromptBuilder';
+import { DEFAULT_PROMPT_TEMPLATE } from './services/PromptPresets';
+import { DEFAULT_PROMPT } from './services/SampleScript';
+import { addVersion, currentCandidates, currentVersion, editBase, editedVersion, findVersionBySrc, hasStalePreviousScene, inpaintedVersion, isImageSrc, promoteVersion, versionFromRequest } from './services/ImageHistory';
+import { centeredAspectRect, FILTER_PRESETS, presetSteps, reframeImage, renderEditStack } from './services/EditStack';
+import { ASPECT_RATIOS, loadImage } from './services/ImageUtils';
+import { describeArtifacts, detectTextArtifacts } from './services/ArtifactDetector';
+import { buildStoryboardHtml, StoryboardLayout } from './services/StoryboardExport';
+import { exportTimelineArchive, TimelineFormat } from './services/TimelineExport';
+import { buildSubtitles, buildVoiceOverScript, SubtitleFormat } from './services/SubtitleExport';
+import { lintScript } from './services/ScriptLinter';
+import { exportImageArchive, exportProjectBundle, importProjectBundle } from './services/ProjectBundle';
 import { CharacterManager } from './components/CharacterManager';
-import { DownloadIcon, RetryIcon, EditIcon, CloseIcon, PencilIcon, StopIcon } from './components/Icons';
+import { LocationManager } from './components/LocationManager';
+import { ProjectManager, SaveStatus } from './components/ProjectManager';
+import { ScriptLintPanel } from './components/ScriptLintPanel';
+import { ProviderSettingsPanel } from './components/ProviderSettingsPanel';
+import { PromptTemplateEditor } from './components/PromptTemplateEditor';
+import { VersionHistoryModal } from './components/VersionHistoryModal';
+import { SelectionToolbar } from './components/SelectionToolbar';
+import { StoryboardExportPanel } from './components/StoryboardExportPanel';
+import { AnimaticPlayer } from './components/AnimaticPlayer';
+import { EditorialExportPanel } from './components/EditorialExportPanel';
+import { ImageEditorModal, Reframes } from './components/ImageEditorModal';
+import { FailureMessage } from './components/FailureMessage';
+import { RefineThreadModal } from './components/RefineThreadModal';
+import { DownloadIcon, RetryIcon, EditIcon, CloseIcon, PencilIcon, StopIcon, HistoryIcon, PlayIcon, ChatIcon, WarningIcon } from './components/Icons';
 
 
 // Mock process.env.API_KEY for browser environment if it's not set by a bundler
@@ -13,335 +43,16 @@ if (!process.env.API_KEY) {
     process.env.API_KEY = "YOUR_API_KEY_HERE";
 }
 
-const DEFAULT_PROMPT = `Cảnh 32: Câu hỏi thực tế
-Nội dung: "'Is he hurt? Does he have a collar?'"
-Nội dung (Tiếng Việt): "'Nó có bị thương không? Có vòng cổ không?'"
-Địa điểm: "in the living room".
-Thời gian: "Night" (Tối).
-Prompt (Câu lệnh tiếng Anh): (Visual Style Guide) A digital painting, close-up on "Claire Hartley" (CIL: early 60s, kind but practical eyes). Her expression is focused and concerned, not sentimental yet, as she asks the "practical" (from C31) questions, "'Is he hurt? Does he have a collar?'" Warm interior light, 4K, realistic emotion.
-Nhân vật: Claire Hartley
-Thời lượng ảnh: 5-7 giây (Nhịp độ cơ bản)
-Ken Burns Effect (Chỉ đạo đạo diễn): Static (Không di chuyển). Giữ tĩnh để tập trung vào những câu hỏi nhanh, thực tế của bà.`;
-
-const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
-interface ImageEditorModalProps {
-  image: GeneratedImage;
-  onSave: (editedSrc: string) => void;
-  onSaveAsNew: (editedSrc: string) => void;
-  onClose: () => void;
-}
-
-const ImageEditorModal: React.FC<ImageEditorModalProps> = ({ image, onSave, onSaveAsNew, onClose }) => {
-    const [isProcessing, setIsProcessing] = useState(false);
-    const [filters, setFilters] = useState({
-        brightness: 100,
-        contrast: 100,
-        sepia: 0,
-        grayscale: 0,
-    });
-    
-    const [isCropping, setIsCropping] = useState(false);
-    const [crop, setCrop] = useState({ x: 0, y: 0, width: 0, height: 0 });
-    const [dragInfo, setDragInfo] = useState<{
-        type: 'move' | 'resize';
-        handle?: string;
-        startX: number;
-        startY: number;
-        initialCrop: typeof crop;
-    } | null>(null);
-
-    const imageRef = useRef<HTMLImageElement>(null);
-    const imageContainerRef = useRef<HTMLDivElement>(null);
-
-    const resetCrop = useCallback(() => {
-        if (imageRef.current) {
-            setCrop({
-                x: 0,
-                y: 0,
-                width: imageRef.current.offsetWidth,
-                height: imageRef.current.offsetHeight,
-            });
-        }
-    }, []);
-
-    useEffect(() => {
-        const img = imageRef.current;
-        if (img) {
-            const handleLoad = () => setTimeout(resetCrop, 0);
-            
-            if (img.complete && img.naturalWidth > 0) {
-                handleLoad();
-            } else {
-                img.addEventListener('load', handleLoad);
-            }
-            
-            const resizeObserver = new ResizeObserver(resetCrop);
-            resizeObserver.observe(img);
-
-            return () => {
-                img.removeEventListener('load', handleLoad);
-                resizeObserver.unobserve(img);
-            };
-        }
-    }, [image.src, resetCrop]);
-
-    const handleMouseDown = (e: React.MouseEvent, type: 'move' | 'resize', handle?: string) => {
-        e.preventDefault();
-        e.stopPropagation();
-
-        if (!imageContainerRef.current) return;
-        const rect = imageContainerRef.current.getBoundingClientRect();
-        setDragInfo({
-            type,
-            handle,
-            startX: e.clientX - rect.left,
-            startY: e.clientY - rect.top,
-            initialCrop: crop,
-        });
-    };
-
-    useEffect(() => {
-        const handleMouseMove = (e: MouseEvent) => {
-            if (!dragInfo || !imageRef.current || !imageContainerRef.current) return;
-
-            const rect = imageContainerRef.current.getBoundingClientRect();
-            const mouseX = e.clientX - rect.left;
-            const mouseY = e.clientY - rect.top;
-
-            const dx = mouseX - dragInfo.startX;
-            const dy = mouseY - dragInfo.startY;
-
-            let newCrop = { ...dragInfo.initialCrop };
-
-            if (dragInfo.type === 'move') {
-                newCrop.x += dx;
-                newCrop.y += dy;
-            } else if (dragInfo.type === 'resize') {
-                const { handle } = dragInfo;
-                if (handle?.includes('e')) newCrop.width += dx;
-                if (handle?.includes('w')) {
-                    newCrop.width -= dx;
-                    newCrop.x += dx;
-                }
-                if (handle?.includes('s')) newCrop.height += dy;
-                if (handle?.includes('n')) {
-                    newCrop.height -= dy;
-                    newCrop.y += dy;
-                }
-            }
-
-            const MIN_SIZE = 20;
-            if (newCrop.width < MIN_SIZE) {
-                newCrop.width = MIN_SIZE;
-                if (dragInfo.type === 'resize' && dragInfo.handle?.includes('w')) {
-                    newCrop.x = dragInfo.initialCrop.x + dragInfo.initialCrop.width - MIN_SIZE;
-                }
-            }
-            if (newCrop.height < MIN_SIZE) {
-                newCrop.height = MIN_SIZE;
-                 if (dragInfo.type === 'resize' && dragInfo.handle?.includes('n')) {
-                    newCrop.y = dragInfo.initialCrop.y + dragInfo.initialCrop.height - MIN_SIZE;
-                }
-            }
-            
-            const { offsetWidth: imgWidth, offsetHeight: imgHeight } = imageRef.current;
-            newCrop.x = Math.max(0, Math.min(newCrop.x, imgWidth - newCrop.width));
-            newCrop.y = Math.max(0, Math.min(newCrop.y, imgHeight - newCrop.height));
-            newCrop.width = Math.min(newCrop.width, imgWidth - newCrop.x);
-            newCrop.height = Math.min(newCrop.height, imgHeight - newCrop.y);
-
-            setCrop(newCrop);
-        };
-
-        const handleMouseUp = () => setDragInfo(null);
-
-        if (dragInfo) {
-            window.addEventListener('mousemove', handleMouseMove);
-            window.addEventListener('mouseup', handleMouseUp);
-        }
-
-        return () => {
-            window.removeEventListener('mousemove', handleMouseMove);
-            window.removeEventListener('mouseup', handleMouseUp);
-        };
-    }, [dragInfo]);
-    
-    const getHandleStyle = (handle: string): React.CSSProperties => {
-        const style: React.CSSProperties = {};
-        if (handle.includes('n')) style.top = 0;
-        if (handle.includes('s')) style.bottom = 0;
-        if (handle.includes('w')) style.left = 0;
-        if (handle.includes('e')) style.right = 0;
-        if (handle.length === 1) {
-            if (['n', 's'].includes(handle)) style.left = '50%';
-            if (['w', 'e'].includes(handle)) style.top = '50%';
-        }
-        return style;
-    };
-    
-    const handleToCursor: { [key: string]: string } = { nw: 'nwse-resize', n: 'ns-resize', ne: 'nesw-resize', e: 'ew-resize', se: 'nwse-resize', s: 'ns-resize', sw: 'nesw-resize', w: 'ew-resize' };
-
-    const filterStyle: CSSProperties = {
-        filter: `brightness(${filters.brightness}%) contrast(${filters.contrast}%) sepia(${filters.sepia}%) grayscale(${filters.grayscale}%)`,
-    };
+const AUTOSAVE_DELAY_MS = 800;
 
-    const handleFilterChange = (filterName: keyof typeof filters, value: string) => {
-        setFilters(prev => ({ ...prev, [filterName]: parseInt(value) }));
-    };
-    
-    const resetFilters = () => {
-        setFilters({ brightness: 100, contrast: 100, sepia: 0, grayscale: 0 });
-    };
+type ProjectAction = 'create' | 'open' | 'rename' | 'duplicate' | 'delete';
 
-    const applyChanges = async (): Promise<string> => {
-        return new Promise((resolve, reject) => {
-            const img = new Image();
-            img.crossOrigin = "anonymous";
-            img.onload = () => {
-                const canvas = document.createElement('canvas');
-                const ctx = canvas.getContext('2d');
-                if (!ctx) return reject('Canvas context not available');
-                
-                let sourceRect = { x: 0, y: 0, width: img.naturalWidth, height: img.naturalHeight };
-                if (isCropping && imageRef.current) {
-                    const displayImg = imageRef.current;
-                    sourceRect = {
-                        x: (crop.x / displayImg.offsetWidth) * img.naturalWidth,
-                        y: (crop.y / displayImg.offsetHeight) * img.naturalHeight,
-                        width: (crop.width / displayImg.offsetWidth) * img.naturalWidth,
-                        height: (crop.height / displayImg.offsetHeight) * img.naturalHeight,
-                    };
-                }
-
-                canvas.width = sourceRect.width;
-                canvas.height = sourceRect.height;
-                
-                ctx.filter = filterStyle.filter as string;
-                
-                ctx.drawImage(
-                    img,
-                    sourceRect.x, sourceRect.y, sourceRect.width, sourceRect.height,
-                    0, 0, canvas.width, canvas.height
-                );
-
-                resolve(canvas.toDataURL('image/png'));
-            };
-            img.onerror = reject;
-            img.src = image.src;
-        });
-    };
-
-    const handleSaveWrapper = async (saveFn: (src: string) => void) => {
-        setIsProcessing(true);
-        try {
-            const editedSrc = await applyChanges();
-            saveFn(editedSrc);
-        } catch (error) {
-            console.error("Failed to apply image edits:", error);
-        } finally {
-            setIsProcessing(false);
-        }
-    };
-
-
-    return (
-        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4" aria-modal="true" role="dialog">
-            <div className="bg-gray-800 rounded-lg shadow-xl w-full max-w-6xl h-full max-h-[90vh] flex flex-col text-gray-200">
-                <header className="flex items-center justify-between p-4 border-b border-gray-700">
-                    <h2 className="text-xl font-bold">Image Editor</h2>
-                    <button onClick={onClose} className="p-1 rounded-full hover:bg-gray-700" aria-label="Close editor">
-                        <CloseIcon className="w-6 h-6" />
-                    </button>
-                </header>
-                
-                <main className="flex-1 flex flex-col lg:flex-row overflow-hidden">
-                    <div className="flex-1 flex items-center justify-center p-4 bg-gray-900 overflow-hidden">
-                         <div ref={imageContainerRef} className="relative w-full h-full flex items-center justify-center">
-                            <img
-                                ref={imageRef}
-                                src={image.src}
-                                alt="Editing preview"
-                                style={filterStyle}
-                                className="max-w-full max-h-full object-contain"
-                                onDragStart={(e) => e.preventDefault()}
-                            />
-                            {isCropping && imageRef.current?.complete && (
-                                <>
-                                    <div
-                                        className="absolute border-2 border-dashed border-white cursor-move"
-                                        style={{
-                                            left: crop.x, top: crop.y, width: crop.width, height: crop.height,
-                                            boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.5)',
-                                        }}
-                                        onMouseDown={(e) => handleMouseDown(e, 'move')}
-                                        role="presentation"
-                                    >
-                                        {Object.keys(handleToCursor).map((handle) => (
-                                            <div
-                                                key={handle}
-                                                className="absolute w-3 h-3 bg-white border border-gray-800 -m-1.5"
-                                                style={{...getHandleStyle(handle), cursor: handleToCursor[handle]}}
-                                                onMouseDown={(e) => handleMouseDown(e, 'resize', handle)}
-                                                role="presentation"
-                                            />
-                                        ))}
-                                    </div>
-                                </>
-                            )}
-                        </div>
-                    </div>
-                    
-                    <aside className="w-full lg:w-80 bg-gray-800 p-4 space-y-6 overflow-y-auto border-t lg:border-t-0 lg:border-l border-gray-700">
-                        <div className="space-y-4">
-                            <label className="flex items-center justify-between cursor-pointer">
-                                <span className="text-lg font-semibold">Crop Image</span>
-                                <div className="relative">
-                                    <input type="checkbox" checked={isCropping} onChange={() => setIsCropping(!isCropping)} className="sr-only peer" id="crop-toggle" />
-                                    <div className="w-11 h-6 bg-gray-600 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-0.5 after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-cyan-600"></div>
-                                </div>
-                            </label>
-                            {isCropping && (
-                                <button onClick={resetCrop} className="w-full text-sm bg-gray-600 hover:bg-gray-500 py-2 rounded-md transition-colors">Reset Crop</button>
-                            )}
-                        </div>
-                        <div className="border-t border-gray-700 pt-6 space-y-6">
-                            <h3 className="text-lg font-semibold">Filters</h3>
-                            <div className="space-y-4">
-                                <div>
-                                    <label htmlFor="brightness-slider" className="block text-sm">Brightness: {filters.brightness}%</label>
-                                    <input id="brightness-slider" type="range" min="0" max="200" value={filters.brightness} onChange={e => handleFilterChange('brightness', e.target.value)} className="w-full" />
-                                </div>
-                                <div>
-                                    <label htmlFor="contrast-slider" className="block text-sm">Contrast: {filters.contrast}%</label>
-                                    <input id="contrast-slider" type="range" min="0" max="200" value={filters.contrast} onChange={e => handleFilterChange('contrast', e.target.value)} className="w-full" />
-                                </div>
-                                <div>
-                                    <label htmlFor="sepia-slider" className="block text-sm">Sepia: {filters.sepia}%</label>
-                                    <input id="sepia-slider" type="range" min="0" max="100" value={filters.sepia} onChange={e => handleFilterChange('sepia', e.target.value)} className="w-full" />
-                                </div>
-                                <div>
-                                    <label htmlFor="grayscale-slider" className="block text-sm">Grayscale: {filters.grayscale}%</label>
-                                    <input id="grayscale-slider" type="range" min="0" max="100" value={filters.grayscale} onChange={e => handleFilterChange('grayscale', e.target.value)} className="w-full" />
-                                </div>
-                            </div>
-                            <button onClick={resetFilters} className="w-full text-sm bg-gray-600 hover:bg-gray-500 py-2 rounded-md transition-colors">Reset Filters</button>
-                        </div>
-                    </aside>
-                </main>
-
-                <footer className="p-4 border-t border-gray-700 flex flex-col sm:flex-row items-center justify-end gap-3">
-                    <button onClick={onClose} disabled={isProcessing} className="w-full sm:w-auto px-4 py-2 bg-gray-600 rounded-md hover:bg-gray-500 transition-colors disabled:opacity-50">Cancel</button>
-                    <button onClick={() => handleSaveWrapper(onSaveAsNew)} disabled={isProcessing} className="w-full sm:w-auto px-4 py-2 bg-blue-600 rounded-md hover:bg-blue-500 transition-colors disabled:opacity-50">
-                        {isProcessing ? 'Processing...' : 'Save as New'}
-                    </button>
-                    <button onClick={() => handleSaveWrapper(onSave)} disabled={isProcessing} className="w-full sm:w-auto px-4 py-2 bg-cyan-600 rounded-md hover:bg-cyan-500 font-semibold transition-colors disabled:opacity-50">
-                        {isProcessing ? 'Processing...' : 'Save'}
-                    </button>
-                </footer>
-            </div>
-        </div>
-    );
+const PROJECT_ACTIONS: Record<ProjectAction, string> = {
+  create: 'tạo dự án',
+  open: 'mở dự án',
+  rename: 'đổi tên dự án',
+  duplicate: 'nhân bản dự án',
+  delete: 'xóa dự án',
 };
 
 interface PromptEditorModalProps {
@@ -389,6 +100,41 @@ const PromptEditorModal: React.FC<PromptEditorModalProps> = ({ image, onSave, on
     );
 };
 
+const toFileName = (name: string) => name.toLowerCase().replace(/[^a-z0-9\s]/gi, '').replace(/\s+/g, '_');
+
+const jobStatusLabel = (job: GenerationJob | undefined) => {
+  const candidate = job && job.candidates > 1 ? ` · ứng viên ${job.candidate + 1}/${job.candidates}` : '';
+  if (!job || job.state === 'running') {
+    return (job && job.attempt > 1 ? `Đang thử lại (${job.attempt}/${job.maxAttempts})...` : 'Đang tạo...') + candidate;
+  }
+  if (job.state === 'queued' && job.error?.kind === 'artifact') return `Ảnh có chữ, đang tạo lại (${job.attempt}/${job.maxAttempts})...` + candidate;
+  return (job.state === 'queued' && job.attempt > 0 ? `Lỗi, chờ thử lại (${job.attempt}/${job.maxAttempts})...` : 'Đang chờ...') + candidate;
+};
+
+// The check flagged the image the tile currently shows.
+const isFlagged = (image: GeneratedImage) => isImageSrc(image.src) && !!currentVersion(image)?.artifacts?.length;
+
+// Final state of a tile once all its candidates finished. If none succeeded,
+// regenerations keep the image they had when stopped; new tiles show as cancelled.
+// A failed candidate's reason is kept rather than a later cancellation.
+const settleTile = (image: GeneratedImage, jobs: GenerationJob[]): GeneratedImage => {
+  if (jobs.some(job => job.state === 'succeeded')) return { ...image, isLoading: false, failure: undefined };
+  const failed = jobs.find(job => job.state === 'failed');
+  if (failed) return { ...image, src: 'error', isLoading: false, failure: failed.error };
+  return { ...image, src: isImageSrc(image.src) ? image.src : 'cancelled', isLoading: false, failure: undefined };
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
 // Helper function to prevent dialogue text from being sent to the AI
 const removeDialogue = (prompt: string): string => {
   // This regex targets strings in single or double quotes that are likely dialogue
@@ -406,13 +152,264 @@ function App() {
   const [promptsText, setPromptsText] = useState<string>(DEFAULT_PROMPT);
   const [aspectRatio, setAspectRatio] = useState<AspectRatio>("16:9");
   const [batchSize, setBatchSize] = useState<number>(10);
+  const [generationSettings, setGenerationSettings] = useState<GenerationSettings>(DEFAULT_GENERATION_SETTINGS);
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(DEFAULT_PROVIDER_SETTINGS);
+  const [promptTemplate, setPromptTemplate] = useState<PromptTemplate>(DEFAULT_PROMPT_TEMPLATE);
   const [characters, setCharacters] = useState<Character[]>([]);
+  const [locations, setLocations] = useState<StoryLocation[]>([]);
   const [generatedImages, setGeneratedImages] = useState<GeneratedImage[]>([]);
   const [isGenerating, setIsGenerating] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [editingImage, setEditingImage] = useState<GeneratedImage | null>(null);
+  const [historyImageId, setHistoryImageId] = useState<string | null>(null);
+  const [isApplyingFilter, setIsApplyingFilter] = useState(false);
+  const [isAnimaticOpen, setIsAnimaticOpen] = useState(false);
   const [editingPromptImage, setEditingPromptImage] = useState<GeneratedImage | null>(null);
-  const isStoppingRef = useRef(false);
+  const [jobEngine] = useState(createJobEngine);
+  const [jobStatus, setJobStatus] = useState<Record<string, GenerationJob>>({});
+  const promptsTextareaRef = useRef<HTMLTextAreaElement>(null);
+  const artStyleRef = useRef<HTMLTextAreaElement>(null);
+
+  const scriptDiagnostics = useMemo(
+    () => lintScript({ promptsText, artStyle, characters, locations }),
+    [promptsText, artStyle, characters, locations]
+  );
+  const parsedScenes = useMemo(() => parseScript(promptsText).scenes, [promptsText]);
+  const promptTemplateErrors = useMemo(() => parsePromptTemplate(promptTemplate.body).errors, [promptTemplate.body]);
+
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [currentProjectId, setCurrentProjectId] = useState<string | null>(null);
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('idle');
+  // Name and creation time of the open project; kept in a ref so autosave
+  // doesn't need to re-run when only the metadata changes.
+  const projectMetaRef = useRef<{ name: string; createdAt: number } | null>(null);
+  const skipNextAutosaveRef = useRef(false);
+  const lastSelectedIndexRef = useRef<number | null>(null);
+  // The batch the stop button cancels; single-tile runs started meanwhile go on.
+  const batchAbortRef = useRef<AbortController | null>(null);
+
+  // Only state setters and refs, so it is stable across renders.
+  const applyProject = useCallback((project: Project) => {
+    skipNextAutosaveRef.current = true;
+    projectMetaRef.current = { name: project.name, createdAt: project.createdAt };
+    setStoryContext(project.storyContext);
+    setArtStyle(project.artStyle);
+    setPromptsText(project.promptsText);
+    setAspectRatio(project.aspectRatio);
+    setBatchSize(project.batchSize);
+    setGenerationSettings(project.generationSettings);
+    setProviderSettings(project.providerSettings);
+    setPromptTemplate(project.promptTemplate);
+    setCharacters(project.characters);
+    setLocations(project.locations);
+    setGeneratedImages(project.generatedImages);
+    setError(null);
+    setCurrentProjectId(project.id);
+    setLastProjectId(project.id);
+    setSaveStatus('saved');
+  }, []);
+
+  const buildProjectSnapshot = (): Project | null => {
+    if (!currentProjectId || !projectMetaRef.current) return null;
+    return {
+      id: currentProjectId,
+      name: projectMetaRef.current.name,
+      createdAt: projectMetaRef.current.createdAt,
+      updatedAt: Date.now(),
+      storyContext,
+      artStyle,
+      promptsText,
+      aspectRatio,
+      batchSize,
+      generationSettings,
+      providerSettings,
+      promptTemplate,
+      characters,
+      locations,
+      generatedImages,
+    };
+  };
+
+  const refreshProjectList = async () => {
+    setProjects(await listProjects());
+  };
+
+  const persistCurrentProject = async () => {
+    const snapshot = buildProjectSnapshot();
+    if (!snapshot) return;
+    setSaveStatus('saving');
+    try {
+      await saveProject(snapshot);
+      setSaveStatus('saved');
+      setProjects(prev => prev.map(p => p.id === snapshot.id ? { ...p, updatedAt: snapshot.updatedAt } : p).sort((a, b) => b.updatedAt - a.updatedAt));
+    } catch (err) {
+      console.error("Failed to save project:", err);
+      setSaveStatus('error');
+    }
+  };
+
+  // The autosave timer saves whatever the session holds when it fires.
+  const persistRef = useRef(persistCurrentProject);
+  persistRef.current = persistCurrentProject;
+
+  // Mirror job engine events into the grid.
+  useEffect(() => jobEngine.subscribe((event) => {
+    if (event.type === 'settled') {
+      setGeneratedImages(currentImages => currentImages.map(img => (img.id === event.imageId ? settleTile(img, event.jobs) : img)));
+      return;
+    }
+
+    const { job } = event;
+    setJobStatus(prev => ({ ...prev, [job.imageId]: job }));
+    if (event.type === 'queued') {
+      setGeneratedImages(currentImages => currentImages.map(img => (img.id === job.imageId ? { ...img, isLoading: true } : img)));
+    } else if (event.type === 'succeeded') {
+      setGeneratedImages(currentImages => {
+        const { previousImage } = event.request;
+        const extra = {
+          artifacts: event.artifacts,
+          retryReasons: event.retryReasons,
+          previousSceneVersionId: previousImage ? findVersionBySrc(currentImages, previousImage)?.id : undefined,
+        };
+        return currentImages.map(img => (img.id === job.imageId
+          ? { ...addVersion(img, versionFromRequest(img, event.src, event.request, job.batchId, extra)), isLoading: false }
+          : img));
+      });
+    }
+  }), [jobEngine]);
+
+  // Restore the last opened project on startup, or start a fresh one.
+  useEffect(() => {
+    const restore = async () => {
+      try {
+        const summaries = await listProjects();
+        const lastId = getLastProjectId();
+        const idToOpen = summaries.find(p => p.id === lastId)?.id ?? summaries[0]?.id;
+        let project = idToOpen ? await loadProject(idToOpen) : null;
+        if (!project) {
+          project = createEmptyProject('Dự án 1', { promptsText: DEFAULT_PROMPT });
+          await saveProject(project);
+        }
+        applyProject(project);
+        setProjects(await listProjects());
+      } catch (err) {
+        console.error("Failed to restore project:", err);
+        setSaveStatus('error');
+      }
+    };
+    restore();
+  }, [applyProject]);
+
+  // Autosave the open project shortly after any change to the session.
+  useEffect(() => {
+    if (!currentProjectId) return;
+    if (skipNextAutosaveRef.current) {
+      skipNextAutosaveRef.current = false;
+      return;
+    }
+    const timer = setTimeout(() => persistRef.current(), AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [currentProjectId, storyContext, artStyle, promptsText, aspectRatio, batchSize, generationSettings, providerSettings, promptTemplate, characters, locations, generatedImages]);
+
+  // Storage failures (quota, a blocked upgrade, a project deleted in another
+  // tab) end up in the error banner instead of an unhandled rejection.
+  const reportProjectError = (action: ProjectAction, err: unknown) => {
+    console.error(`Failed to ${action} project:`, err);
+    setError(`Không thể ${PROJECT_ACTIONS[action]}: ${err instanceof Error ? err.message : String(err)}`);
+  };
+
+  const handleCreateProject = async () => {
+    try {
+      await persistCurrentProject();
+      const project = { ...createEmptyProject(`Dự án ${projects.length + 1}`, { promptsText: DEFAULT_PROMPT, aspectRatio, batchSize }), generationSettings, providerSettings, promptTemplate };
+      await saveProject(project);
+      applyProject(project);
+      await refreshProjectList();
+    } catch (err) {
+      reportProjectError('create', err);
+    }
+  };
+
+  const handleOpenProject = async (id: string) => {
+    try {
+      await persistCurrentProject();
+      const project = await loadProject(id);
+      if (!project) {
+        setError("Không tìm thấy dự án.");
+        await refreshProjectList();
+        return;
+      }
+      applyProject(project);
+    } catch (err) {
+      reportProjectError('open', err);
+    }
+  };
+
+  const handleRenameProject = async (id: string, name: string) => {
+    try {
+      if (id === currentProjectId && projectMetaRef.current) {
+        projectMetaRef.current = { ...projectMetaRef.current, name };
+        await persistCurrentProject();
+      } else {
+        await renameProject(id, name);
+      }
+      await refreshProjectList();
+    } catch (err) {
+      reportProjectError('rename', err);
+    }
+  };
+
+  const handleDuplicateProject = async (id: string) => {
+    try {
+      if (id === currentProjectId) {
+        await persistCurrentProject();
+      }
+      const source = projects.find(p => p.id === id);
+      const copy = await duplicateProject(id, `${source?.name ?? 'Dự án'} (bản sao)`);
+      applyProject(copy);
+      await refreshProjectList();
+    } catch (err) {
+      reportProjectError('duplicate', err);
+    }
+  };
+
+  const handleExportBundle = () => {
+    const snapshot = buildProjectSnapshot();
+    if (!snapshot) return;
+    const bundle = exportProjectBundle(snapshot, parseScript(promptsText).scenes);
+    downloadBlob(bundle, `${toFileName(snapshot.name) || 'project'}.zip`);
+  };
+
+  const handleImportBundle = async (file: File) => {
+    try {
+      await persistCurrentProject();
+      const project = await importProjectBundle(file);
+      await saveProject(project);
+      applyProject(project);
+      await refreshProjectList();
+    } catch (err) {
+      console.error("Failed to import project bundle:", err);
+      setError(`Không thể nhập gói dự án: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleDeleteProject = async (id: string) => {
+    try {
+      await deleteProject(id);
+      const remaining = await listProjects();
+      if (id === currentProjectId) {
+        const next = remaining[0] ? await loadProject(remaining[0].id) : null;
+        const project = next ?? createEmptyProject('Dự án 1', { promptsText: DEFAULT_PROMPT });
+        if (!next) await saveProject(project);
+        applyProject(project);
+        setProjects(await listProjects());
+      } else {
+        setProjects(remaining);
+      }
+    } catch (err) {
+      reportProjectError('delete', err);
+    }
+  };
 
 
   // Automatically filter out any scene-like prompts from the story context
@@ -427,319 +424,439 @@ function App() {
     return text;
   };
 
-  const parsePrompts = (text: string): Scene[] => {
-    const scenes: Scene[] = [];
-    const sceneBlockRegex = /(Cảnh \d+:[\s\S]*?)(?=Cảnh \d+:|$)/g;
-    const sceneNumberRegex = /Cảnh (\d+):/;
-    const promptRegex = /Prompt \(Câu lệnh tiếng Anh\):\s*([\s\S]*?)(?=\nNhân vật:|\nThời lượng ảnh:|\nKen Burns Effect:|$)/;
-    const characterRegex = /Nhân vật:\s*(.*?)(?:\n|$)/;
+  const historyImage = generatedImages.find(img => img.id === historyImageId);
+  const [refiningImageId, setRefiningImageId] = useState<string | null>(null);
+  const refiningImage = generatedImages.find(img => img.id === refiningImageId);
 
-    const sceneBlocks = text.match(sceneBlockRegex) || [];
+  const getCharacterRefs = (image: GeneratedImage): Character[] =>
+    image.characterRefIds
+      .map(id => characters.find(c => c.id === id))
+      .filter((c): c is Character => !!c);
 
-    for (const sceneBlock of sceneBlocks) {
-      const sceneNumberMatch = sceneBlock.match(sceneNumberRegex);
-      const promptMatch = sceneBlock.match(promptRegex);
-      const characterMatch = sceneBlock.match(characterRegex);
+  const getLocationRef = (image: GeneratedImage): StoryLocation | undefined =>
+    locations.find(l => l.id === image.locationRefId);
 
-      if (sceneNumberMatch && promptMatch && promptMatch[1]) {
-        scenes.push({
-          prompt: promptMatch[1].trim(),
-          characterName: (characterMatch && characterMatch[1]) ? characterMatch[1].trim() : 'Không',
-          fullText: sceneBlock.trim(),
-          sceneNumber: parseInt(sceneNumberMatch[1], 10),
-        });
-      }
+  const handleStop = () => {
+    batchAbortRef.current?.abort(new DOMException('Generation stopped by user.', 'AbortError'));
+  };
+
+  const jumpToDiagnostic = (diagnostic: ScriptDiagnostic) => {
+    if (diagnostic.target === 'artStyle' || diagnostic.line === 0) {
+      artStyleRef.current?.focus();
+      return;
     }
-    return scenes;
+    const textarea = promptsTextareaRef.current;
+    if (!textarea) return;
+    const lines = promptsText.split('\n');
+    const lineIndex = Math.min(diagnostic.line, lines.length) - 1;
+    const start = lines.slice(0, lineIndex).reduce((sum, line) => sum + line.length + 1, 0);
+    textarea.focus();
+    textarea.setSelectionRange(start, start + lines[lineIndex].length);
+    const lineHeight = parseFloat(getComputedStyle(textarea).lineHeight) || 20;
+    textarea.scrollTop = Math.max(0, (lineIndex - 2) * lineHeight);
   };
-  
-  const handleStop = () => {
-    isStoppingRef.current = true;
+
+  const buildJobRequest = (image: GeneratedImage, cleanedStoryContext: string, isVariant: boolean) =>
+    (previousImage: string | undefined): ImageGenerationRequest => ({
+      prompt: removeDialogue(image.prompt),
+      storyContext: cleanedStoryContext,
+      artStyle,
+      aspectRatio,
+      characterRefs: getCharacterRefs(image),
+      locationRef: getLocationRef(image),
+      previousImage,
+      isVariant,
+      scene: parseSceneBlock(image.sceneScript) ?? undefined,
+      template: promptTemplate,
+    });
+
+  // Same request a fresh generation of the script's scene would send; only
+  // whether a previous image is attached matters for the text.
+  const renderPromptPreview = (sceneIndex: number, isVariant: boolean) => {
+    const scene = parsedScenes[sceneIndex];
+    const chained = isChainedScene(scene, parsedScenes[sceneIndex - 1], generationSettings);
+    return renderScenePrompt({
+      prompt: removeDialogue(scene.prompt),
+      storyContext: cleanStoryContext(storyContext),
+      artStyle,
+      aspectRatio,
+      characterRefs: resolveCharacters(scene.characterName, characters),
+      locationRef: findLocation(scene.location, locations),
+      previousImage: chained ? 'previous-scene' : undefined,
+      isVariant,
+      scene,
+      template: promptTemplate,
+    });
   };
 
-  const handleGenerate = async () => {
-    isStoppingRef.current = false;
-    setIsGenerating(true);
-    setError(null);
-    setGeneratedImages([]);
-    
+  const checkPromptTemplate = () => {
+    if (promptTemplateErrors.length === 0) return true;
+    setError(`Mẫu câu lệnh có lỗi (dòng ${promptTemplateErrors[0].line}: ${promptTemplateErrors[0].message}). Vui lòng sửa trước khi tạo ảnh.`);
+    return false;
+  };
+
+  // Whether `image` should use `previous` as its previous-scene style reference.
+  const chainsFrom = (image: GeneratedImage, previous: GeneratedImage | undefined): boolean => {
+    if (!previous) return false;
+    const scene = parseSceneBlock(image.sceneScript);
+    const previousScene = parseSceneBlock(previous.sceneScript);
+    if (!scene || !previousScene) return generationSettings.chainScenes;
+    return isChainedScene(scene, previousScene, generationSettings);
+  };
+
+  // The closest earlier scene that has an image, preferring the original tile
+  // over edited copies, which are appended at the end of the grid. Tiles in
+  // `pending` are about to be regenerated and count as having one.
+  const findPreviousSceneImage = (image: GeneratedImage, images: GeneratedImage[], pending = new Set<string>()): GeneratedImage | undefined => {
+    const candidates = images.filter(img => img.sceneNumber < image.sceneNumber && (isImageSrc(img.src) || pending.has(img.id)));
+    if (candidates.length === 0) return undefined;
+    const previousNumber = Math.max(...candidates.map(img => img.sceneNumber));
+    return candidates.find(img => img.sceneNumber === previousNumber);
+  };
+
+  // Jobs regenerating `images` together. A tile whose previous scene is also
+  // being regenerated waits for its new image; otherwise it chains from the
+  // image already in the grid.
+  const regenerationSpecs = (images: GeneratedImage[]): JobSpec[] => {
     const cleanedStoryContext = cleanStoryContext(storyContext);
+    const pending = new Set<string>(images.map(img => img.id));
+    return images.map(image => {
+      const previous = findPreviousSceneImage(image, generatedImages.filter(img => img.id !== image.id), pending);
+      const chained = previous && chainsFrom(image, previous);
+      return {
+        imageId: image.id,
+        dependsOn: chained && pending.has(previous.id) ? previous.id : undefined,
+        previousImage: chained && isImageSrc(previous.src) ? previous.src : undefined,
+        buildRequest: buildJobRequest(image, cleanedStoryContext, true),
+      };
+    });
+  };
+
+  const runJobs = (specs: JobSpec[], signal?: AbortSignal) =>
+    jobEngine.run(specs.map(spec => ({ candidates: generationSettings.candidatesPerScene, ...spec })), {
+      provider: createImageProvider(providerSettings),
+      signal,
+      concurrency: generationSettings.concurrency,
+      requestsPerMinute: generationSettings.requestsPerMinute,
+      // A frame the check cannot read is treated as clean rather than failing the job.
+      inspect: generationSettings.artifactCheck === 'off' ? undefined : src => detectTextArtifacts(src).catch(() => []),
+      retryFlagged: generationSettings.artifactCheck === 'retry',
+    });
+
+  const runBatch = async (specs: JobSpec[]) => {
+    const controller = new AbortController();
+    batchAbortRef.current = controller;
+    try {
+      await runJobs(specs, controller.signal);
+    } finally {
+      if (batchAbortRef.current === controller) batchAbortRef.current = null;
+    }
+  };
+
+  const handleGenerate = async () => {
+    if (!checkPromptTemplate()) return;
+    const errorCount = scriptDiagnostics.filter(d => d.severity === 'error').length;
+    if (errorCount > 0 && !window.confirm(`Kịch bản có ${errorCount} lỗi (xem danh sách bên dưới kịch bản). Các cảnh lỗi sẽ bị bỏ qua. Vẫn tiếp tục tạo ảnh?`)) {
+      return;
+    }
 
-    const scenes = parsePrompts(promptsText).slice(0, batchSize);
+    const { scenes: parsedScenes, diagnostics } = parseScript(promptsText);
+    const scenes = parsedScenes.slice(0, batchSize);
+    const rejected = diagnostics.filter(d => d.severity === 'error');
     if (scenes.length === 0) {
-      setError("Không tìm thấy prompt hợp lệ nào. Vui lòng kiểm tra định dạng đầu vào.");
-      setIsGenerating(false);
+      const details = rejected.map(d => `Dòng ${d.line}: ${d.message}`).join(' ');
+      setError(`Không tìm thấy prompt hợp lệ nào. Vui lòng kiểm tra định dạng đầu vào.${details ? ` ${details}` : ''}`);
+      return;
+    }
+
+    // A scene already on the board keeps its tile, so the new image is added
+    // to its history instead of replacing it.
+    const existingTiles = new Map<number, GeneratedImage>();
+    generatedImages.forEach(img => {
+      if (!existingTiles.has(img.sceneNumber)) existingTiles.set(img.sceneNumber, img);
+    });
+    const initialImages: GeneratedImage[] = scenes.map((scene) => {
+      const existing = existingTiles.get(scene.sceneNumber);
+      existingTiles.delete(scene.sceneNumber);
+      return {
+        ...existing,
+        id: existing?.id ?? crypto.randomUUID(),
+        prompt: scene.prompt,
+        sceneName: `Cảnh ${scene.sceneNumber}`,
+        sceneNumber: scene.sceneNumber,
+        src: existing?.src ?? '',
+        isLoading: true,
+        characterRefIds: resolveCharacters(scene.characterName, characters).map(c => c.id),
+        locationRefId: findLocation(scene.location, locations)?.id,
+        isSelected: false,
+        sceneScript: scene.fullText,
+        versions: existing?.versions ?? [],
+      };
+    });
+    const kept = new Set(initialImages.map(img => img.id));
+    const dropped = generatedImages.filter(img => !kept.has(img.id) && img.versions.length > 0).length;
+    if (dropped > 0 && !window.confirm(`${dropped} ảnh không thuộc cảnh nào trong lần tạo này (cảnh đã xóa khỏi kịch bản hoặc bản đã chỉnh sửa) sẽ bị xóa cùng toàn bộ lịch sử phiên bản. Vẫn tiếp tục?`)) {
       return;
     }
 
-    const initialImages: GeneratedImage[] = scenes.map((scene) => ({
-      id: crypto.randomUUID(),
-      prompt: scene.prompt,
-      sceneName: `Cảnh ${scene.sceneNumber}`,
-      src: '',
-      isLoading: true,
-      characterRefId: characters.find(c => scene.characterName.toLowerCase().includes(c.name.toLowerCase()))?.id,
-      isSelected: false,
-      sceneScript: scene.fullText,
-    }));
+    setIsGenerating(true);
+    setError(null);
     setGeneratedImages(initialImages);
-    
-    const sceneImages: (string | undefined)[] = Array(scenes.length).fill(undefined);
-
-    for (let i = 0; i < initialImages.length; i++) {
-        const image = initialImages[i];
-        
-        if (isStoppingRef.current) {
-            console.log("Generation stopped by user.");
-            setGeneratedImages(currentImages =>
-                currentImages.map((img, index) =>
-                    index >= i ? { ...img, isLoading: false, src: 'cancelled' } : img
-                )
-            );
-            break;
-        }
 
-        const referenceImage = i > 0 ? sceneImages[i - 1] : undefined;
-        const isVariant = false; 
-        
-        const MAX_ATTEMPTS = 3;
-        let success = false;
-        let generatedBase64: string | null = null;
-
-        for (let attempt = 1; attempt <= MAX_ATTEMPTS && !success; attempt++) {
-            try {
-                const characterRef = characters.find(c => c.id === image.characterRefId);
-                const promptForApi = removeDialogue(image.prompt);
-                
-                console.log(`Generating image for ${image.sceneName}, attempt ${attempt}/${MAX_ATTEMPTS}`);
-                generatedBase64 = await generateImage(promptForApi, cleanedStoryContext, artStyle, aspectRatio, characterRef, referenceImage, isVariant);
-                success = true;
-
-            } catch (err) {
-                console.error(`Attempt ${attempt}/${MAX_ATTEMPTS} failed for prompt: ${image.prompt}`, err);
-                if (attempt < MAX_ATTEMPTS) {
-                    await sleep(5000); // Wait 5s before retrying
-                }
-            }
-        }
-        
-        if (isStoppingRef.current) {
-            setGeneratedImages(currentImages =>
-                currentImages.map((img, index) =>
-                    index >= i ? { ...img, isLoading: false, src: 'cancelled' } : img
-                )
-            );
-            break;
-        }
+    const cleanedStoryContext = cleanStoryContext(storyContext);
 
-        if (success && generatedBase64) {
-            const newSrc = `data:image/png;base64,${generatedBase64}`;
-            sceneImages[i] = newSrc;
-            setGeneratedImages(currentImages => {
-                const newImages = [...currentImages];
-                newImages[i] = { ...newImages[i], src: newSrc, isLoading: false };
-                return newImages;
-            });
-        } else {
-            sceneImages[i] = undefined;
-            setGeneratedImages(currentImages => {
-                const newImages = [...currentImages];
-                newImages[i] = { ...newImages[i], src: 'error', isLoading: false };
-                return newImages;
-            });
-        }
-    }
+    await runBatch(initialImages.map((image, i) => ({
+      imageId: image.id,
+      // Chained scenes wait for their predecessor and use its image as reference.
+      dependsOn: isChainedScene(scenes[i], scenes[i - 1], generationSettings) ? initialImages[i - 1].id : undefined,
+      buildRequest: buildJobRequest(image, cleanedStoryContext, false),
+    })));
 
     setIsGenerating(false);
   };
   
   const handleRegenerateAll = async () => {
-    if (isGenerating || generatedImages.length === 0) return;
+    if (isGenerating || generatedImages.length === 0 || !checkPromptTemplate()) return;
 
-    isStoppingRef.current = false;
     setIsGenerating(true);
     setError(null);
 
-    const cleanedStoryContext = cleanStoryContext(storyContext);
-    const originalImages = [...generatedImages];
+    // Each tile is refined against the *newly* refined tile of the scene before it.
+    await runBatch(regenerationSpecs(generatedImages));
 
-    // Set all to loading
-    setGeneratedImages(prev => prev.map(img => ({ ...img, isLoading: true })));
-    
-    // This will hold the newly generated srcs, initialized with old ones that are valid.
-    // It's crucial for passing the *new* previous image as a reference.
-    const newImageSrcs = originalImages.map(img => (img.src.startsWith('data:image') ? img.src : undefined));
-
-    for (let i = 0; i < originalImages.length; i++) {
-        const image = originalImages[i];
-
-        if (isStoppingRef.current) {
-            console.log("Refinement stopped by user.");
-            // Reset loading state for remaining images
-            setGeneratedImages(currentImages =>
-                currentImages.map((img, index) =>
-                    index >= i ? { ...img, isLoading: false } : img
-                )
-            );
-            break;
-        }
+    setIsGenerating(false);
+  };
 
-        // Reference image is the *newly* refined one from the previous step.
-        const referenceImage = i > 0 ? newImageSrcs[i - 1] : undefined;
-        const isVariant = true; 
-
-        const MAX_ATTEMPTS = 3;
-        let success = false;
-        let generatedBase64: string | null = null;
-
-        for (let attempt = 1; attempt <= MAX_ATTEMPTS && !success; attempt++) {
-            try {
-                const characterRef = characters.find(c => c.id === image.characterRefId);
-                const promptForApi = removeDialogue(image.prompt);
-                
-                console.log(`Refining image for ${image.sceneName}, attempt ${attempt}/${MAX_ATTEMPTS}`);
-                generatedBase64 = await generateImage(promptForApi, cleanedStoryContext, artStyle, aspectRatio, characterRef, referenceImage, isVariant);
-                success = true;
-            } catch (err) {
-                console.error(`Attempt ${attempt}/${MAX_ATTEMPTS} failed for refining prompt: ${image.prompt}`, err);
-                if (attempt < MAX_ATTEMPTS) {
-                    await sleep(5000);
-                }
-            }
-        }
+  const handleRegenerate = async (imageId: string, override?: Partial<GeneratedImage>) => {
+    const current = generatedImages.find(img => img.id === imageId);
+    if (!current || !checkPromptTemplate()) return;
 
-        if (isStoppingRef.current) {
-            // handle stop again just in case it was pressed during the API call
-            setGeneratedImages(currentImages =>
-                currentImages.map((img, index) =>
-                    index >= i ? { ...img, isLoading: false } : img
-                )
-            );
-            break;
-        }
+    const image = { ...current, ...override };
+    const previous = findPreviousSceneImage(image, generatedImages.filter(img => img.id !== imageId));
+
+    await runJobs([{
+      imageId,
+      previousImage: previous && chainsFrom(image, previous) ? previous.src : undefined,
+      buildRequest: buildJobRequest(image, cleanStoryContext(storyContext), true),
+    }]);
+  };
+
+  // Edits the tile's current take as instructed; the result is the next take
+  // of its refine thread. A failed attempt leaves the thread where it was.
+  const handleRefine = async (imageId: string, instruction: string) => {
+    const image = generatedImages.find(img => img.id === imageId);
+    const base = image && currentVersion(image);
+    if (!image || !base || image.isLoading) return;
+
+    await runJobs([{
+      imageId,
+      candidates: 1,
+      buildRequest: () => ({
+        ...buildJobRequest(image, cleanStoryContext(storyContext), true)(undefined),
+        refinement: { baseImage: base.src, baseVersionId: base.id, instruction },
+      }),
+    }]);
+  };
+
+  const selectedImages = generatedImages.filter(img => img.isSelected);
+  const selectionBusy = selectedImages.some(img => img.isLoading) || isApplyingFilter;
+  // A single-tile regenerate or refine patches the open project when it lands,
+  // so the project can't change under it.
+  const projectBusy = isGenerating || generatedImages.some(img => img.isLoading);
+
+  // Shift-click extends the selection from the last clicked tile to this one.
+  const handleToggleSelected = (index: number, extendRange: boolean) => {
+    const anchor = lastSelectedIndexRef.current;
+    const selected = !generatedImages[index].isSelected;
+    const [from, to] = extendRange && anchor !== null ? [Math.min(anchor, index), Math.max(anchor, index)] : [index, index];
+    setGeneratedImages(prev => prev.map((img, i) => i >= from && i <= to ? { ...img, isSelected: selected } : img));
+    lastSelectedIndexRef.current = index;
+  };
+
+  const selectWhere = (predicate: (image: GeneratedImage) => boolean) => {
+    setGeneratedImages(prev => prev.map(img => ({ ...img, isSelected: predicate(img) })));
+    lastSelectedIndexRef.current = null;
+  };
+
+  const isStale = (image: GeneratedImage) => !image.isLoading && hasStalePreviousScene(image, generatedImages);
+
+  const handleRegenerateSelected = async () => {
+    if (isGenerating || selectedImages.length === 0 || !checkPromptTemplate()) return;
+
+    setIsGenerating(true);
+    setError(null);
+
+    await runBatch(regenerationSpecs(selectedImages));
 
-        if (success && generatedBase64) {
-            const newSrc = `data:image/png;base64,${generatedBase64}`;
-            newImageSrcs[i] = newSrc; // Update the reference array for the next iteration
-            setGeneratedImages(currentImages => {
-                const newImages = [...currentImages];
-                if(newImages[i]) {
-                    newImages[i] = { ...newImages[i], src: newSrc, isLoading: false };
-                }
-                return newImages;
-            });
-        } else {
-            newImageSrcs[i] = 'error'; // Mark as error so the next iteration's reference is undefined
-             setGeneratedImages(currentImages => {
-                const newImages = [...currentImages];
-                if(newImages[i]) {
-                   newImages[i] = { ...newImages[i], src: 'error', isLoading: false };
-                }
-                return newImages;
-            });
-        }
-    }
     setIsGenerating(false);
   };
 
-  const handleRegenerate = useCallback(async (imageId: string, promptOverride?: string) => {
-    const imageIndex = generatedImages.findIndex(img => img.id === imageId);
-    if (imageIndex === -1) return;
+  const handleDownloadSelected = () => {
+    const images = selectedImages.filter(img => isImageSrc(img.src));
+    if (images.length === 0) return;
+    downloadBlob(exportImageArchive(images), `${toFileName(projectMetaRef.current?.name ?? '') || 'images'}.zip`);
+  };
 
-    const imageToRegen = generatedImages[imageIndex];
+  const handleDeleteSelected = () => {
+    if (!window.confirm(`Xóa ${selectedImages.length} ảnh đã chọn? Lịch sử phiên bản của các ảnh này cũng sẽ bị xóa.`)) return;
+    if (historyImageId && selectedImages.some(img => img.id === historyImageId)) setHistoryImageId(null);
+    setGeneratedImages(prev => prev.filter(img => !img.isSelected));
+    lastSelectedIndexRef.current = null;
+  };
 
-    setGeneratedImages(prev => prev.map(img => img.id === imageId ? { ...img, isLoading: true } : img));
-    
-    const cleanedStoryContext = cleanStoryContext(storyContext);
+  // Appends a filter preset to each selected image's edit stack and records
+  // the re-rendered result as a new edited version.
+  const handleApplyFilterSelected = async (presetId: string) => {
+    const preset = FILTER_PRESETS.find(p => p.id === presetId);
+    if (!preset) return;
+    setIsApplyingFilter(true);
+    try {
+      const images = selectedImages.filter(img => isImageSrc(img.src));
+      const results = await Promise.all(images.map(async img => {
+        const { source, steps } = editBase(img);
+        const editStack = source ? { sourceVersionId: source.id, steps: [...steps, ...presetSteps(preset)] } : undefined;
+        const src = await renderEditStack(source?.src ?? img.src, editStack?.steps ?? presetSteps(preset));
+        return [img.id, { src, editStack }] as const;
+      }));
+      const filtered = new Map<string, { src: string; editStack?: EditStack }>(results);
+      setGeneratedImages(prev => prev.map(img => {
+        const result = filtered.get(img.id);
+        return result ? addVersion(img, editedVersion(img, result.src, result.editStack)) : img;
+      }));
+    } catch (err) {
+      console.error("Failed to apply filter preset:", err);
+      setError("Không thể áp bộ lọc cho các ảnh đã chọn.");
+    } finally {
+      setIsApplyingFilter(false);
+    }
+  };
 
-    let referenceImage: string | undefined = undefined;
-    const isVariant = true;
-    
-    const sceneNameMatch = imageToRegen.sceneName.match(/Cảnh (\d+)/);
-    const sceneNumber = sceneNameMatch ? parseInt(sceneNameMatch[1], 10) : -1;
-
-    if (sceneNumber !== -1) {
-        const scenes = parsePrompts(promptsText);
-        const currentSceneIndex = scenes.findIndex(s => s.sceneNumber === sceneNumber);
-        
-        if (currentSceneIndex > 0) {
-            const prevSceneInfo = scenes[currentSceneIndex - 1];
-            const prevSceneRegex = new RegExp(`^Cảnh ${prevSceneInfo.sceneNumber}`);
-            const prevSceneImage = generatedImages.find(img => 
-                prevSceneRegex.test(img.sceneName) && img.src && img.src !== 'error'
-            );
-            if (prevSceneImage) {
-                referenceImage = prevSceneImage.src;
-            }
-        }
+  const buildStoryboard = (layout: StoryboardLayout, selectedOnly: boolean) => {
+    const title = projectMetaRef.current?.name ?? 'Storyboard';
+    return new Blob([buildStoryboardHtml(title, selectedOnly ? selectedImages : generatedImages, layout)], { type: 'text/html' });
+  };
+
+  const handleOpenStoryboard = (layout: StoryboardLayout, selectedOnly: boolean) => {
+    const url = URL.createObjectURL(buildStoryboard(layout, selectedOnly));
+    if (!window.open(url, '_blank')) {
+      setError("Trình duyệt đã chặn cửa sổ mới. Hãy cho phép cửa sổ bật lên hoặc dùng \"Tải HTML\".");
     }
+    // The tab keeps its own copy once loaded.
+    setTimeout(() => URL.revokeObjectURL(url), 60_000);
+  };
 
+  const handleDownloadStoryboard = (layout: StoryboardLayout, selectedOnly: boolean) => {
+    downloadBlob(buildStoryboard(layout, selectedOnly), `${toFileName(projectMetaRef.current?.name ?? '') || 'storyboard'}-storyboard.html`);
+  };
 
-    const finalPrompt = promptOverride ?? imageToRegen.prompt;
-    const promptForApi = removeDialogue(finalPrompt);
-    
-    const MAX_ATTEMPTS = 3;
-    let success = false;
-    for (let attempt = 1; attempt <= MAX_ATTEMPTS && !success; attempt++) {
-        try {
-            const characterRef = characters.find(c => c.id === imageToRegen.characterRefId);
-
-            console.log(`Regenerating image ${imageId}, attempt ${attempt}/${MAX_ATTEMPTS}`);
-            const imageBase64 = await generateImage(promptForApi, cleanedStoryContext, artStyle, aspectRatio, characterRef, referenceImage, isVariant);
-            
-            setGeneratedImages(prev => prev.map(img => 
-                img.id === imageId 
-                ? { ...img, src: `data:image/png;base64,${imageBase64}`, isLoading: false, prompt: finalPrompt, sceneScript: promptOverride ? imageToRegen.sceneScript.replace(/Prompt \(Câu lệnh tiếng Anh\):.*/s, `Prompt (Câu lệnh tiếng Anh): ${promptOverride}`) : imageToRegen.sceneScript } 
-                : img
-            ));
-            success = true;
-        } catch(err) {
-            console.error(`Attempt ${attempt}/${MAX_ATTEMPTS} for regenerating image ${imageId} failed`, err);
-            if (attempt === MAX_ATTEMPTS) {
-                setGeneratedImages(prev => prev.map(img => 
-                    img.id === imageId 
-                    ? { ...img, src: 'error', isLoading: false } 
-                    : img
-                ));
-            } else {
-                await sleep(5000);
-            }
-        }
+  // Stores a centred crop for `aspect` on every finished tile that has none
+  // yet, so each scene can then be fine-tuned in the editor.
+  const handleReframeAll = async (aspect: AspectRatio) => {
+    try {
+      const results = await Promise.all(generatedImages
+        .filter(img => isImageSrc(img.src) && !img.reframes?.[aspect])
+        .map(async img => {
+          const { naturalWidth, naturalHeight } = await loadImage(img.src);
+          return [img.id, centeredAspectRect(naturalWidth, naturalHeight, aspect)] as const;
+        }));
+      const rects = new Map<string, NormalizedRect>(results);
+      setGeneratedImages(prev => prev.map(img => {
+        const rect = rects.get(img.id);
+        return rect ? { ...img, reframes: { ...img.reframes, [aspect]: rect } } : img;
+      }));
+    } catch (err) {
+      console.error("Failed to reframe images:", err);
+      setError(`Không thể tạo khung ${aspect} cho các cảnh.`);
     }
-  }, [generatedImages, characters, aspectRatio, storyContext, artStyle, promptsText]);
+  };
+
+  // With a delivery format the frames are cut to each scene's stored crop
+  // (or a centred one) and the sequence takes that format.
+  const handleExportTimeline = async (format: TimelineFormat, fps: number, delivery: AspectRatio | null) => {
+    const title = projectMetaRef.current?.name ?? 'Timeline';
+    try {
+      const images = delivery
+        ? await Promise.all(generatedImages.map(async img => isImageSrc(img.src)
+          ? { ...img, src: await reframeImage(img.src, delivery, img.reframes?.[delivery]) }
+          : img))
+        : generatedImages;
+      const suffix = delivery ? `-${delivery.replace(':', 'x')}` : '';
+      downloadBlob(
+        exportTimelineArchive(title, images, { format, fps, aspectRatio: delivery ?? aspectRatio }),
+        `${toFileName(title) || 'timeline'}-${format}${suffix}.zip`,
+      );
+    } catch (err) {
+      console.error("Failed to export timeline:", err);
+      setError("Không thể xuất gói timeline.");
+    }
+  };
+
+  const handleExportSubtitles = (format: SubtitleFormat, language: PromptLanguage) => {
+    const subtitles = buildSubtitles(generatedImages, format, language);
+    const type = format === 'srt' ? 'application/x-subrip' : 'text/vtt';
+    downloadBlob(new Blob([subtitles], { type }), `${toFileName(projectMetaRef.current?.name ?? '') || 'subtitles'}.${language}.${format}`);
+  };
+
+  const handleExportVoiceOver = () => {
+    const title = projectMetaRef.current?.name ?? 'Dự án';
+    downloadBlob(new Blob([buildVoiceOverScript(title, generatedImages)], { type: 'text/plain' }), `${toFileName(title) || 'voice-over'}-voice-over.txt`);
+  };
+
+  const handleChangeMotion = (imageId: string, motionOverride: KenBurnsMotion | undefined) => {
+    setGeneratedImages(prev => prev.map(img => img.id === imageId ? { ...img, motionOverride } : img));
+  };
 
   const downloadImage = (src: string, name: string) => {
     const link = document.createElement('a');
     link.href = src;
-    link.download = `${name.toLowerCase().replace(/[^a-z0-9\s]/gi, '').replace(/\s+/g, '_')}.png`;
+    link.download = `${toFileName(name)}.png`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
   };
   
-  const handleSaveEdit = (editedSrc: string) => {
+  const handleSaveEdit = (editedSrc: string, editStack?: EditStack, reframes?: Reframes) => {
       if (!editingImage) return;
       setGeneratedImages(prev => 
           prev.map(img => 
-              img.id === editingImage.id ? { ...img, src: editedSrc } : img
+              img.id === editingImage.id ? { ...addVersion(img, editedVersion(img, editedSrc, editStack)), reframes } : img
           )
       );
       setEditingImage(null);
   };
 
-  const handleSaveAsNew = (editedSrc: string) => {
+  // The copy keeps the source take so its edit stack can still be re-rendered.
+  const handleSaveAsNew = (editedSrc: string, editStack?: EditStack, reframes?: Reframes) => {
       if (!editingImage) return;
-      const newImage: GeneratedImage = {
+      const source = editStack && editingImage.versions.find(v => v.id === editStack.sourceVersionId);
+      const newImage: GeneratedImage = addVersion({
           ...editingImage,
           id: crypto.randomUUID(),
-          src: editedSrc,
+          src: '',
           isSelected: false,
           sceneName: `${editingImage.sceneName} (đã chỉnh sửa)`,
-      };
+          versions: source ? [source] : [],
+          reframes,
+      }, editedVersion(editingImage, editedSrc, editStack));
       setGeneratedImages(prev => [...prev, newImage]);
       setEditingImage(null);
   };
 
+  const handleGenerateEdit = (request: ImageEditRequest, signal: AbortSignal) =>
+    createImageProvider(providerSettings).edit(request, signal);
+
+  const handleSaveInpaint = (src: string, instruction: string) => {
+      if (!editingImage) return;
+      setGeneratedImages(prev => prev.map(img => img.id === editingImage.id ? addVersion(img, inpaintedVersion(img, src, instruction)) : img));
+      setEditingImage(null);
+  };
+
+  const handlePromoteVersion = (versionId: string) => {
+    if (!historyImageId) return;
+    setGeneratedImages(prev => prev.map(img => img.id === historyImageId ? promoteVersion(img, versionId) : img));
+    setHistoryImageId(null);
+  };
+
   const handleCloseEditor = () => {
       setEditingImage(null);
   };
@@ -747,21 +864,26 @@ function App() {
   const handlePromptEditSave = (newScript: string) => {
     if (!editingPromptImage) return;
 
-    const promptRegex = /Prompt \(Câu lệnh tiếng Anh\):\s*([\s\S]*?)(?=\nNhân vật:|\nThời lượng ảnh:|\nKen Burns Effect:|$)/;
-    const promptMatch = newScript.match(promptRegex);
-    const newPrompt = (promptMatch && promptMatch[1]) ? promptMatch[1].trim() : newScript;
+    const editedScene = parseSceneBlock(newScript);
+    const newPrompt = editedScene?.prompt ?? newScript;
+    const characterRefIds = editedScene
+      ? resolveCharacters(editedScene.characterName, characters).map(c => c.id)
+      : editingPromptImage.characterRefIds;
+    const locationRefId = editedScene
+      ? findLocation(editedScene.location, locations)?.id
+      : editingPromptImage.locationRefId;
     
     const imageId = editingPromptImage.id;
 
     // Update the script in the state immediately for a better user experience
     setGeneratedImages(prev => prev.map(img => 
         img.id === imageId 
-        ? { ...img, sceneScript: newScript, prompt: newPrompt } 
+        ? { ...img, sceneScript: newScript, prompt: newPrompt, characterRefIds, locationRefId } 
         : img
     ));
     
     setEditingPromptImage(null);
-    handleRegenerate(imageId, newPrompt);
+    handleRegenerate(imageId, { sceneScript: newScript, prompt: newPrompt, characterRefIds, locationRefId });
   };
 
   const handleClosePromptEditor = () => {
@@ -782,6 +904,20 @@ function App() {
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Cột điều khiển */}
           <div className="lg:col-span-1 space-y-6">
+            <ProjectManager
+              projects={projects}
+              currentProjectId={currentProjectId}
+              saveStatus={saveStatus}
+              disabled={projectBusy}
+              onCreate={handleCreateProject}
+              onOpen={handleOpenProject}
+              onRename={handleRenameProject}
+              onDuplicate={handleDuplicateProject}
+              onDelete={handleDeleteProject}
+              onExport={handleExportBundle}
+              onImport={handleImportBundle}
+            />
+
             <div>
               <label htmlFor="storyContext" className="block text-sm font-medium text-gray-300 mb-2">
                 Bối cảnh & Chỉ dẫn Tổng thể (Quan trọng)
@@ -802,6 +938,7 @@ function App() {
               </label>
               <textarea
                 id="artStyle"
+                ref={artStyleRef}
                 value={artStyle}
                 onChange={(e) => setArtStyle(e.target.value)}
                 rows={4}
@@ -816,16 +953,20 @@ function App() {
               </label>
               <textarea
                 id="prompts"
+                ref={promptsTextareaRef}
                 value={promptsText}
                 onChange={(e) => setPromptsText(e.target.value)}
                 rows={15}
                 className="w-full bg-gray-800 border border-gray-600 rounded-lg p-3 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 transition-colors"
                 placeholder="Dán kịch bản phân cảnh vào đây..."
               ></textarea>
+              <ScriptLintPanel diagnostics={scriptDiagnostics} onJump={jumpToDiagnostic} />
             </div>
             
             <CharacterManager characters={characters} onCharactersChange={setCharacters} />
 
+            <LocationManager locations={locations} onLocationsChange={setLocations} />
+
             <div>
               <h3 className="text-sm font-medium text-gray-300 mb-2">Tỷ lệ khung hình</h3>
               <div className="grid grid-cols-4 gap-2">
@@ -848,6 +989,82 @@ function App() {
               </select>
             </div>
 
+            <PromptTemplateEditor
+              template={promptTemplate}
+              onChange={setPromptTemplate}
+              scenes={parsedScenes}
+              renderPreview={renderPromptPreview}
+              disabled={isGenerating}
+            />
+
+            <ProviderSettingsPanel settings={providerSettings} onChange={setProviderSettings} disabled={isGenerating} />
+
+            <div className="bg-gray-800 p-4 rounded-lg space-y-3">
+              <h3 className="text-sm font-medium text-gray-300">Tốc độ tạo ảnh</h3>
+              <div className="grid grid-cols-2 gap-2">
+                <label className="text-xs text-gray-400">
+                  Số ảnh chạy song song
+                  <select
+                    value={generationSettings.concurrency}
+                    onChange={e => setGenerationSettings(prev => ({ ...prev, concurrency: Number(e.target.value) }))}
+                    disabled={isGenerating}
+                    className="mt-1 w-full bg-gray-900 border border-gray-600 rounded-md p-2 text-sm text-gray-200"
+                  >
+                    {[1, 2, 3, 4, 5].map(n => <option key={n} value={n}>{n}</option>)}
+                  </select>
+                </label>
+                <label className="text-xs text-gray-400">
+                  Giới hạn yêu cầu / phút
+                  <input
+                    type="number"
+                    min={1}
+                    max={60}
+                    value={generationSettings.requestsPerMinute}
+                    onChange={e => setGenerationSettings(prev => ({ ...prev, requestsPerMinute: Math.max(1, Number(e.target.value) || 1) }))}
+                    disabled={isGenerating}
+                    className="mt-1 w-full bg-gray-900 border border-gray-600 rounded-md p-2 text-sm text-gray-200"
+                  />
+                </label>
+              </div>
+              <label className="block text-xs text-gray-400">
+                Số ứng viên mỗi cảnh
+                <select
+                  value={generationSettings.candidatesPerScene}
+                  onChange={e => setGenerationSettings(prev => ({ ...prev, candidatesPerScene: Number(e.target.value) }))}
+                  disabled={isGenerating}
+                  className="mt-1 w-full bg-gray-900 border border-gray-600 rounded-md p-2 text-sm text-gray-200"
+                >
+                  {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n === 1 ? '1 (không chọn lọc)' : `${n} ảnh để chọn`}</option>)}
+                </select>
+                {generationSettings.candidatesPerScene > 1 && generationSettings.chainScenes && (
+                  <span className="mt-1 block text-gray-500">Cảnh nối tiếp lấy ứng viên xong trước của cảnh trước làm tham chiếu; chọn ứng viên khác thì các cảnh đó được đánh dấu để tạo lại.</span>
+                )}
+              </label>
+              <label className="flex items-start gap-2 text-xs text-gray-400 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={generationSettings.chainScenes}
+                  onChange={() => setGenerationSettings(prev => ({ ...prev, chainScenes: !prev.chainScenes }))}
+                  disabled={isGenerating}
+                  className="mt-0.5"
+                />
+                <span>Nối tiếp cảnh: dùng ảnh cảnh trước làm tham chiếu phong cách khi cùng địa điểm (cảnh nối tiếp phải chờ cảnh trước).</span>
+              </label>
+              <label className="block text-xs text-gray-400">
+                Kiểm tra chữ/watermark trên ảnh mới
+                <select
+                  value={generationSettings.artifactCheck}
+                  onChange={e => setGenerationSettings(prev => ({ ...prev, artifactCheck: e.target.value as GenerationSettings['artifactCheck'] }))}
+                  disabled={isGenerating}
+                  className="mt-1 w-full bg-gray-900 border border-gray-600 rounded-md p-2 text-sm text-gray-200"
+                >
+                  <option value="off">Tắt</option>
+                  <option value="flag">Chỉ đánh dấu ảnh nghi ngờ</option>
+                  <option value="retry">Đánh dấu và tạo lại (trong số lần thử)</option>
+                </select>
+              </label>
+            </div>
+
             <div className="space-y-4">
               {isGenerating ? (
                 <button
@@ -876,13 +1093,29 @@ function App() {
                 </div>
               )}
             </div>
+
+            <StoryboardExportPanel
+              imageCount={generatedImages.length}
+              selectedCount={selectedImages.length}
+              onOpen={handleOpenStoryboard}
+              onDownload={handleDownloadStoryboard}
+            />
+
+            <EditorialExportPanel
+              frameCount={generatedImages.filter(img => isImageSrc(img.src)).length}
+              reframedCounts={Object.fromEntries(ASPECT_RATIOS.map(aspect => [aspect, generatedImages.filter(img => isImageSrc(img.src) && img.reframes?.[aspect]).length]))}
+              onReframeAll={handleReframeAll}
+              onExportTimeline={handleExportTimeline}
+              onExportSubtitles={handleExportSubtitles}
+              onExportVoiceOver={handleExportVoiceOver}
+            />
           </div>
 
           {/* Cột hiển thị ảnh */}
           <div className="lg:col-span-2">
             {isGenerating && generatedImages.every(img => img.isLoading) && (
               <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4">
-                  {Array.from({ length: Math.min(batchSize, parsePrompts(promptsText).length || batchSize) }).map((_, index) => (
+                  {Array.from({ length: Math.min(batchSize, parseScript(promptsText).scenes.length || batchSize) }).map((_, index) => (
                       <div key={index} className="aspect-w-16 aspect-h-9 bg-gray-800 rounded-lg animate-pulse"></div>
                   ))}
               </div>
@@ -890,9 +1123,47 @@ function App() {
             
             {error && <div className="bg-red-900 border border-red-700 text-red-200 px-4 py-3 rounded-lg">{error}</div>}
 
+            {generatedImages.some(img => isImageSrc(img.src)) && (
+              <div className="mb-2 flex justify-end">
+                <button onClick={() => setIsAnimaticOpen(true)} className="flex items-center gap-1 bg-indigo-600 hover:bg-indigo-500 text-white text-sm py-1.5 px-3 rounded-md transition-colors">
+                  <PlayIcon className="w-4 h-4" />
+                  Xem animatic
+                </button>
+              </div>
+            )}
+
+            {generatedImages.length > 0 && (
+              <SelectionToolbar
+                selectedCount={selectedImages.length}
+                totalCount={generatedImages.length}
+                failedCount={generatedImages.filter(img => img.src === 'error').length}
+                busy={isGenerating || selectionBusy}
+                onSelectAll={() => selectWhere(() => true)}
+                onSelectFailed={() => selectWhere(img => img.src === 'error')}
+                flaggedCount={generatedImages.filter(isFlagged).length}
+                onSelectFlagged={() => selectWhere(isFlagged)}
+                staleCount={generatedImages.filter(isStale).length}
+                onSelectStale={() => selectWhere(isStale)}
+                onClear={() => selectWhere(() => false)}
+                onRegenerate={handleRegenerateSelected}
+                onDownload={handleDownloadSelected}
+                onDelete={handleDeleteSelected}
+                onApplyFilter={handleApplyFilterSelected}
+              />
+            )}
+
             <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4">
-              {generatedImages.map((image) => (
-                <div key={image.id} className="group relative aspect-w-16 aspect-h-9 bg-gray-800 rounded-lg overflow-hidden">
+              {generatedImages.map((image, index) => (
+                <div key={image.id} className={`group relative aspect-w-16 aspect-h-9 bg-gray-800 rounded-lg overflow-hidden ${image.isSelected ? 'ring-2 ring-cyan-400' : ''}`}>
+                  <input
+                    type="checkbox"
+                    checked={image.isSelected}
+                    onChange={() => {}}
+                    onClick={e => handleToggleSelected(index, e.shiftKey)}
+                    className={`absolute top-2 left-2 z-20 w-4 h-4 cursor-pointer accent-cyan-500 ${image.isSelected || selectedImages.length > 0 ? '' : 'opacity-0 group-hover:opacity-100'}`}
+                    title="Chọn (giữ Shift để chọn một dải)"
+                    aria-label={`Chọn ${image.sceneName}`}
+                  />
                   {image.isLoading ? (
                     <div className="w-full h-full flex items-center justify-center animate-pulse">
                        <div className="flex items-center justify-center text-gray-400">
@@ -900,16 +1171,24 @@ function App() {
                               <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                               <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                           </svg>
-                          <span>Đang tạo...</span>
+                          <span>{jobStatusLabel(jobStatus[image.id])}</span>
                       </div>
                     </div>
                   ) : image.src === 'error' ? (
                      <div className="w-full h-full flex flex-col items-center justify-center bg-red-900 bg-opacity-50 text-red-300">
-                        <p className="text-sm">Tạo ảnh thất bại</p>
-                        <button onClick={() => handleRegenerate(image.id)} className="mt-2 bg-red-700 hover:bg-red-600 text-white font-bold py-1 px-3 rounded-md text-sm flex items-center">
-                            <RetryIcon className="w-4 h-4 mr-1" />
-                            Thử lại
-                        </button>
+                        <FailureMessage failure={image.failure} />
+                        <div className="mt-2 flex gap-2">
+                            <button onClick={() => handleRegenerate(image.id)} className="bg-red-700 hover:bg-red-600 text-white font-bold py-1 px-3 rounded-md text-sm flex items-center">
+                                <RetryIcon className="w-4 h-4 mr-1" />
+                                Thử lại
+                            </button>
+                            {image.versions.length > 0 && (
+                                <button onClick={() => setHistoryImageId(image.id)} className="bg-gray-700 hover:bg-gray-600 text-white py-1 px-3 rounded-md text-sm flex items-center">
+                                    <HistoryIcon className="w-4 h-4 mr-1" />
+                                    Phiên bản cũ
+                                </button>
+                            )}
+                        </div>
                     </div>
                   ) : image.src === 'cancelled' ? (
                     <div className="w-full h-full flex flex-col items-center justify-center bg-gray-700 bg-opacity-50 text-gray-300">
@@ -918,6 +1197,36 @@ function App() {
                   ) : (
                     <>
                       <img src={image.src} alt={image.prompt} className="w-full h-full object-cover" />
+                      <div className="absolute top-2 right-2 z-10 flex gap-1">
+                        {isStale(image) && (
+                          <button
+                            onClick={() => handleRegenerate(image.id)}
+                            className="flex items-center bg-cyan-600 hover:bg-cyan-500 text-white text-xs px-2 py-1 rounded-full"
+                            title="Ảnh này được nối tiếp từ một ứng viên khác của cảnh trước. Bấm để tạo lại theo ứng viên đang chọn."
+                          >
+                            <RetryIcon className="w-3 h-3 mr-1" /> Cảnh trước đã đổi
+                          </button>
+                        )}
+                        {isFlagged(image) && (
+                          <span className="bg-amber-500 text-gray-900 p-1 rounded-full" title={describeArtifacts(currentVersion(image)!.artifacts!)}>
+                            <WarningIcon className="w-4 h-4" />
+                          </span>
+                        )}
+                      </div>
+                      {currentCandidates(image).length > 1 && (
+                        <div className="absolute bottom-2 left-2 z-10 flex gap-1 bg-black bg-opacity-50 p-1 rounded-md">
+                          {currentCandidates(image).map((candidate, index) => (
+                            <button
+                              key={candidate.id}
+                              onClick={() => setGeneratedImages(prev => prev.map(img => img.id === image.id ? promoteVersion(img, candidate.id) : img))}
+                              className={`w-10 h-10 rounded overflow-hidden border-2 ${candidate.id === image.currentVersionId ? 'border-cyan-400' : 'border-transparent opacity-70 hover:opacity-100'}`}
+                              title={`Chọn ứng viên ${index + 1}`}
+                            >
+                              <img src={candidate.src} alt={`Ứng viên ${index + 1}`} className="w-full h-full object-cover" />
+                            </button>
+                          ))}
+                        </div>
+                      )}
                       <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-60 transition-all duration-300 flex flex-col justify-between p-2 text-white">
                         <p className="text-xs font-mono opacity-0 group-hover:opacity-100 transition-opacity line-clamp-3">{image.prompt}</p>
                         <div className="flex justify-end gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
@@ -927,6 +1236,15 @@ function App() {
                            <button onClick={() => setEditingImage(image)} className="bg-blue-600 hover:bg-blue-500 p-2 rounded-full" title="Edit Image">
                                 <EditIcon className="w-5 h-5" />
                            </button>
+                           <button onClick={() => setRefiningImageId(image.id)} className="bg-cyan-600 hover:bg-cyan-500 p-2 rounded-full" title="Tinh chỉnh bằng lời">
+                                <ChatIcon className="w-5 h-5" />
+                           </button>
+                           {image.versions.length > 1 && (
+                             <button onClick={() => setHistoryImageId(image.id)} className="relative bg-amber-600 hover:bg-amber-500 p-2 rounded-full" title="Lịch sử phiên bản">
+                                  <HistoryIcon className="w-5 h-5" />
+                                  <span className="absolute -top-1 -right-1 bg-gray-900 text-[10px] rounded-full px-1">{image.versions.length}</span>
+                             </button>
+                           )}
                            <button onClick={() => handleRegenerate(image.id)} className="bg-gray-600 hover:bg-gray-500 p-2 rounded-full" title="Regenerate">
                                 <RetryIcon className="w-5 h-5" />
                            </button>
@@ -942,12 +1260,42 @@ function App() {
             </div>
           </div>
         </div>
+        {isAnimaticOpen && (
+            <AnimaticPlayer
+                images={generatedImages}
+                aspectRatio={aspectRatio}
+                onChangeMotion={handleChangeMotion}
+                onExportVideo={video => downloadBlob(video, `${toFileName(projectMetaRef.current?.name ?? '') || 'animatic'}-animatic.webm`)}
+                onClose={() => setIsAnimaticOpen(false)}
+            />
+        )}
+        {refiningImage && (
+            <RefineThreadModal
+                key={refiningImage.id}
+                image={refiningImage}
+                onRefine={instruction => handleRefine(refiningImage.id, instruction)}
+                onPromote={versionId => setGeneratedImages(prev => prev.map(img => img.id === refiningImage.id ? promoteVersion(img, versionId) : img))}
+                onClose={() => setRefiningImageId(null)}
+            />
+        )}
+        {historyImage && (
+            <VersionHistoryModal
+                key={historyImage.id}
+                image={historyImage}
+                characters={characters}
+                locations={locations}
+                onPromote={handlePromoteVersion}
+                onClose={() => setHistoryImageId(null)}
+            />
+        )}
         {editingImage && (
             <ImageEditorModal
                 key={editingImage.id}
                 image={editingImage}
                 onSave={handleSaveEdit}
                 onSaveAsNew={handleSaveAsNew}
+                onGenerateEdit={handleGenerateEdit}
+                onSaveInpaint={handleSaveInpaint}
                 onClose={handleCloseEditor}
             />
         )}
@@ -0,0 +1,227 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AspectRatio, GeneratedImage, KenBurnsMotion } from '../types';
+import { ANIMATIC_TRANSITIONS, AnimaticTransition, buildAnimaticTimeline, clipIndexAt, DEFAULT_TRANSITION_SECONDS, drawAnimaticFrame, frameSize, KEN_BURNS_MOTIONS } from '../services/Animatic';
+import { loadImage } from '../services/ImageUtils';
+import { isVideoExportSupported, renderAnimaticVideo, VIDEO_RESOLUTIONS } from '../services/AnimaticVideo';
+import { isAbortError } from '../services/GenerationError';
+import { CloseIcon, PauseIcon, PlayIcon } from './Icons';
+
+interface AnimaticPlayerProps {
+  images: GeneratedImage[];
+  aspectRatio: AspectRatio;
+  // `undefined` goes back to the motion written in the script.
+  onChangeMotion: (imageId: string, motion: KenBurnsMotion | undefined) => void;
+  onExportVideo: (video: Blob) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_LONG_SIDE = 960;
+const VIDEO_FPS = 30;
+
+const formatTime = (seconds: number) => `${Math.floor(seconds / 60)}:${(seconds % 60).toFixed(1).padStart(4, '0')}`;
+
+const motionLabel = (motion: KenBurnsMotion) => KEN_BURNS_MOTIONS.find(m => m.id === motion)?.label ?? motion;
+
+/**
+ * Plays the tiles in scene order, each for its scene's duration with its
+ * Ken Burns move, on a canvas shaped like the project's aspect ratio.
+ */
+export const AnimaticPlayer: React.FC<AnimaticPlayerProps> = ({ images, aspectRatio, onChangeMotion, onExportVideo, onClose }) => {
+  const timeline = useMemo(() => buildAnimaticTimeline(images), [images]);
+  const [time, setTime] = useState(0);
+  const timeRef = useRef(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [loadedCount, setLoadedCount] = useState(0);
+  const [transition, setTransition] = useState<AnimaticTransition>('crossfade');
+  const [videoLongSide, setVideoLongSide] = useState(VIDEO_RESOLUTIONS[0].longSide);
+  const [exportProgress, setExportProgress] = useState<number | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const exportAbortRef = useRef<AbortController | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const framesRef = useRef(new Map<string, HTMLImageElement>());
+  const { width, height } = frameSize(aspectRatio, PREVIEW_LONG_SIDE);
+  const clipIndex = clipIndexAt(timeline, time);
+  const clip = timeline.clips[clipIndex];
+
+  const seek = (seconds: number) => {
+    timeRef.current = seconds;
+    setTime(seconds);
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    for (const { src } of timeline.clips) {
+      if (framesRef.current.has(src)) continue;
+      loadImage(src).then(img => {
+        if (cancelled) return;
+        framesRef.current.set(src, img);
+        setLoadedCount(count => count + 1);
+      }).catch(err => console.error("Failed to load animatic frame:", err));
+    }
+    return () => { cancelled = true; };
+  }, [timeline]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    let frame = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const next = Math.min(timeline.total, timeRef.current + (now - last) / 1000);
+      last = now;
+      seek(next);
+      if (next >= timeline.total) {
+        setIsPlaying(false);
+        return;
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, timeline.total]);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (ctx) drawAnimaticFrame(ctx, timeline, framesRef.current, time, transition);
+  }, [time, timeline, transition, loadedCount, width, height]);
+
+  // Abandon a running export when the player closes.
+  useEffect(() => () => exportAbortRef.current?.abort(), []);
+
+  const exportVideo = async () => {
+    const controller = new AbortController();
+    exportAbortRef.current = controller;
+    setIsPlaying(false);
+    setExportError(null);
+    setExportProgress(0);
+    try {
+      const video = await renderAnimaticVideo(timeline, {
+        aspectRatio,
+        longSide: videoLongSide,
+        fps: VIDEO_FPS,
+        transition,
+        transitionSeconds: DEFAULT_TRANSITION_SECONDS,
+      }, setExportProgress, controller.signal);
+      onExportVideo(video);
+    } catch (err) {
+      if (!isAbortError(err)) {
+        console.error("Failed to export animatic video:", err);
+        setExportError(err instanceof Error ? err.message : String(err));
+      }
+    } finally {
+      exportAbortRef.current = null;
+      setExportProgress(null);
+    }
+  };
+
+  const togglePlay = () => {
+    if (!isPlaying && time >= timeline.total) seek(0);
+    setIsPlaying(!isPlaying);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4" aria-modal="true" role="dialog">
+      <div className="bg-gray-800 rounded-lg shadow-xl w-full max-w-6xl max-h-full flex flex-col text-gray-200">
+        <header className="flex items-center justify-between p-4 border-b border-gray-700">
+          <h2 className="text-xl font-bold">Animatic</h2>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-gray-700" aria-label="Đóng">
+            <CloseIcon className="w-6 h-6" />
+          </button>
+        </header>
+        {timeline.clips.length === 0 ? (
+          <p className="p-6 text-sm text-gray-400">Chưa có ảnh nào để phát.</p>
+        ) : (
+          <main className="flex-1 flex flex-col lg:flex-row overflow-hidden">
+            <div className="flex-1 flex flex-col gap-3 p-4 min-w-0">
+              <div className="flex-1 flex items-center justify-center bg-black rounded-md overflow-hidden">
+                <canvas ref={canvasRef} width={width} height={height} className="max-w-full max-h-[60vh]" />
+              </div>
+              <div className="flex items-center gap-3">
+                <button onClick={togglePlay} className="p-2 rounded-full bg-cyan-600 hover:bg-cyan-500" aria-label={isPlaying ? 'Tạm dừng' : 'Phát'}>
+                  {isPlaying ? <PauseIcon className="w-5 h-5" /> : <PlayIcon className="w-5 h-5" />}
+                </button>
+                <input
+                  type="range"
+                  min={0}
+                  max={timeline.total}
+                  step={0.05}
+                  value={time}
+                  onChange={e => seek(Number(e.target.value))}
+                  className="flex-1"
+                  aria-label="Tua"
+                />
+                <span className="text-xs font-mono text-gray-400 w-24 text-right">{formatTime(time)} / {formatTime(timeline.total)}</span>
+              </div>
+              <p className="text-xs text-gray-400">{clip.sceneName} · {clip.duration}s · {motionLabel(clip.motion)}</p>
+            </div>
+            <aside className="w-full lg:w-72 border-t lg:border-t-0 lg:border-l border-gray-700 p-4 space-y-2 overflow-y-auto">
+              <h3 className="text-sm font-semibold text-gray-300">Chuyển động từng cảnh</h3>
+              {timeline.clips.map((c, index) => (
+                <div key={c.imageId} className={`flex items-center gap-2 p-1 rounded-md ${index === clipIndex ? 'bg-gray-700' : ''}`}>
+                  <button onClick={() => seek(c.start)} className="shrink-0 w-14 h-9 rounded overflow-hidden" title={`Đến ${c.sceneName}`}>
+                    <img src={c.src} alt={c.sceneName} className="w-full h-full object-cover" />
+                  </button>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-xs truncate">{c.sceneName} · {c.duration}s</p>
+                    <select
+                      value={c.motion === c.scriptMotion ? '' : c.motion}
+                      onChange={e => onChangeMotion(c.imageId, (e.target.value || undefined) as KenBurnsMotion | undefined)}
+                      className="w-full bg-gray-900 border border-gray-600 rounded p-1 text-xs text-gray-200"
+                    >
+                      <option value="">Theo kịch bản ({motionLabel(c.scriptMotion)})</option>
+                      {KEN_BURNS_MOTIONS.filter(m => m.id !== c.scriptMotion).map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                    </select>
+                  </div>
+                </div>
+              ))}
+            </aside>
+          </main>
+        )}
+        {timeline.clips.length > 0 && (
+          <footer className="p-4 border-t border-gray-700 flex flex-wrap items-center justify-end gap-3 text-sm">
+            {exportError && <span className="text-xs text-red-400 mr-auto">{exportError}</span>}
+            <label className="text-xs text-gray-400 flex items-center gap-2">
+              Chuyển cảnh
+              <select
+                value={transition}
+                onChange={e => setTransition(e.target.value as AnimaticTransition)}
+                disabled={exportProgress !== null}
+                className="bg-gray-900 border border-gray-600 rounded p-1 text-xs text-gray-200"
+              >
+                {ANIMATIC_TRANSITIONS.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+              </select>
+            </label>
+            <label className="text-xs text-gray-400 flex items-center gap-2">
+              Độ phân giải
+              <select
+                value={videoLongSide}
+                onChange={e => setVideoLongSide(Number(e.target.value))}
+                disabled={exportProgress !== null}
+                className="bg-gray-900 border border-gray-600 rounded p-1 text-xs text-gray-200"
+              >
+                {VIDEO_RESOLUTIONS.map(r => {
+                  const size = frameSize(aspectRatio, r.longSide);
+                  return <option key={r.longSide} value={r.longSide}>{r.label} ({size.width}×{size.height})</option>;
+                })}
+              </select>
+            </label>
+            {exportProgress === null ? (
+              <button
+                onClick={exportVideo}
+                disabled={!isVideoExportSupported()}
+                title={isVideoExportSupported() ? 'Ghi animatic thành video WebM ngay trong trình duyệt' : 'Trình duyệt không hỗ trợ ghi video WebM'}
+                className="px-4 py-2 bg-cyan-600 rounded-md hover:bg-cyan-500 font-semibold transition-colors disabled:opacity-50"
+              >
+                Xuất WebM
+              </button>
+            ) : (
+              <>
+                <span className="text-xs text-gray-400">Đang ghi video {Math.round(exportProgress * 100)}% · giữ tab này mở</span>
+                <button onClick={() => exportAbortRef.current?.abort()} className="px-4 py-2 bg-gray-600 rounded-md hover:bg-gray-500 transition-colors">Hủy</button>
+              </>
+            )}
+          </footer>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,5 @@
-
-import React, { useRef } from 'react';
-import { Character } from '../types';
+import React, { useRef, useState } from 'react';
+import { Character, ReferenceAngle, ReferenceImage } from '../types';
 import { TrashIcon, PlusIcon } from './Icons';
 
 interface CharacterManagerProps {
@@ -8,6 +7,13 @@ interface CharacterManagerProps {
   onCharactersChange: (characters: Character[]) => void;
 }
 
+const ANGLE_OPTIONS: { value: ReferenceAngle; label: string }[] = [
+  { value: 'front', label: 'Chính diện' },
+  { value: 'profile', label: 'Góc nghiêng' },
+  { value: 'fullBody', label: 'Toàn thân / trang phục' },
+  { value: 'other', label: 'Khác' },
+];
+
 const fileToBase64 = (file: File): Promise<string> =>
   new Promise((resolve, reject) => {
     const reader = new FileReader();
@@ -16,32 +22,68 @@ const fileToBase64 = (file: File): Promise<string> =>
     reader.onerror = (error) => reject(error);
   });
 
+export const fileToReference = async (file: File, angle: ReferenceAngle): Promise<ReferenceImage> => ({
+  id: crypto.randomUUID(),
+  angle,
+  imageBase64: await fileToBase64(file),
+  mimeType: file.type,
+});
+
+// Aliases are edited as one comma-separated string and committed on blur so
+// typing a trailing comma doesn't get normalised away mid-edit.
+export const AliasInput: React.FC<{ aliases: string[]; onCommit: (aliases: string[]) => void }> = ({ aliases, onCommit }) => {
+  const [draft, setDraft] = useState(aliases.join(', '));
+  return (
+    <input
+      type="text"
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => onCommit(draft.split(',').map(a => a.trim()).filter(Boolean))}
+      placeholder="Tên gọi khác, cách nhau bằng dấu phẩy"
+      className="w-full bg-gray-900 border border-gray-600 rounded-md px-2 py-1 text-xs focus:outline-none focus:border-cyan-400"
+    />
+  );
+};
+
 export const CharacterManager: React.FC<CharacterManagerProps> = ({ characters, onCharactersChange }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const referenceInputRef = useRef<HTMLInputElement>(null);
+  const addingReferenceToRef = useRef<string | null>(null);
 
   const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
     if (event.target.files) {
       const files = Array.from(event.target.files);
       // FIX: Explicitly type `file` as `File` to resolve type inference issues.
-      const newCharactersPromises = files.map(async (file: File) => {
-        const base64 = await fileToBase64(file);
+      const newCharactersPromises = files.map(async (file: File): Promise<Character> => {
         const lastDotIndex = file.name.lastIndexOf('.');
         const characterName = lastDotIndex > 0 ? file.name.slice(0, lastDotIndex) : file.name;
         return {
           id: crypto.randomUUID(),
           name: characterName || 'Chưa đặt tên',
-          imageBase64: base64,
-          mimeType: file.type,
+          aliases: [],
+          description: '',
+          references: [await fileToReference(file, 'front')],
         };
       });
       const newCharacters = await Promise.all(newCharactersPromises);
       onCharactersChange([...characters, ...newCharacters]);
+      event.target.value = '';
+    }
+  };
+
+  const handleReferenceFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const characterId = addingReferenceToRef.current;
+    if (event.target.files && characterId) {
+      const files = Array.from(event.target.files);
+      const references = await Promise.all(files.map((file: File) => fileToReference(file, 'other')));
+      updateCharacter(characterId, c => ({ ...c, references: [...c.references, ...references] }));
+      event.target.value = '';
     }
+    addingReferenceToRef.current = null;
   };
 
-  const updateCharacterName = (id: string, name: string) => {
-    const updated = characters.map((c) => (c.id === id ? { ...c, name } : c));
-    onCharactersChange(updated);
+  const updateCharacter = (id: string, update: (character: Character) => Character) => {
+    onCharactersChange(characters.map((c) => (c.id === id ? update(c) : c)));
   };
 
   const deleteCharacter = (id: string) => {
@@ -49,39 +91,87 @@ export const CharacterManager: React.FC<CharacterManagerProps> = ({ characters,
     onCharactersChange(remaining);
   };
 
+  const addReference = (characterId: string) => {
+    addingReferenceToRef.current = characterId;
+    referenceInputRef.current?.click();
+  };
+
   return (
     <div className="bg-gray-800 p-4 rounded-lg">
       <h3 className="text-lg font-semibold text-gray-100 mb-4">Quản lý nhân vật tham chiếu</h3>
-      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+      <div className="space-y-4">
         {characters.map((char) => (
-          <div key={char.id} className="group relative">
-            <img
-              src={`data:${char.mimeType};base64,${char.imageBase64}`}
-              alt={char.name}
-              className="w-full h-32 object-cover rounded-md"
-            />
-            <div className="absolute inset-0 bg-black bg-opacity-50 flex items-end p-2 opacity-0 group-hover:opacity-100 transition-opacity">
+          <div key={char.id} className="bg-gray-700 rounded-md p-3 space-y-2">
+            <div className="flex items-center gap-2">
               <input
                 type="text"
                 value={char.name}
-                onChange={(e) => updateCharacterName(char.id, e.target.value)}
-                className="w-full bg-transparent text-white text-sm font-bold border-b border-gray-400 focus:outline-none focus:border-cyan-400"
+                onChange={(e) => updateCharacter(char.id, c => ({ ...c, name: e.target.value }))}
+                className="flex-1 bg-transparent text-white text-sm font-bold border-b border-gray-500 focus:outline-none focus:border-cyan-400"
               />
+              <button
+                onClick={() => deleteCharacter(char.id)}
+                className="bg-red-600 text-white p-1 rounded-full hover:bg-red-700"
+                title="Xóa nhân vật"
+              >
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </div>
+            <AliasInput
+              key={char.aliases.join(',')}
+              aliases={char.aliases}
+              onCommit={(aliases) => updateCharacter(char.id, c => ({ ...c, aliases }))}
+            />
+            <div className="flex gap-2 overflow-x-auto pb-1">
+              {char.references.map((reference) => (
+                <div key={reference.id} className="group relative shrink-0 w-20">
+                  <img
+                    src={`data:${reference.mimeType};base64,${reference.imageBase64}`}
+                    alt={`${char.name} (${reference.angle})`}
+                    className="w-20 h-20 object-cover rounded-md"
+                  />
+                  <select
+                    value={reference.angle}
+                    onChange={(e) => updateCharacter(char.id, c => ({
+                      ...c,
+                      references: c.references.map(r => r.id === reference.id ? { ...r, angle: e.target.value as ReferenceAngle } : r),
+                    }))}
+                    className="mt-1 w-full bg-gray-900 border border-gray-600 rounded text-[10px] py-0.5"
+                  >
+                    {ANGLE_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                  </select>
+                  <button
+                    onClick={() => updateCharacter(char.id, c => ({ ...c, references: c.references.filter(r => r.id !== reference.id) }))}
+                    className="absolute top-1 right-1 bg-red-600 text-white p-0.5 rounded-full opacity-0 group-hover:opacity-100 transition-opacity hover:bg-red-700"
+                    title="Xóa ảnh tham chiếu"
+                  >
+                    <TrashIcon className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={() => addReference(char.id)}
+                className="shrink-0 flex items-center justify-center w-20 h-20 border-2 border-dashed border-gray-500 rounded-md hover:border-cyan-400 text-gray-400 hover:text-cyan-400 transition-colors"
+                title="Thêm góc nhìn"
+              >
+                <PlusIcon className="w-6 h-6" />
+              </button>
             </div>
-            <button
-              onClick={() => deleteCharacter(char.id)}
-              className="absolute top-1 right-1 bg-red-600 text-white p-1 rounded-full opacity-0 group-hover:opacity-100 transition-opacity hover:bg-red-700"
-            >
-              <TrashIcon className="w-4 h-4" />
-            </button>
+            <textarea
+              value={char.description}
+              onChange={(e) => updateCharacter(char.id, c => ({ ...c, description: e.target.value }))}
+              rows={2}
+              placeholder="Mô tả ngoại hình: tuổi, khuôn mặt, kiểu tóc, trang phục..."
+              className="w-full bg-gray-900 border border-gray-600 rounded-md px-2 py-1 text-xs focus:outline-none focus:border-cyan-400"
+            />
           </div>
         ))}
         <button
           onClick={() => fileInputRef.current?.click()}
-          className="flex flex-col items-center justify-center w-full h-32 border-2 border-dashed border-gray-600 rounded-md hover:border-cyan-400 text-gray-400 hover:text-cyan-400 transition-colors"
+          className="flex flex-col items-center justify-center w-full h-24 border-2 border-dashed border-gray-600 rounded-md hover:border-cyan-400 text-gray-400 hover:text-cyan-400 transition-colors"
         >
           <PlusIcon className="w-8 h-8" />
-          <span className="text-sm mt-1">Tải ảnh lên</span>
+          <span className="text-sm mt-1">Tải ảnh lên (mỗi ảnh một nhân vật)</span>
         </button>
       </div>
       <input
@@ -92,6 +182,14 @@ export const CharacterManager: React.FC<CharacterManagerProps> = ({ characters,
         onChange={handleFileChange}
         className="hidden"
       />
+      <input
+        type="file"
+        multiple
+        accept="image/*"
+        ref={referenceInputRef}
+        onChange={handleReferenceFileChange}
+        className="hidden"
+      />
     </div>
   );
 };
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { AspectRatio, PromptLanguage } from '../types';
+import { ASPECT_RATIOS } from '../services/ImageUtils';
+import { TIMELINE_FORMATS, TIMELINE_FRAME_RATES, TimelineFormat } from '../services/TimelineExport';
+import { SubtitleFormat } from '../services/SubtitleExport';
+
+interface EditorialExportPanelProps {
+  frameCount: number;
+  // Scenes with their own stored crop per delivery format.
+  reframedCounts: Partial<Record<AspectRatio, number>>;
+  onReframeAll: (aspect: AspectRatio) => void;
+  // `delivery` is null to keep the frames as generated.
+  onExportTimeline: (format: TimelineFormat, fps: number, delivery: AspectRatio | null) => void;
+  onExportSubtitles: (format: SubtitleFormat, language: PromptLanguage) => void;
+  onExportVoiceOver: () => void;
+}
+
+export const EditorialExportPanel: React.FC<EditorialExportPanelProps> = ({ frameCount, reframedCounts, onReframeAll, onExportTimeline, onExportSubtitles, onExportVoiceOver }) => {
+  const [format, setFormat] = useState<TimelineFormat>('fcpxml');
+  const [fps, setFps] = useState(25);
+  const [delivery, setDelivery] = useState<AspectRatio | null>(null);
+  const [subtitleLanguage, setSubtitleLanguage] = useState<PromptLanguage>('vi');
+
+  const buttonClass = 'bg-gray-600 hover:bg-gray-500 text-white text-xs py-2 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+  const selectClass = 'mt-1 w-full bg-gray-900 border border-gray-600 rounded-md p-2 text-sm text-gray-200';
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg space-y-3">
+      <h3 className="text-sm font-medium text-gray-300">Xuất cho dựng phim</h3>
+      <div className="grid grid-cols-3 gap-2">
+        <label className="col-span-2 text-xs text-gray-400">
+          Định dạng timeline
+          <select value={format} onChange={e => setFormat(e.target.value as TimelineFormat)} className={selectClass}>
+            {TIMELINE_FORMATS.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+          </select>
+        </label>
+        <label className="text-xs text-gray-400">
+          Khung hình/giây
+          <select value={fps} onChange={e => setFps(Number(e.target.value))} className={selectClass}>
+            {TIMELINE_FRAME_RATES.map(rate => <option key={rate} value={rate}>{rate} fps</option>)}
+          </select>
+        </label>
+      </div>
+      <div className="flex items-end gap-2">
+        <label className="flex-1 text-xs text-gray-400">
+          Khung giao
+          <select value={delivery ?? ''} onChange={e => setDelivery((e.target.value || null) as AspectRatio | null)} className={selectClass}>
+            <option value="">Giữ nguyên ảnh</option>
+            {ASPECT_RATIOS.map(aspect => <option key={aspect} value={aspect}>{aspect} ({reframedCounts[aspect] ?? 0}/{frameCount} cảnh đã có khung)</option>)}
+          </select>
+        </label>
+        <button
+          onClick={() => delivery && onReframeAll(delivery)}
+          disabled={!delivery || frameCount === 0 || reframedCounts[delivery] === frameCount}
+          className={`${buttonClass} px-2`}
+          title="Lưu vùng cắt ở giữa cho các cảnh chưa có khung này; chỉnh từng cảnh trong trình sửa ảnh"
+        >
+          Tạo khung cho mọi cảnh
+        </button>
+      </div>
+      <p className="text-xs text-gray-500">Gói .zip gồm {frameCount} ảnh trong thư mục media/ và tệp timeline xếp theo số cảnh, thời lượng lấy từ "Thời lượng ảnh". Giải nén rồi mở tệp timeline trong phần mềm dựng.</p>
+      <button
+        onClick={() => onExportTimeline(format, fps, delivery)}
+        disabled={frameCount === 0}
+        className="w-full bg-cyan-600 hover:bg-cyan-500 text-white text-sm py-2 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        Tải gói timeline
+      </button>
+
+      <div className="border-t border-gray-700 pt-3 space-y-2">
+        <label className="text-xs text-gray-400 flex items-center justify-between gap-2">
+          Phụ đề / lời dẫn
+          <select
+            value={subtitleLanguage}
+            onChange={e => setSubtitleLanguage(e.target.value as PromptLanguage)}
+            className="bg-gray-900 border border-gray-600 rounded-md p-1 text-xs text-gray-200"
+          >
+            <option value="vi">Tiếng Việt</option>
+            <option value="en">English</option>
+          </select>
+        </label>
+        <div className="grid grid-cols-3 gap-2">
+          <button onClick={() => onExportSubtitles('srt', subtitleLanguage)} disabled={frameCount === 0} className={buttonClass}>SRT</button>
+          <button onClick={() => onExportSubtitles('vtt', subtitleLanguage)} disabled={frameCount === 0} className={buttonClass}>WebVTT</button>
+          <button onClick={onExportVoiceOver} disabled={frameCount === 0} className={buttonClass} title="Cả hai ngôn ngữ, kèm mốc thời gian từng cảnh">Kịch bản lồng tiếng</button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,29 @@
+import React from 'react';
+import { GenerationErrorKind, GenerationFailure } from '../types';
+
+export const FAILURE_TITLES: Record<GenerationErrorKind, string> = {
+  auth: 'API key không hợp lệ hoặc chưa được thiết lập',
+  quota: 'Vượt hạn mức hoặc giới hạn tốc độ của API',
+  safety: 'Bị chặn bởi bộ lọc an toàn',
+  noImage: 'API không trả về ảnh',
+  network: 'Lỗi kết nối mạng',
+  server: 'Máy chủ tạo ảnh gặp lỗi',
+  invalidReference: 'Ảnh tham chiếu không hợp lệ',
+  artifact: 'Ảnh có chữ hoặc watermark',
+  unknown: 'Tạo ảnh thất bại',
+};
+
+export const failureDetail = (failure: GenerationFailure) => {
+  if (failure.kind !== 'safety') return failure.message;
+  const categories = failure.blockCategories?.length ? ` · Nhóm: ${failure.blockCategories.join(', ')}` : '';
+  return `Lý do: ${failure.finishReason ?? 'không rõ'}${categories}`;
+};
+
+export const FailureMessage: React.FC<{ failure?: GenerationFailure }> = ({ failure }) => (
+  <>
+    <p className="text-sm font-semibold px-3 text-center">{failure ? FAILURE_TITLES[failure.kind] : 'Tạo ảnh thất bại'}</p>
+    {failure && (
+      <p className="mt-1 px-3 text-xs text-center text-red-200 line-clamp-3" title={failure.message}>{failureDetail(failure)}</p>
+    )}
+  </>
+);
@@ -0,0 +1,650 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { AdjustmentKind, AspectRatio, EditStack, EditStep, GeneratedImage, ImageEditRequest, NormalizedRect } from '../types';
+import { isAbortError, toFailure } from '../services/GenerationError';
+import { editBase } from '../services/ImageHistory';
+import { ADJUSTMENTS, applyEditSteps, centeredAspectRect, createAdjustStep, createCropStep, describeStep, FILTER_PRESETS, FULL_FRAME, getAdjustmentInfo, presetSteps, renderEditStack } from '../services/EditStack';
+import { ASPECT_RATIOS, aspectValue, loadImage } from '../services/ImageUtils';
+import { Bounds, CropBox, fitRatio, moveBox, resizeBox } from '../services/CropGeometry';
+import { isMaskEmpty, maskToPng, mergePatch } from '../services/Inpainting';
+import { FAILURE_TITLES, failureDetail } from './FailureMessage';
+import { MaskCanvas } from './MaskCanvas';
+import { CloseIcon } from './Icons';
+
+export type Reframes = GeneratedImage['reframes'];
+
+interface ImageEditorModalProps {
+  image: GeneratedImage;
+  onSave: (editedSrc: string, editStack?: EditStack, reframes?: Reframes) => void;
+  onSaveAsNew: (editedSrc: string, editStack?: EditStack, reframes?: Reframes) => void;
+  // Returns base64 PNG data from the current provider.
+  onGenerateEdit: (request: ImageEditRequest, signal: AbortSignal) => Promise<string>;
+  onSaveInpaint: (src: string, instruction: string) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_MAX_SIZE = 1280;
+
+const NUDGE_KEYS: Record<string, [number, number]> = { ArrowLeft: [-1, 0], ArrowRight: [1, 0], ArrowUp: [0, -1], ArrowDown: [0, 1] };
+
+// Edits are a stack of steps re-rendered from the untouched source take, so
+// reopening an edited image picks up its steps instead of a baked copy.
+export const ImageEditorModal: React.FC<ImageEditorModalProps> = ({ image, onSave, onSaveAsNew, onGenerateEdit, onSaveInpaint, onClose }) => {
+  const base = useMemo(() => editBase(image), [image]);
+  const baseSrc = base.source?.src ?? image.src;
+
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [steps, setSteps] = useState<EditStep[]>(base.steps);
+  const [past, setPast] = useState<EditStep[][]>([]);
+  const [future, setFuture] = useState<EditStep[][]>([]);
+  const gestureStartRef = useRef<EditStep[] | null>(null);
+  const [activeStepId, setActiveStepId] = useState<string | null>(null);
+  const [reframes, setReframes] = useState<NonNullable<Reframes>>(image.reframes ?? {});
+  // The delivery format whose crop is being adjusted over the finished image.
+  const [reframeAspect, setReframeAspect] = useState<AspectRatio | null>(null);
+  const [sourceImage, setSourceImage] = useState<HTMLImageElement | null>(null);
+  const [previewSrc, setPreviewSrc] = useState('');
+
+  // Masked AI edits work on the saved current image, not on the step preview.
+  const [isInpainting, setIsInpainting] = useState(false);
+  const [inpaintSource, setInpaintSource] = useState<HTMLImageElement | null>(null);
+  const [brushSize, setBrushSize] = useState(40);
+  const [erasing, setErasing] = useState(false);
+  const [hasMask, setHasMask] = useState(false);
+  const [instruction, setInstruction] = useState('');
+  const [isSendingInpaint, setIsSendingInpaint] = useState(false);
+  const [inpaintResult, setInpaintResult] = useState<string | null>(null);
+  const [inpaintError, setInpaintError] = useState<string | null>(null);
+  const maskRef = useRef<HTMLCanvasElement>(null);
+  const inpaintAbortRef = useRef<AbortController | null>(null);
+  const displaySrc = isInpainting ? inpaintResult ?? image.src : previewSrc;
+
+  const activeStep = steps.find(step => step.id === activeStepId);
+  const cropStep = activeStep?.type === 'crop' ? activeStep : undefined;
+  const cropStepIndex = cropStep ? steps.indexOf(cropStep) : -1;
+
+  // While a crop step is active the preview stops just before it, so the
+  // box is drawn over the image that step crops.
+  const previewSteps = useMemo(() => cropStepIndex === -1 ? steps : steps.slice(0, cropStepIndex), [steps, cropStepIndex]);
+
+  const [crop, setCrop] = useState<CropBox>({ x: 0, y: 0, width: 0, height: 0 });
+  const cropRef = useRef(crop);
+  cropRef.current = crop;
+  // No handle means the whole box is being moved.
+  const [dragInfo, setDragInfo] = useState<{
+    handle?: string;
+    startX: number;
+    startY: number;
+    initialCrop: CropBox;
+  } | null>(null);
+
+  const lockedAspect = reframeAspect ?? cropStep?.aspect;
+  const lockedRatio = lockedAspect ? aspectValue(lockedAspect) : null;
+
+  const imageRef = useRef<HTMLImageElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(baseSrc)
+      .then(img => { if (!cancelled) setSourceImage(img); })
+      .catch(err => console.error("Failed to load image for editing:", err));
+    return () => { cancelled = true; };
+  }, [baseSrc]);
+
+  useEffect(() => {
+    if (!sourceImage) return;
+    const timer = setTimeout(() => {
+      setPreviewSrc(applyEditSteps(sourceImage, previewSteps, PREVIEW_MAX_SIZE).toDataURL('image/png'));
+    }, 30);
+    return () => clearTimeout(timer);
+  }, [sourceImage, previewSteps]);
+
+  const commit = (next: EditStep[]) => {
+    setPast(prev => [...prev, steps]);
+    setFuture([]);
+    setSteps(next);
+  };
+
+  // Slider drags and key repeats change the steps live and land in the
+  // history as one entry when the gesture ends.
+  const beginGesture = () => {
+    if (!gestureStartRef.current) gestureStartRef.current = steps;
+  };
+
+  const endGesture = () => {
+    const start = gestureStartRef.current;
+    gestureStartRef.current = null;
+    if (start && start !== steps) {
+      setPast(prev => [...prev, start]);
+      setFuture([]);
+    }
+  };
+
+  const undo = () => {
+    if (past.length === 0) return;
+    setFuture(prev => [steps, ...prev]);
+    setSteps(past[past.length - 1]);
+    setPast(prev => prev.slice(0, -1));
+  };
+
+  const redo = () => {
+    if (future.length === 0) return;
+    setPast(prev => [...prev, steps]);
+    setSteps(future[0]);
+    setFuture(prev => prev.slice(1));
+  };
+
+  useEffect(() => {
+    if (!isInpainting || inpaintSource) return;
+    loadImage(image.src)
+      .then(setInpaintSource)
+      .catch(err => console.error("Failed to load image for inpainting:", err));
+  }, [isInpainting, inpaintSource, image.src]);
+
+  useEffect(() => () => inpaintAbortRef.current?.abort(), []);
+
+  // Closing the tool unmounts the mask canvas, so its strokes go too.
+  useEffect(() => {
+    if (isInpainting) return;
+    setHasMask(false);
+    setInpaintResult(null);
+    setInpaintError(null);
+  }, [isInpainting]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.target instanceof HTMLTextAreaElement) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const updateStep = (id: string, patch: Partial<EditStep>) => {
+    const next = steps.map(step => step.id === id ? { ...step, ...patch } as EditStep : step);
+    if (gestureStartRef.current) setSteps(next);
+    else commit(next);
+  };
+
+  const selectStep = (id: string | null) => {
+    setActiveStepId(id);
+    setReframeAspect(null);
+    setIsInpainting(false);
+  };
+
+  const addStep = (step: EditStep) => {
+    commit([...steps, step]);
+    selectStep(step.id);
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= steps.length) return;
+    const next = [...steps];
+    [next[index], next[target]] = [next[target], next[index]];
+    commit(next);
+  };
+
+  const removeStep = (id: string) => {
+    commit(steps.filter(step => step.id !== id));
+    if (activeStepId === id) setActiveStepId(null);
+  };
+
+  const imageBounds = () => {
+    const img = imageRef.current;
+    return img ? { width: img.offsetWidth, height: img.offsetHeight } : null;
+  };
+
+  const toRect = (box: CropBox, bounds: Bounds): NormalizedRect => ({
+    x: box.x / bounds.width,
+    y: box.y / bounds.height,
+    width: box.width / bounds.width,
+    height: box.height / bounds.height,
+  });
+
+  const syncCropBox = useCallback(() => {
+    const bounds = imageBounds();
+    if (!bounds) return;
+    // A delivery format without a stored crop shows the centred one it would export with.
+    const rect = reframeAspect
+      ? reframes[reframeAspect] ?? centeredAspectRect(bounds.width, bounds.height, reframeAspect)
+      : cropStep?.rect;
+    if (!rect) return;
+    setCrop({
+      x: rect.x * bounds.width,
+      y: rect.y * bounds.height,
+      width: rect.width * bounds.width,
+      height: rect.height * bounds.height,
+    });
+  }, [cropStep, reframeAspect, reframes]);
+
+  useEffect(() => {
+    const img = imageRef.current;
+    if (img) {
+      const handleLoad = () => setTimeout(syncCropBox, 0);
+
+      if (img.complete && img.naturalWidth > 0) {
+        handleLoad();
+      } else {
+        img.addEventListener('load', handleLoad);
+      }
+
+      const resizeObserver = new ResizeObserver(syncCropBox);
+      resizeObserver.observe(img);
+
+      return () => {
+        img.removeEventListener('load', handleLoad);
+        resizeObserver.unobserve(img);
+      };
+    }
+  }, [displaySrc, syncCropBox]);
+
+  const commitCropBox = (box: CropBox) => {
+    const bounds = imageBounds();
+    if (!bounds) return;
+    const rect = toRect(box, bounds);
+    if (reframeAspect) setReframes(prev => ({ ...prev, [reframeAspect]: rect }));
+    else if (cropStep) updateStep(cropStep.id, { rect });
+  };
+  // Latest crop handling for the window listeners of a drag, which stay
+  // attached from pointer down to pointer up.
+  const dragHandlersRef = useRef({ imageBounds, lockedRatio, commitCropBox });
+  dragHandlersRef.current = { imageBounds, lockedRatio, commitCropBox };
+
+  const changeCropAspect = (aspect?: AspectRatio) => {
+    const bounds = imageBounds();
+    if (!cropStep || !bounds) return;
+    const box = aspect ? fitRatio(crop, aspectValue(aspect), bounds) : crop;
+    updateStep(cropStep.id, { aspect, rect: toRect(box, bounds) });
+  };
+
+  const toggleReframe = (aspect: AspectRatio) => {
+    setActiveStepId(null);
+    setIsInpainting(false);
+    setReframeAspect(prev => prev === aspect ? null : aspect);
+  };
+
+  const removeReframe = (aspect: AspectRatio) => {
+    setReframes(prev => {
+      const { [aspect]: _removed, ...rest } = prev;
+      return rest;
+    });
+    setReframeAspect(null);
+  };
+
+  const toggleInpaint = () => {
+    setActiveStepId(null);
+    setReframeAspect(null);
+    setIsInpainting(prev => !prev);
+  };
+
+  const clearMask = () => {
+    const mask = maskRef.current;
+    mask?.getContext('2d')?.clearRect(0, 0, mask.width, mask.height);
+    setHasMask(false);
+  };
+
+  const handleSendInpaint = async () => {
+    const mask = maskRef.current;
+    if (!mask || !inpaintSource || !instruction.trim()) return;
+    const controller = new AbortController();
+    inpaintAbortRef.current = controller;
+    setIsSendingInpaint(true);
+    setInpaintError(null);
+    try {
+      const base64 = await onGenerateEdit({ image: image.src, mask: maskToPng(mask), instruction: instruction.trim() }, controller.signal);
+      const patch = await loadImage(`data:image/png;base64,${base64}`);
+      setInpaintResult(mergePatch(inpaintSource, patch, mask));
+    } catch (err) {
+      if (isAbortError(err)) return;
+      const failure = toFailure(err);
+      setInpaintError(`${FAILURE_TITLES[failure.kind]}. ${failureDetail(failure)}`);
+    } finally {
+      inpaintAbortRef.current = null;
+      setIsSendingInpaint(false);
+    }
+  };
+
+  const handlePointerDown = (e: React.PointerEvent, handle?: string) => {
+    e.preventDefault();
+    e.stopPropagation();
+    (e.currentTarget as HTMLElement).focus();
+    setDragInfo({ handle, startX: e.clientX, startY: e.clientY, initialCrop: crop });
+  };
+
+  useEffect(() => {
+    if (!dragInfo) return;
+
+    const handlePointerMove = (e: PointerEvent) => {
+      const { imageBounds, lockedRatio } = dragHandlersRef.current;
+      const bounds = imageBounds();
+      if (!bounds) return;
+      const dx = e.clientX - dragInfo.startX;
+      const dy = e.clientY - dragInfo.startY;
+      setCrop(dragInfo.handle
+        ? resizeBox(dragInfo.initialCrop, dragInfo.handle, dx, dy, lockedRatio, bounds)
+        : moveBox(dragInfo.initialCrop, dx, dy, bounds));
+    };
+
+    // The step only changes once the drag ends.
+    const handlePointerUp = () => {
+      setDragInfo(null);
+      dragHandlersRef.current.commitCropBox(cropRef.current);
+    };
+
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+    window.addEventListener('pointercancel', handlePointerUp);
+    return () => {
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+      window.removeEventListener('pointercancel', handlePointerUp);
+    };
+  }, [dragInfo]);
+
+  // Arrows move the box by 1px (10px with Shift); Alt+arrows resize it from
+  // the right or bottom edge. A run of key repeats is one undo entry.
+  const handleCropKeyDown = (e: React.KeyboardEvent) => {
+    const nudge = NUDGE_KEYS[e.key];
+    const bounds = imageBounds();
+    if (!nudge || !bounds) return;
+    e.preventDefault();
+    const [dx, dy] = nudge.map(n => n * (e.shiftKey ? 10 : 1));
+    const next = e.altKey
+      ? resizeBox(crop, dx !== 0 ? 'e' : 's', dx, dy, lockedRatio, bounds)
+      : moveBox(crop, dx, dy, bounds);
+    beginGesture();
+    setCrop(next);
+    commitCropBox(next);
+  };
+
+  const getHandleStyle = (handle: string): React.CSSProperties => {
+    const style: React.CSSProperties = {};
+    if (handle.includes('n')) style.top = 0;
+    if (handle.includes('s')) style.bottom = 0;
+    if (handle.includes('w')) style.left = 0;
+    if (handle.includes('e')) style.right = 0;
+    if (handle.length === 1) {
+      if (['n', 's'].includes(handle)) style.left = '50%';
+      if (['w', 'e'].includes(handle)) style.top = '50%';
+    }
+    return style;
+  };
+
+  const handleToCursor: { [key: string]: string } = { nw: 'nwse-resize', n: 'ns-resize', ne: 'nesw-resize', e: 'ew-resize', se: 'nwse-resize', s: 'ns-resize', sw: 'nesw-resize', w: 'ew-resize' };
+
+  const handleSaveWrapper = async (saveFn: (src: string, editStack?: EditStack, reframes?: Reframes) => void) => {
+    setIsProcessing(true);
+    try {
+      const editedSrc = await renderEditStack(baseSrc, steps);
+      saveFn(editedSrc, base.source ? { sourceVersionId: base.source.id, steps } : undefined, reframes);
+    } catch (error) {
+      console.error("Failed to apply image edits:", error);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const iconButton = 'px-1.5 rounded hover:bg-gray-600 disabled:opacity-30 disabled:hover:bg-transparent';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4" aria-modal="true" role="dialog">
+      <div className="bg-gray-800 rounded-lg shadow-xl w-full max-w-6xl h-full max-h-[90vh] flex flex-col text-gray-200">
+        <header className="flex items-center justify-between p-4 border-b border-gray-700">
+          <h2 className="text-xl font-bold">Image Editor</h2>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-gray-700" aria-label="Close editor">
+            <CloseIcon className="w-6 h-6" />
+          </button>
+        </header>
+
+        <main className="flex-1 flex flex-col lg:flex-row overflow-hidden">
+          <div className="flex-1 flex items-center justify-center p-4 bg-gray-900 overflow-hidden">
+            <div className="relative w-full h-full flex items-center justify-center">
+              {displaySrc && (
+                <img
+                  ref={imageRef}
+                  src={displaySrc}
+                  alt="Editing preview"
+                  className="max-w-full max-h-full object-contain"
+                  onDragStart={(e) => e.preventDefault()}
+                />
+              )}
+              {isInpainting && inpaintSource && (
+                <div
+                  className={`absolute ${inpaintResult ? 'hidden' : ''}`}
+                  style={{
+                    left: imageRef.current?.offsetLeft ?? 0,
+                    top: imageRef.current?.offsetTop ?? 0,
+                    width: imageRef.current?.offsetWidth ?? 0,
+                    height: imageRef.current?.offsetHeight ?? 0,
+                  }}
+                >
+                  <MaskCanvas
+                    width={inpaintSource.naturalWidth}
+                    height={inpaintSource.naturalHeight}
+                    brushSize={brushSize}
+                    erasing={erasing}
+                    canvasRef={maskRef}
+                    onStrokeEnd={() => setHasMask(!!maskRef.current && !isMaskEmpty(maskRef.current))}
+                  />
+                </div>
+              )}
+              {(cropStep || reframeAspect) && imageRef.current?.complete && (
+                <div
+                  className="absolute"
+                  style={{
+                    left: imageRef.current.offsetLeft,
+                    top: imageRef.current.offsetTop,
+                    width: imageRef.current.offsetWidth,
+                    height: imageRef.current.offsetHeight,
+                  }}
+                >
+                  <div
+                    className="absolute border-2 border-dashed border-white cursor-move touch-none focus:outline-none focus:border-cyan-400"
+                    style={{
+                      left: crop.x, top: crop.y, width: crop.width, height: crop.height,
+                      boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.5)',
+                    }}
+                    tabIndex={0}
+                    onPointerDown={(e) => handlePointerDown(e)}
+                    onKeyDown={handleCropKeyDown}
+                    onKeyUp={endGesture}
+                    onBlur={endGesture}
+                    role="application"
+                    aria-label={`Khung cắt${lockedAspect ? ` ${lockedAspect}` : ''}. Phím mũi tên để dịch, Alt + mũi tên để đổi cỡ.`}
+                  >
+                    {[1, 2].map(line => (
+                      <React.Fragment key={line}>
+                        <div className="absolute inset-y-0 border-l border-white/40 pointer-events-none" style={{ left: `${line * 100 / 3}%` }} />
+                        <div className="absolute inset-x-0 border-t border-white/40 pointer-events-none" style={{ top: `${line * 100 / 3}%` }} />
+                      </React.Fragment>
+                    ))}
+                    {Object.keys(handleToCursor).map((handle) => (
+                      <div
+                        key={handle}
+                        className="absolute w-4 h-4 bg-white border border-gray-800 -m-2"
+                        style={{...getHandleStyle(handle), cursor: handleToCursor[handle]}}
+                        onPointerDown={(e) => handlePointerDown(e, handle)}
+                        role="presentation"
+                      />
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+
+          <aside className="w-full lg:w-80 bg-gray-800 p-4 space-y-5 overflow-y-auto border-t lg:border-t-0 lg:border-l border-gray-700">
+            <div className="flex items-center gap-2">
+              <button onClick={undo} disabled={past.length === 0} className="flex-1 text-sm bg-gray-600 hover:bg-gray-500 py-2 rounded-md transition-colors disabled:opacity-50" title="Ctrl+Z">Hoàn tác</button>
+              <button onClick={redo} disabled={future.length === 0} className="flex-1 text-sm bg-gray-600 hover:bg-gray-500 py-2 rounded-md transition-colors disabled:opacity-50" title="Ctrl+Shift+Z">Làm lại</button>
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="text-lg font-semibold">Thêm bước</h3>
+              <select
+                value=""
+                onChange={e => {
+                  const value = e.target.value;
+                  if (!value) return;
+                  addStep(value === 'crop' ? createCropStep() : createAdjustStep(value as AdjustmentKind));
+                }}
+                className="w-full bg-gray-900 border border-gray-600 rounded-md p-2 text-sm text-gray-200"
+              >
+                <option value="">Chọn chỉnh sửa...</option>
+                <option value="crop">Cắt khung</option>
+                {ADJUSTMENTS.map(a => <option key={a.kind} value={a.kind}>{a.label}</option>)}
+              </select>
+              <div className="flex flex-wrap gap-2">
+                {FILTER_PRESETS.map(preset => (
+                  <button key={preset.id} onClick={() => commit([...steps, ...presetSteps(preset)])} className="text-xs bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded-md transition-colors">
+                    {preset.name}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="border-t border-gray-700 pt-4 space-y-2">
+              <h3 className="text-lg font-semibold">Các bước ({steps.length})</h3>
+              {steps.length === 0 && <p className="text-xs text-gray-500">Chưa có chỉnh sửa. Ảnh được dựng lại từ bản gốc mỗi lần lưu.</p>}
+              <ol className="space-y-1">
+                {steps.map((step, index) => {
+                  const info = step.type === 'adjust' ? getAdjustmentInfo(step.kind) : undefined;
+                  return (
+                    <li key={step.id} className={`rounded-md p-2 text-sm ${step.id === activeStepId ? 'bg-gray-700' : 'bg-gray-900'}`}>
+                      <div className="flex items-center gap-1">
+                        <button onClick={() => selectStep(step.id === activeStepId ? null : step.id)} className="flex-1 text-left truncate">
+                          {index + 1}. {describeStep(step)}
+                        </button>
+                        <button onClick={() => moveStep(index, -1)} disabled={index === 0} className={iconButton} aria-label="Lên">↑</button>
+                        <button onClick={() => moveStep(index, 1)} disabled={index === steps.length - 1} className={iconButton} aria-label="Xuống">↓</button>
+                        <button onClick={() => removeStep(step.id)} className={iconButton} aria-label="Xóa bước">✕</button>
+                      </div>
+                      {step.id === activeStepId && step.type === 'adjust' && info && (
+                        <input
+                          type="range"
+                          min={info.min}
+                          max={info.max}
+                          value={step.amount}
+                          onPointerDown={beginGesture}
+                          onPointerUp={endGesture}
+                          onKeyDown={beginGesture}
+                          onKeyUp={endGesture}
+                          onBlur={endGesture}
+                          onChange={e => updateStep(step.id, { amount: parseInt(e.target.value) })}
+                          className="w-full mt-2"
+                          aria-label={info.label}
+                        />
+                      )}
+                      {step.id === activeStepId && step.type === 'crop' && (
+                        <div className="mt-2 space-y-2 text-xs text-gray-400">
+                          <div className="flex flex-wrap gap-1">
+                            {[undefined, ...ASPECT_RATIOS].map(aspect => (
+                              <button
+                                key={aspect ?? 'free'}
+                                onClick={() => changeCropAspect(aspect)}
+                                className={`px-2 py-1 rounded-md ${step.aspect === aspect ? 'bg-cyan-600 text-white' : 'bg-gray-600 hover:bg-gray-500 text-gray-200'}`}
+                              >
+                                {aspect ?? 'Tự do'}
+                              </button>
+                            ))}
+                          </div>
+                          <div className="flex items-center justify-between gap-2">
+                            <span>Kéo khung trên ảnh hoặc dùng phím mũi tên.</span>
+                            <button onClick={() => updateStep(step.id, { rect: FULL_FRAME, aspect: undefined })} className="bg-gray-600 hover:bg-gray-500 px-2 py-1 rounded-md text-gray-200 shrink-0">Reset Crop</button>
+                          </div>
+                        </div>
+                      )}
+                    </li>
+                  );
+                })}
+              </ol>
+              {steps.length > 0 && (
+                <button onClick={() => { commit([]); setActiveStepId(null); }} className="w-full text-sm bg-gray-600 hover:bg-gray-500 py-2 rounded-md transition-colors">Về ảnh gốc</button>
+              )}
+            </div>
+
+            <div className="border-t border-gray-700 pt-4 space-y-2">
+              <h3 className="text-lg font-semibold">Khung giao</h3>
+              <p className="text-xs text-gray-500">Vùng cắt của ảnh hoàn chỉnh cho từng định dạng giao, dùng khi xuất timeline theo khung đó. Chưa chỉnh thì lấy vùng giữa ảnh.</p>
+              <div className="flex flex-wrap gap-2">
+                {ASPECT_RATIOS.map(aspect => (
+                  <button
+                    key={aspect}
+                    onClick={() => toggleReframe(aspect)}
+                    className={`text-xs px-2 py-1 rounded-md transition-colors ${reframeAspect === aspect ? 'bg-cyan-600 text-white' : 'bg-gray-700 hover:bg-gray-600'}`}
+                  >
+                    {aspect}{reframes[aspect] ? ' ✓' : ''}
+                  </button>
+                ))}
+              </div>
+              {reframeAspect && (
+                <div className="flex items-center justify-between gap-2 text-xs text-gray-400">
+                  <span>Kéo khung {reframeAspect} trên ảnh.</span>
+                  <button onClick={() => removeReframe(reframeAspect)} disabled={!reframes[reframeAspect]} className="bg-gray-600 hover:bg-gray-500 px-2 py-1 rounded-md text-gray-200 shrink-0 disabled:opacity-50">Về vùng giữa</button>
+                </div>
+              )}
+            </div>
+
+            <div className="border-t border-gray-700 pt-4 space-y-2">
+              <div className="flex items-center justify-between">
+                <h3 className="text-lg font-semibold">Sửa vùng bằng AI</h3>
+                <button onClick={toggleInpaint} disabled={isSendingInpaint} className="text-xs bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded-md transition-colors disabled:opacity-50">
+                  {isInpainting ? 'Đóng' : 'Mở'}
+                </button>
+              </div>
+              {isInpainting && (
+                <>
+                  <p className="text-xs text-gray-500">Tô vùng cần sửa trên ảnh hiện tại rồi mô tả thay đổi; phần còn lại giữ nguyên từng điểm ảnh. Các bước chưa lưu ở trên không được tính.</p>
+                  <label className="block text-xs text-gray-400">
+                    Cỡ cọ: {brushSize}px
+                    <input type="range" min={5} max={150} value={brushSize} onChange={e => setBrushSize(parseInt(e.target.value))} className="w-full" />
+                  </label>
+                  <div className="flex gap-2 text-xs">
+                    <button onClick={() => setErasing(false)} className={`px-2 py-1 rounded-md ${!erasing ? 'bg-cyan-600 text-white' : 'bg-gray-700 hover:bg-gray-600'}`}>Cọ</button>
+                    <button onClick={() => setErasing(true)} className={`px-2 py-1 rounded-md ${erasing ? 'bg-cyan-600 text-white' : 'bg-gray-700 hover:bg-gray-600'}`}>Tẩy</button>
+                    <button onClick={clearMask} disabled={!hasMask || !!inpaintResult} className="ml-auto px-2 py-1 rounded-md bg-gray-700 hover:bg-gray-600 disabled:opacity-50">Xóa vùng tô</button>
+                  </div>
+                  <textarea
+                    value={instruction}
+                    onChange={e => setInstruction(e.target.value)}
+                    rows={3}
+                    placeholder="VD: bàn tay trái có đủ năm ngón, đang cầm tách trà"
+                    className="w-full bg-gray-900 border border-gray-600 rounded-md p-2 text-sm text-gray-200"
+                  />
+                  {inpaintError && <p className="text-xs text-red-400">{inpaintError}</p>}
+                  {inpaintResult ? (
+                    <div className="flex gap-2">
+                      <button onClick={() => onSaveInpaint(inpaintResult, instruction.trim())} className="flex-1 text-sm bg-cyan-600 hover:bg-cyan-500 py-2 rounded-md transition-colors">Giữ kết quả</button>
+                      <button onClick={() => setInpaintResult(null)} className="flex-1 text-sm bg-gray-600 hover:bg-gray-500 py-2 rounded-md transition-colors">Bỏ, sửa tiếp</button>
+                    </div>
+                  ) : isSendingInpaint ? (
+                    <button onClick={() => inpaintAbortRef.current?.abort()} className="w-full text-sm bg-gray-600 hover:bg-gray-500 py-2 rounded-md transition-colors">Đang sửa... Hủy</button>
+                  ) : (
+                    <button onClick={handleSendInpaint} disabled={!hasMask || !instruction.trim()} className="w-full text-sm bg-cyan-600 hover:bg-cyan-500 py-2 rounded-md transition-colors disabled:opacity-50">Sửa vùng đã tô</button>
+                  )}
+                </>
+              )}
+            </div>
+          </aside>
+        </main>
+
+        <footer className="p-4 border-t border-gray-700 flex flex-col sm:flex-row items-center justify-end gap-3">
+          <button onClick={onClose} disabled={isProcessing} className="w-full sm:w-auto px-4 py-2 bg-gray-600 rounded-md hover:bg-gray-500 transition-colors disabled:opacity-50">Cancel</button>
+          <button onClick={() => handleSaveWrapper(onSaveAsNew)} disabled={isProcessing || isInpainting} className="w-full sm:w-auto px-4 py-2 bg-blue-600 rounded-md hover:bg-blue-500 transition-colors disabled:opacity-50">
+            {isProcessing ? 'Processing...' : 'Save as New'}
+          </button>
+          <button onClick={() => handleSaveWrapper(onSave)} disabled={isProcessing || isInpainting} className="w-full sm:w-auto px-4 py-2 bg-cyan-600 rounded-md hover:bg-cyan-500 font-semibold transition-colors disabled:opacity-50">
+            {isProcessing ? 'Processing...' : 'Save'}
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
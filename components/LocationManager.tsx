@@ -0,0 +1,125 @@
+import React, { useRef } from 'react';
+import { StoryLocation } from '../types';
+import { TrashIcon, PlusIcon } from './Icons';
+import { AliasInput, fileToReference } from './CharacterManager';
+
+interface LocationManagerProps {
+  locations: StoryLocation[];
+  onLocationsChange: (locations: StoryLocation[]) => void;
+}
+
+export const LocationManager: React.FC<LocationManagerProps> = ({ locations, onLocationsChange }) => {
+  const referenceInputRef = useRef<HTMLInputElement>(null);
+  const addingReferenceToRef = useRef<string | null>(null);
+
+  const updateLocation = (id: string, update: (location: StoryLocation) => StoryLocation) => {
+    onLocationsChange(locations.map((l) => (l.id === id ? update(l) : l)));
+  };
+
+  const addLocation = () => {
+    onLocationsChange([
+      ...locations,
+      { id: crypto.randomUUID(), name: `Bối cảnh ${locations.length + 1}`, aliases: [], description: '', references: [] },
+    ]);
+  };
+
+  const deleteLocation = (id: string) => {
+    onLocationsChange(locations.filter((l) => l.id !== id));
+  };
+
+  const addReference = (locationId: string) => {
+    addingReferenceToRef.current = locationId;
+    referenceInputRef.current?.click();
+  };
+
+  const handleReferenceFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const locationId = addingReferenceToRef.current;
+    if (event.target.files && locationId) {
+      const files = Array.from(event.target.files);
+      const references = await Promise.all(files.map((file: File) => fileToReference(file, 'other')));
+      updateLocation(locationId, l => ({ ...l, references: [...l.references, ...references] }));
+      event.target.value = '';
+    }
+    addingReferenceToRef.current = null;
+  };
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg">
+      <h3 className="text-lg font-semibold text-gray-100 mb-1">Thư viện bối cảnh</h3>
+      <p className="text-xs text-gray-400 mb-4">Khớp với trường "Địa điểm" của từng cảnh. Ảnh bối cảnh được gửi kèm để giữ nguyên không gian qua các cảnh.</p>
+      <div className="space-y-4">
+        {locations.map((location) => (
+          <div key={location.id} className="bg-gray-700 rounded-md p-3 space-y-2">
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                value={location.name}
+                onChange={(e) => updateLocation(location.id, l => ({ ...l, name: e.target.value }))}
+                className="flex-1 bg-transparent text-white text-sm font-bold border-b border-gray-500 focus:outline-none focus:border-cyan-400"
+              />
+              <button
+                onClick={() => deleteLocation(location.id)}
+                className="bg-red-600 text-white p-1 rounded-full hover:bg-red-700"
+                title="Xóa bối cảnh"
+              >
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </div>
+            <AliasInput
+              key={location.aliases.join(',')}
+              aliases={location.aliases}
+              onCommit={(aliases) => updateLocation(location.id, l => ({ ...l, aliases }))}
+            />
+            <div className="flex gap-2 overflow-x-auto pb-1">
+              {location.references.map((reference) => (
+                <div key={reference.id} className="group relative shrink-0">
+                  <img
+                    src={`data:${reference.mimeType};base64,${reference.imageBase64}`}
+                    alt={location.name}
+                    className="w-28 h-20 object-cover rounded-md"
+                  />
+                  <button
+                    onClick={() => updateLocation(location.id, l => ({ ...l, references: l.references.filter(r => r.id !== reference.id) }))}
+                    className="absolute top-1 right-1 bg-red-600 text-white p-0.5 rounded-full opacity-0 group-hover:opacity-100 transition-opacity hover:bg-red-700"
+                    title="Xóa ảnh bối cảnh"
+                  >
+                    <TrashIcon className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={() => addReference(location.id)}
+                className="shrink-0 flex items-center justify-center w-20 h-20 border-2 border-dashed border-gray-500 rounded-md hover:border-cyan-400 text-gray-400 hover:text-cyan-400 transition-colors"
+                title="Thêm ảnh bối cảnh"
+              >
+                <PlusIcon className="w-6 h-6" />
+              </button>
+            </div>
+            <textarea
+              value={location.description}
+              onChange={(e) => updateLocation(location.id, l => ({ ...l, description: e.target.value }))}
+              rows={2}
+              placeholder="Mô tả không gian: kiến trúc, đồ đạc chính, ánh sáng, màu sắc..."
+              className="w-full bg-gray-900 border border-gray-600 rounded-md px-2 py-1 text-xs focus:outline-none focus:border-cyan-400"
+            />
+          </div>
+        ))}
+        <button
+          onClick={addLocation}
+          className="flex items-center justify-center gap-1 w-full py-2 border-2 border-dashed border-gray-600 rounded-md hover:border-cyan-400 text-gray-400 hover:text-cyan-400 transition-colors text-sm"
+        >
+          <PlusIcon className="w-5 h-5" />
+          Thêm bối cảnh
+        </button>
+      </div>
+      <input
+        type="file"
+        multiple
+        accept="image/*"
+        ref={referenceInputRef}
+        onChange={handleReferenceFileChange}
+        className="hidden"
+      />
+    </div>
+  );
+};
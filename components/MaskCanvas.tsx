@@ -0,0 +1,75 @@
+import React, { useRef } from 'react';
+
+interface MaskCanvasProps {
+  // Pixel size of the frame; the canvas is stretched over the displayed image.
+  width: number;
+  height: number;
+  // Brush diameter in displayed pixels.
+  brushSize: number;
+  erasing: boolean;
+  canvasRef: React.RefObject<HTMLCanvasElement | null>;
+  onStrokeEnd: () => void;
+}
+
+/** Brush layer for marking the region of a frame to repaint, for mouse, pen and touch. */
+export const MaskCanvas: React.FC<MaskCanvasProps> = ({ width, height, brushSize, erasing, canvasRef, onStrokeEnd }) => {
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * (width / rect.width),
+      y: (e.clientY - rect.top) * (height / rect.height),
+      scale: width / rect.width,
+    };
+  };
+
+  const paintTo = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = e.currentTarget.getContext('2d');
+    if (!ctx) return;
+    const { x, y, scale } = toCanvasPoint(e);
+    const from = lastPointRef.current ?? { x, y };
+    ctx.globalCompositeOperation = erasing ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = 'rgb(239, 68, 68)';
+    ctx.lineWidth = brushSize * scale;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    // A zero-length segment still draws a round dot for single taps.
+    ctx.lineTo(x + (from.x === x && from.y === y ? 0.01 : 0), y);
+    ctx.stroke();
+    lastPointRef.current = { x, y };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    lastPointRef.current = null;
+    paintTo(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (lastPointRef.current) paintTo(e);
+  };
+
+  const handlePointerUp = () => {
+    if (!lastPointRef.current) return;
+    lastPointRef.current = null;
+    onStrokeEnd();
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={width}
+      height={height}
+      className="absolute inset-0 w-full h-full opacity-50 touch-none cursor-crosshair"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      aria-label="Vùng cần sửa"
+    />
+  );
+};
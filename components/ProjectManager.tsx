@@ -0,0 +1,142 @@
+import React, { useRef, useState } from 'react';
+import { ProjectSummary } from '../types';
+import { TrashIcon, PlusIcon, CopyIcon, PencilIcon, DownloadIcon } from './Icons';
+
+export type SaveStatus = 'idle' | 'saving' | 'saved' | 'error';
+
+interface ProjectManagerProps {
+  projects: ProjectSummary[];
+  currentProjectId: string | null;
+  saveStatus: SaveStatus;
+  disabled?: boolean;
+  onCreate: () => void;
+  onOpen: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+}
+
+const saveStatusLabel: Record<SaveStatus, string> = {
+  idle: '',
+  saving: 'Đang lưu...',
+  saved: 'Đã lưu',
+  error: 'Lưu thất bại',
+};
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleString('vi-VN');
+
+export const ProjectManager: React.FC<ProjectManagerProps> = ({ projects, currentProjectId, saveStatus, disabled, onCreate, onOpen, onRename, onDuplicate, onDelete, onExport, onImport }) => {
+  const bundleInputRef = useRef<HTMLInputElement>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const startRename = (project: ProjectSummary) => {
+    setRenamingId(project.id);
+    setDraftName(project.name);
+  };
+
+  const commitRename = () => {
+    if (renamingId && draftName.trim() !== '') {
+      onRename(renamingId, draftName.trim());
+    }
+    setRenamingId(null);
+  };
+
+  const handleBundleChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) onImport(file);
+    event.target.value = '';
+  };
+
+  const handleDelete = (project: ProjectSummary) => {
+    if (window.confirm(`Xóa dự án "${project.name}"? Toàn bộ ảnh đã tạo sẽ bị mất.`)) {
+      onDelete(project.id);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-100">Dự án</h3>
+        <span className={`text-xs ${saveStatus === 'error' ? 'text-red-400' : 'text-gray-400'}`}>{saveStatusLabel[saveStatus]}</span>
+      </div>
+      <ul className="space-y-2 max-h-60 overflow-y-auto">
+        {projects.map((project) => (
+          <li
+            key={project.id}
+            className={`group flex items-center gap-2 p-2 rounded-md ${project.id === currentProjectId ? 'bg-cyan-900 bg-opacity-50 border border-cyan-700' : 'bg-gray-700 hover:bg-gray-600'}`}
+          >
+            {renamingId === project.id ? (
+              <input
+                type="text"
+                value={draftName}
+                autoFocus
+                onChange={(e) => setDraftName(e.target.value)}
+                onBlur={commitRename}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commitRename();
+                  if (e.key === 'Escape') setRenamingId(null);
+                }}
+                className="flex-1 bg-transparent text-white text-sm font-bold border-b border-gray-400 focus:outline-none focus:border-cyan-400"
+              />
+            ) : (
+              <button
+                onClick={() => onOpen(project.id)}
+                disabled={disabled || project.id === currentProjectId}
+                className="flex-1 text-left disabled:cursor-default"
+              >
+                <span className="block text-sm font-semibold text-gray-100 truncate">{project.name}</span>
+                <span className="block text-xs text-gray-400">{formatTime(project.updatedAt)}</span>
+              </button>
+            )}
+            <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+              <button onClick={() => startRename(project)} className="p-1 rounded-full hover:bg-gray-500" title="Đổi tên">
+                <PencilIcon className="w-4 h-4" />
+              </button>
+              <button onClick={() => onDuplicate(project.id)} disabled={disabled} className="p-1 rounded-full hover:bg-gray-500 disabled:opacity-50" title="Nhân bản">
+                <CopyIcon className="w-4 h-4" />
+              </button>
+              <button onClick={() => handleDelete(project)} disabled={disabled} className="p-1 rounded-full text-red-400 hover:bg-red-700 hover:text-white disabled:opacity-50" title="Xóa">
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+      <button
+        onClick={onCreate}
+        disabled={disabled}
+        className="mt-3 w-full flex items-center justify-center gap-1 py-2 border-2 border-dashed border-gray-600 rounded-md hover:border-cyan-400 text-gray-400 hover:text-cyan-400 transition-colors text-sm disabled:opacity-50"
+      >
+        <PlusIcon className="w-5 h-5" />
+        Dự án mới
+      </button>
+      <div className="mt-2 grid grid-cols-2 gap-2">
+        <button
+          onClick={onExport}
+          disabled={disabled || !currentProjectId}
+          className="flex items-center justify-center gap-1 py-2 bg-gray-700 hover:bg-gray-600 rounded-md text-sm transition-colors disabled:opacity-50"
+        >
+          <DownloadIcon className="w-4 h-4" />
+          Xuất gói .zip
+        </button>
+        <button
+          onClick={() => bundleInputRef.current?.click()}
+          disabled={disabled}
+          className="py-2 bg-gray-700 hover:bg-gray-600 rounded-md text-sm transition-colors disabled:opacity-50"
+        >
+          Nhập gói .zip
+        </button>
+      </div>
+      <input
+        type="file"
+        accept=".zip,application/zip"
+        ref={bundleInputRef}
+        onChange={handleBundleChange}
+        className="hidden"
+      />
+    </div>
+  );
+};
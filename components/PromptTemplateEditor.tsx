@@ -0,0 +1,153 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { PromptLanguage, PromptTemplate, Scene } from '../types';
+import { PROMPT_PRESETS } from '../services/PromptPresets';
+import { PROMPT_PLACEHOLDERS, parsePromptTemplate } from '../services/PromptBuilder';
+
+interface PromptTemplateEditorProps {
+  template: PromptTemplate;
+  onChange: (template: PromptTemplate) => void;
+  scenes: Scene[];
+  // Renders the exact prompt a scene would send with the current settings.
+  renderPreview: (sceneIndex: number, isVariant: boolean) => string;
+  disabled: boolean;
+}
+
+const CUSTOM_PRESET = 'custom';
+
+export const PromptTemplateEditor: React.FC<PromptTemplateEditorProps> = ({ template, onChange, scenes, renderPreview, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [previewIndex, setPreviewIndex] = useState(0);
+  const [previewVariant, setPreviewVariant] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const { errors } = useMemo(() => parsePromptTemplate(template.body), [template.body]);
+  const sceneIndex = Math.min(previewIndex, Math.max(0, scenes.length - 1));
+  const preview = isOpen && scenes.length > 0 && errors.length === 0 ? renderPreview(sceneIndex, previewVariant) : '';
+
+  const selectPreset = (presetId: string) => {
+    const preset = PROMPT_PRESETS.find(p => p.id === presetId);
+    if (!preset) return;
+    if (template.presetId === null && !window.confirm('Thay mẫu đang chỉnh sửa bằng mẫu có sẵn? Các thay đổi hiện tại sẽ bị mất.')) {
+      return;
+    }
+    onChange(preset.template);
+  };
+
+  const updateBody = (body: string) => {
+    const preset = PROMPT_PRESETS.find(p => p.template.body === body && p.template.language === template.language);
+    onChange({ ...template, body, presetId: preset?.id ?? null });
+  };
+
+  const insertPlaceholder = (name: string) => {
+    const textarea = textareaRef.current;
+    const token = `{{${name}}}`;
+    if (!textarea) return;
+    const { selectionStart, selectionEnd } = textarea;
+    updateBody(template.body.slice(0, selectionStart) + token + template.body.slice(selectionEnd));
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(selectionStart + token.length, selectionStart + token.length);
+    });
+  };
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg space-y-3">
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full flex items-center justify-between text-sm font-medium text-gray-300">
+        <span>Mẫu câu lệnh (prompt template)</span>
+        <span className="text-xs text-gray-400">
+          {errors.length > 0 && <span className="text-red-400 mr-2">{errors.length} lỗi</span>}
+          {isOpen ? 'Thu gọn' : 'Mở rộng'}
+        </span>
+      </button>
+      {isOpen && (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <label className="text-xs text-gray-400">
+              Mẫu có sẵn
+              <select
+                value={template.presetId ?? CUSTOM_PRESET}
+                onChange={e => selectPreset(e.target.value)}
+                disabled={disabled}
+                className="mt-1 w-full bg-gray-900 border border-gray-600 rounded-md p-2 text-sm text-gray-200"
+              >
+                {template.presetId === null && <option value={CUSTOM_PRESET}>Tùy chỉnh</option>}
+                {PROMPT_PRESETS.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+              </select>
+            </label>
+            <label className="text-xs text-gray-400">
+              Ngôn ngữ luật tham chiếu
+              <select
+                value={template.language}
+                onChange={e => onChange({ ...template, language: e.target.value as PromptLanguage, presetId: null })}
+                disabled={disabled}
+                className="mt-1 w-full bg-gray-900 border border-gray-600 rounded-md p-2 text-sm text-gray-200"
+              >
+                <option value="vi">Tiếng Việt</option>
+                <option value="en">English</option>
+              </select>
+            </label>
+          </div>
+
+          <div className="flex flex-wrap gap-1">
+            {PROMPT_PLACEHOLDERS.map(p => (
+              <button
+                key={p.name}
+                onClick={() => insertPlaceholder(p.name)}
+                disabled={disabled}
+                title={p.description}
+                className="px-2 py-0.5 rounded bg-gray-700 hover:bg-gray-600 text-[11px] font-mono text-cyan-300"
+              >
+                {p.name}
+              </button>
+            ))}
+          </div>
+          <p className="text-[11px] text-gray-500">
+            Cú pháp: <code>{'{{tên}}'}</code>, <code>{'{{n}}'}</code> (số thứ tự tự tăng), <code>{'{{#if tên}}…{{else}}…{{/if}}'}</code>, dùng <code>!tên</code> để phủ định.
+          </p>
+
+          <textarea
+            ref={textareaRef}
+            value={template.body}
+            onChange={e => updateBody(e.target.value)}
+            disabled={disabled}
+            rows={14}
+            spellCheck={false}
+            className="w-full bg-gray-900 border border-gray-600 rounded-md p-2 text-xs font-mono focus:outline-none focus:border-cyan-400"
+          />
+
+          {errors.length > 0 && (
+            <ul className="text-xs text-red-400 space-y-0.5">
+              {errors.map((error, index) => <li key={index}>Dòng {error.line}: {error.message}</li>)}
+            </ul>
+          )}
+
+          <div className="space-y-2">
+            <div className="flex items-center gap-2 text-xs text-gray-400">
+              <span>Xem trước:</span>
+              <select
+                value={sceneIndex}
+                onChange={e => setPreviewIndex(Number(e.target.value))}
+                className="flex-1 bg-gray-900 border border-gray-600 rounded-md p-1 text-xs text-gray-200"
+              >
+                {scenes.map((scene, index) => (
+                  <option key={index} value={index}>Cảnh {scene.sceneNumber}{scene.title ? `: ${scene.title}` : ''}</option>
+                ))}
+              </select>
+              <label className="flex items-center gap-1 cursor-pointer">
+                <input type="checkbox" checked={previewVariant} onChange={() => setPreviewVariant(!previewVariant)} />
+                Tạo lại
+              </label>
+            </div>
+            {scenes.length === 0 ? (
+              <p className="text-xs text-gray-500">Chưa có cảnh hợp lệ nào trong kịch bản để xem trước.</p>
+            ) : errors.length > 0 ? (
+              <p className="text-xs text-gray-500">Sửa lỗi trong mẫu để xem trước.</p>
+            ) : (
+              <pre className="max-h-80 overflow-y-auto whitespace-pre-wrap bg-gray-900 border border-gray-700 rounded-md p-2 text-[11px] text-gray-300">{preview}</pre>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,85 @@
+import React from 'react';
+import { ImageProviderId, ProviderSettings } from '../types';
+import { IMAGE_PROVIDERS, getProviderInfo } from '../services/ImageProvider';
+
+interface ProviderSettingsPanelProps {
+  settings: ProviderSettings;
+  onChange: (settings: ProviderSettings) => void;
+  disabled: boolean;
+}
+
+export const ProviderSettingsPanel: React.FC<ProviderSettingsPanelProps> = ({ settings, onChange, disabled }) => {
+  const provider = getProviderInfo(settings.providerId);
+
+  const selectProvider = (providerId: ImageProviderId) => {
+    onChange({ ...settings, providerId, model: getProviderInfo(providerId).models[0].id });
+  };
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg space-y-3">
+      <h3 className="text-sm font-medium text-gray-300">Nguồn tạo ảnh</h3>
+      <div className="grid grid-cols-2 gap-2">
+        <label className="text-xs text-gray-400">
+          Nhà cung cấp
+          <select
+            value={settings.providerId}
+            onChange={e => selectProvider(e.target.value as ImageProviderId)}
+            disabled={disabled}
+            className="mt-1 w-full bg-gray-900 border border-gray-600 rounded-md p-2 text-sm text-gray-200"
+          >
+            {IMAGE_PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+          </select>
+        </label>
+        <label className="text-xs text-gray-400">
+          Model
+          <select
+            value={settings.model}
+            onChange={e => onChange({ ...settings, model: e.target.value })}
+            disabled={disabled}
+            className="mt-1 w-full bg-gray-900 border border-gray-600 rounded-md p-2 text-sm text-gray-200"
+          >
+            {provider.models.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+          </select>
+        </label>
+      </div>
+      {settings.providerId === 'mock' && (
+        <div className="grid grid-cols-2 gap-2">
+          <label className="text-xs text-gray-400">
+            Độ trễ (ms)
+            <input
+              type="number"
+              min={0}
+              step={100}
+              value={settings.mockLatencyMs}
+              onChange={e => onChange({ ...settings, mockLatencyMs: Math.max(0, Number(e.target.value) || 0) })}
+              disabled={disabled}
+              className="mt-1 w-full bg-gray-900 border border-gray-600 rounded-md p-2 text-sm text-gray-200"
+            />
+          </label>
+          <label className="text-xs text-gray-400">
+            Tỷ lệ lỗi (%)
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={Math.round(settings.mockFailureRate * 100)}
+              onChange={e => onChange({ ...settings, mockFailureRate: Math.min(100, Math.max(0, Number(e.target.value) || 0)) / 100 })}
+              disabled={disabled}
+              className="mt-1 w-full bg-gray-900 border border-gray-600 rounded-md p-2 text-sm text-gray-200"
+            />
+          </label>
+          <label className="col-span-2 flex items-start gap-2 text-xs text-gray-400 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.mockLabels}
+              onChange={() => onChange({ ...settings, mockLabels: !settings.mockLabels })}
+              disabled={disabled}
+              className="mt-0.5"
+            />
+            <span>Ghi prompt lên ảnh (bộ kiểm tra chữ/watermark sẽ đánh dấu các ảnh này)</span>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
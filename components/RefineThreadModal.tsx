@@ -0,0 +1,94 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GeneratedImage } from '../types';
+import { refineThread } from '../services/ImageHistory';
+import { CloseIcon } from './Icons';
+
+interface RefineThreadModalProps {
+  image: GeneratedImage;
+  onRefine: (instruction: string) => void;
+  // Continues the thread from an earlier take.
+  onPromote: (versionId: string) => void;
+  onClose: () => void;
+}
+
+const SUGGESTIONS = ['Chuyển sang ban đêm', 'Nhân vật đang mỉm cười', 'Ánh sáng ấm hơn', 'Máy quay lùi xa hơn một chút'];
+
+/**
+ * Chat-style refine thread of a tile: each instruction edits the current take
+ * and the result becomes the next message, so refinements build on each other.
+ */
+export const RefineThreadModal: React.FC<RefineThreadModalProps> = ({ image, onRefine, onPromote, onClose }) => {
+  const [instruction, setInstruction] = useState('');
+  const thread = refineThread(image);
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: 'end' });
+  }, [thread.length, image.isLoading]);
+
+  const send = () => {
+    const text = instruction.trim();
+    if (!text || image.isLoading) return;
+    onRefine(text);
+    setInstruction('');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4" aria-modal="true" role="dialog">
+      <div className="bg-gray-800 rounded-lg shadow-xl w-full max-w-2xl h-full max-h-[90vh] flex flex-col text-gray-200">
+        <header className="flex items-center justify-between p-4 border-b border-gray-700">
+          <h2 className="text-xl font-bold">Tinh chỉnh · {image.sceneName}</h2>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-gray-700" aria-label="Đóng">
+            <CloseIcon className="w-6 h-6" />
+          </button>
+        </header>
+        <main className="flex-1 overflow-y-auto p-4 space-y-4">
+          {thread.map((version, index) => (
+            <div key={version.id} className="space-y-2">
+              {version.refinement && (
+                <p className="ml-auto w-fit max-w-[80%] bg-cyan-700 rounded-lg px-3 py-2 text-sm whitespace-pre-wrap">{version.refinement.instruction}</p>
+              )}
+              <div className="w-fit max-w-[80%] space-y-1">
+                <img src={version.src} alt={index === 0 ? 'Ảnh gốc' : `Lần tinh chỉnh ${index}`} className="max-h-64 rounded-lg bg-gray-900 object-contain" />
+                <div className="flex items-center gap-3 text-xs text-gray-400">
+                  <span>{index === 0 ? 'Ảnh gốc' : `Lần ${index}`}</span>
+                  {index < thread.length - 1 && !image.isLoading && (
+                    <button onClick={() => onPromote(version.id)} className="text-cyan-400 hover:text-cyan-300">Tiếp tục từ ảnh này</button>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+          {image.isLoading && <p className="text-sm text-gray-400 animate-pulse">Đang tinh chỉnh...</p>}
+          {!image.isLoading && image.src === 'error' && <p className="text-sm text-red-400">Lần tinh chỉnh cuối thất bại. Xem lý do trên ô ảnh hoặc khôi phục phiên bản trước.</p>}
+          <div ref={endRef} />
+        </main>
+        <footer className="p-4 border-t border-gray-700 space-y-2">
+          <div className="flex flex-wrap gap-2">
+            {SUGGESTIONS.map(text => (
+              <button key={text} onClick={() => setInstruction(text)} className="text-xs bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded-full transition-colors">{text}</button>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <textarea
+              value={instruction}
+              onChange={e => setInstruction(e.target.value)}
+              onKeyDown={e => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault();
+                  send();
+                }
+              }}
+              rows={2}
+              placeholder="Mô tả thay đổi, VD: trời đã tối, cô ấy đang mỉm cười"
+              className="flex-1 bg-gray-900 border border-gray-600 rounded-md p-2 text-sm text-gray-200"
+            />
+            <button onClick={send} disabled={!instruction.trim() || image.isLoading} className="px-4 bg-cyan-600 hover:bg-cyan-500 rounded-md font-semibold transition-colors disabled:opacity-50">
+              Gửi
+            </button>
+          </div>
+        </footer>
+      </div>
+    </div>
+  );
+};
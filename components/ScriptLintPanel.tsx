@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import { ScriptDiagnostic } from '../types';
+
+interface ScriptLintPanelProps {
+  diagnostics: ScriptDiagnostic[];
+  onJump: (diagnostic: ScriptDiagnostic) => void;
+}
+
+export const ScriptLintPanel: React.FC<ScriptLintPanelProps> = ({ diagnostics, onJump }) => {
+  const [showWarnings, setShowWarnings] = useState(true);
+  const errorCount = diagnostics.filter(d => d.severity === 'error').length;
+  const warningCount = diagnostics.length - errorCount;
+  const visible = showWarnings ? diagnostics : diagnostics.filter(d => d.severity === 'error');
+
+  if (diagnostics.length === 0) {
+    return <p className="mt-2 text-xs text-green-400">Kịch bản hợp lệ, không phát hiện lỗi.</p>;
+  }
+
+  return (
+    <div className="mt-2 bg-gray-800 border border-gray-700 rounded-lg">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-700 text-xs">
+        <span>
+          <span className="text-red-400 font-semibold">{errorCount} lỗi</span>
+          {' · '}
+          <span className="text-yellow-400 font-semibold">{warningCount} cảnh báo</span>
+        </span>
+        <label className="flex items-center gap-1 cursor-pointer text-gray-400">
+          <input type="checkbox" checked={showWarnings} onChange={() => setShowWarnings(!showWarnings)} />
+          Hiện cảnh báo
+        </label>
+      </div>
+      <ul className="max-h-48 overflow-y-auto divide-y divide-gray-700">
+        {visible.map((diagnostic, index) => (
+          <li key={`${diagnostic.line}-${index}`}>
+            <button
+              onClick={() => onJump(diagnostic)}
+              className="w-full text-left px-3 py-1.5 text-xs hover:bg-gray-700 flex gap-2"
+            >
+              <span className={diagnostic.severity === 'error' ? 'text-red-400' : 'text-yellow-400'}>
+                {diagnostic.severity === 'error' ? '●' : '▲'}
+              </span>
+              <span className="text-gray-500 font-mono shrink-0">
+                {diagnostic.line > 0 ? `L${diagnostic.line}` : '—'}
+              </span>
+              <span className="text-gray-300">{diagnostic.message}</span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,70 @@
+import React from 'react';
+import { FILTER_PRESETS } from '../services/EditStack';
+import { DownloadIcon, RetryIcon, TrashIcon } from './Icons';
+
+interface SelectionToolbarProps {
+  selectedCount: number;
+  totalCount: number;
+  failedCount: number;
+  // Tiles whose current image the text/watermark check flagged.
+  flaggedCount: number;
+  // Tiles chained from a previous-scene candidate that is no longer the pick.
+  staleCount: number;
+  // Regenerate/delete are unavailable while a selected tile is still being generated.
+  busy: boolean;
+  onSelectAll: () => void;
+  onSelectFailed: () => void;
+  onSelectFlagged: () => void;
+  onSelectStale: () => void;
+  onClear: () => void;
+  onRegenerate: () => void;
+  onDownload: () => void;
+  onDelete: () => void;
+  onApplyFilter: (presetId: string) => void;
+}
+
+export const SelectionToolbar: React.FC<SelectionToolbarProps> = ({
+  selectedCount, totalCount, failedCount, flaggedCount, staleCount, busy,
+  onSelectAll, onSelectFailed, onSelectFlagged, onSelectStale, onClear, onRegenerate, onDownload, onDelete, onApplyFilter,
+}) => {
+  const none = selectedCount === 0;
+  const linkClass = 'text-cyan-400 hover:text-cyan-300 disabled:text-gray-500 disabled:cursor-not-allowed';
+  const actionClass = 'flex items-center gap-1 px-2 py-1 rounded-md text-xs transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className="mb-4 bg-gray-800 rounded-lg p-3 flex flex-wrap items-center gap-x-4 gap-y-2 text-sm">
+      <span className="text-gray-300">Đã chọn {selectedCount}/{totalCount}</span>
+      <div className="flex gap-3 text-xs">
+        <button onClick={onSelectAll} disabled={selectedCount === totalCount} className={linkClass}>Chọn tất cả</button>
+        <button onClick={onSelectFailed} disabled={failedCount === 0} className={linkClass}>Chọn ảnh lỗi ({failedCount})</button>
+        {flaggedCount > 0 && (
+          <button onClick={onSelectFlagged} className={linkClass}>Chọn ảnh nghi có chữ ({flaggedCount})</button>
+        )}
+        {staleCount > 0 && (
+          <button onClick={onSelectStale} className={linkClass}>Chọn cảnh cần tạo lại theo cảnh trước ({staleCount})</button>
+        )}
+        <button onClick={onClear} disabled={none} className={linkClass}>Bỏ chọn</button>
+      </div>
+      <div className="flex flex-wrap items-center gap-2 ml-auto">
+        <button onClick={onRegenerate} disabled={none || busy} className={`${actionClass} bg-gray-600 hover:bg-gray-500`}>
+          <RetryIcon className="w-4 h-4" /> Tạo lại
+        </button>
+        <button onClick={onDownload} disabled={none} className={`${actionClass} bg-green-600 hover:bg-green-500`}>
+          <DownloadIcon className="w-4 h-4" /> Tải xuống
+        </button>
+        <select
+          value=""
+          onChange={e => e.target.value && onApplyFilter(e.target.value)}
+          disabled={none || busy}
+          className="bg-gray-900 border border-gray-600 rounded-md px-2 py-1 text-xs text-gray-200 disabled:opacity-50"
+        >
+          <option value="">Áp bộ lọc...</option>
+          {FILTER_PRESETS.map(preset => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+        </select>
+        <button onClick={onDelete} disabled={none || busy} className={`${actionClass} bg-red-700 hover:bg-red-600`}>
+          <TrashIcon className="w-4 h-4" /> Xóa
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { DEFAULT_STORYBOARD_LAYOUT, PageOrientation, StoryboardLayout } from '../services/StoryboardExport';
+
+interface StoryboardExportPanelProps {
+  imageCount: number;
+  selectedCount: number;
+  onOpen: (layout: StoryboardLayout, selectedOnly: boolean) => void;
+  onDownload: (layout: StoryboardLayout, selectedOnly: boolean) => void;
+}
+
+const GRID_SIZES = [1, 2, 3, 4];
+
+export const StoryboardExportPanel: React.FC<StoryboardExportPanelProps> = ({ imageCount, selectedCount, onOpen, onDownload }) => {
+  const [layout, setLayout] = useState<StoryboardLayout>(DEFAULT_STORYBOARD_LAYOUT);
+  const [selectedOnly, setSelectedOnly] = useState(false);
+  const useSelection = selectedOnly && selectedCount > 0;
+  const frameCount = useSelection ? selectedCount : imageCount;
+  const pageCount = Math.ceil(frameCount / (layout.columns * layout.rows));
+
+  const selectClass = 'mt-1 w-full bg-gray-900 border border-gray-600 rounded-md p-2 text-sm text-gray-200';
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg space-y-3">
+      <h3 className="text-sm font-medium text-gray-300">Xuất storyboard (PDF / bản in)</h3>
+      <div className="grid grid-cols-3 gap-2">
+        <label className="text-xs text-gray-400">
+          Số cột
+          <select value={layout.columns} onChange={e => setLayout({ ...layout, columns: Number(e.target.value) })} className={selectClass}>
+            {GRID_SIZES.map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+        <label className="text-xs text-gray-400">
+          Số hàng
+          <select value={layout.rows} onChange={e => setLayout({ ...layout, rows: Number(e.target.value) })} className={selectClass}>
+            {GRID_SIZES.map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+        <label className="text-xs text-gray-400">
+          Khổ giấy
+          <select value={layout.orientation} onChange={e => setLayout({ ...layout, orientation: e.target.value as PageOrientation })} className={selectClass}>
+            <option value="portrait">A4 dọc</option>
+            <option value="landscape">A4 ngang</option>
+          </select>
+        </label>
+      </div>
+      <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer">
+        <input type="checkbox" checked={selectedOnly} onChange={() => setSelectedOnly(!selectedOnly)} disabled={selectedCount === 0} />
+        Chỉ ảnh đã chọn ({selectedCount})
+      </label>
+      <p className="text-xs text-gray-500">{frameCount} khung hình · {pageCount} trang</p>
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          onClick={() => onOpen(layout, useSelection)}
+          disabled={frameCount === 0}
+          className="bg-cyan-600 hover:bg-cyan-500 text-white text-sm py-2 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Xem & in
+        </button>
+        <button
+          onClick={() => onDownload(layout, useSelection)}
+          disabled={frameCount === 0}
+          className="bg-gray-600 hover:bg-gray-500 text-white text-sm py-2 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Tải HTML
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { Character, GeneratedImage, ImageVersion, StoryLocation } from '../types';
+import { describeArtifacts } from '../services/ArtifactDetector';
+import { CloseIcon } from './Icons';
+
+interface VersionHistoryModalProps {
+  image: GeneratedImage;
+  characters: Character[];
+  locations: StoryLocation[];
+  onPromote: (versionId: string) => void;
+  onClose: () => void;
+}
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleString('vi-VN');
+
+const ORIGIN_LABELS: Record<ImageVersion['origin'], { full: string; badge: string }> = {
+  generated: { full: 'Tạo bằng AI', badge: '' },
+  edited: { full: 'Chỉnh sửa thủ công', badge: ' · sửa' },
+  inpainted: { full: 'Sửa vùng bằng AI', badge: ' · sửa vùng' },
+};
+
+const VersionDetails: React.FC<{ version: ImageVersion; characters: Character[]; locations: StoryLocation[] }> = ({ version, characters, locations }) => {
+  const characterNames = version.characterRefIds
+    .map(id => characters.find(c => c.id === id)?.name ?? '(đã xóa)')
+    .join(', ');
+  const locationName = version.locationRefId ? locations.find(l => l.id === version.locationRefId)?.name ?? '(đã xóa)' : '';
+
+  return (
+    <dl className="grid grid-cols-[auto_1fr] gap-x-2 gap-y-0.5 text-xs">
+      <dt className="text-gray-400">Thời điểm</dt>
+      <dd>{formatTime(version.createdAt)} · {ORIGIN_LABELS[version.origin].full}</dd>
+      {version.refinement && (
+        <>
+          <dt className="text-gray-400">Tinh chỉnh</dt>
+          <dd>{version.refinement.instruction}</dd>
+        </>
+      )}
+      {version.artifacts && (
+        <>
+          <dt className="text-gray-400">Chữ/watermark</dt>
+          <dd className={version.artifacts.length ? 'text-amber-400' : ''}>{version.artifacts.length ? describeArtifacts(version.artifacts) : 'không phát hiện'}</dd>
+        </>
+      )}
+      {version.retryReasons && (
+        <>
+          <dt className="text-gray-400">Đã tạo lại</dt>
+          <dd>
+            <ol className="list-decimal list-inside">
+              {version.retryReasons.map((reason, index) => <li key={index}>{reason}</li>)}
+            </ol>
+          </dd>
+        </>
+      )}
+      <dt className="text-gray-400">Phong cách</dt>
+      <dd>{version.artStyle || <span className="text-gray-500">không ghi nhận</span>}</dd>
+      <dt className="text-gray-400">Nhân vật</dt>
+      <dd>{characterNames || <span className="text-gray-500">không có</span>}</dd>
+      <dt className="text-gray-400">Bối cảnh</dt>
+      <dd>{locationName || <span className="text-gray-500">không có</span>}</dd>
+      <dt className="text-gray-400">Tham chiếu</dt>
+      <dd>{version.referenceImageIds.length} ảnh{version.usedPreviousScene ? ' + ảnh cảnh trước' : ''}</dd>
+      <dt className="text-gray-400">Prompt</dt>
+      <dd className="line-clamp-3" title={version.scenePrompt}>{version.scenePrompt}</dd>
+      {version.finalPrompt && (
+        <dd className="col-span-2">
+          <details>
+            <summary className="cursor-pointer text-gray-400 hover:text-gray-200">Câu lệnh đầy đủ đã gửi</summary>
+            <pre className="mt-1 max-h-40 overflow-y-auto whitespace-pre-wrap bg-gray-900 rounded p-2 text-[11px] text-gray-300">{version.finalPrompt}</pre>
+          </details>
+        </dd>
+      )}
+    </dl>
+  );
+};
+
+/**
+ * Side-by-side comparison of the current take with any earlier one, plus a
+ * strip of every version of the tile (newest first).
+ */
+export const VersionHistoryModal: React.FC<VersionHistoryModalProps> = ({ image, characters, locations, onPromote, onClose }) => {
+  const current = image.versions.find(v => v.id === image.currentVersionId);
+  const newestFirst = [...image.versions].reverse();
+  const [selectedId, setSelectedId] = useState(newestFirst.find(v => v.id !== image.currentVersionId)?.id ?? newestFirst[0]?.id);
+  const selected = image.versions.find(v => v.id === selectedId);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4" aria-modal="true" role="dialog">
+      <div className="bg-gray-800 rounded-lg shadow-xl w-full max-w-5xl max-h-full flex flex-col text-gray-200">
+        <header className="flex items-center justify-between p-4 border-b border-gray-700">
+          <h2 className="text-xl font-bold">Lịch sử phiên bản · {image.sceneName}</h2>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-gray-700" aria-label="Đóng">
+            <CloseIcon className="w-6 h-6" />
+          </button>
+        </header>
+        <main className="p-4 overflow-y-auto space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {[{ title: 'Hiện tại', version: current }, { title: 'Đang so sánh', version: selected }].map(({ title, version }) => (
+              <section key={title} className="space-y-2">
+                <h3 className="text-sm font-semibold text-gray-300">{title}</h3>
+                {version ? (
+                  <>
+                    <img src={version.src} alt={title} className="w-full rounded-md bg-gray-900 object-contain max-h-72" />
+                    <VersionDetails version={version} characters={characters} locations={locations} />
+                  </>
+                ) : (
+                  <p className="text-xs text-gray-500">Không có phiên bản.</p>
+                )}
+              </section>
+            ))}
+          </div>
+          <div className="flex gap-2 overflow-x-auto pb-2">
+            {newestFirst.map((version, index) => (
+              <button
+                key={version.id}
+                onClick={() => setSelectedId(version.id)}
+                className={`relative shrink-0 w-32 rounded-md overflow-hidden border-2 ${version.id === selectedId ? 'border-cyan-400' : 'border-transparent hover:border-gray-500'}`}
+                title={formatTime(version.createdAt)}
+              >
+                <img src={version.src} alt={`Phiên bản ${image.versions.length - index}`} className="w-full h-20 object-cover" />
+                <span className="absolute bottom-0 inset-x-0 bg-black bg-opacity-60 text-[10px] px-1 text-left">
+                  v{image.versions.length - index}{ORIGIN_LABELS[version.origin].badge}
+                </span>
+                {!!version.artifacts?.length && (
+                  <span className="absolute top-1 right-1 bg-amber-500 text-gray-900 text-[10px] px-1 rounded" title={describeArtifacts(version.artifacts)}>Có chữ?</span>
+                )}
+                {version.id === image.currentVersionId && (
+                  <span className="absolute top-1 left-1 bg-cyan-600 text-[10px] px-1 rounded">Hiện tại</span>
+                )}
+              </button>
+            ))}
+          </div>
+        </main>
+        <footer className="p-4 border-t border-gray-700 flex items-center justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 bg-gray-600 rounded-md hover:bg-gray-500 transition-colors">Đóng</button>
+          <button
+            onClick={() => selected && onPromote(selected.id)}
+            disabled={!selected || selected.id === image.currentVersionId}
+            className="px-4 py-2 bg-cyan-600 rounded-md hover:bg-cyan-500 font-semibold transition-colors disabled:opacity-50"
+          >
+            Khôi phục phiên bản này
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
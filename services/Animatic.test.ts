@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { GeneratedImage } from '../types';
+import { buildAnimaticTimeline } from './Animatic';
+
+const tile = (id: string, sceneNumber: number, src = 'data:image/png;base64,AAAA', extra: Partial<GeneratedImage> = {}): GeneratedImage => ({
+  id,
+  prompt: '',
+  src,
+  isLoading: false,
+  sceneNumber,
+  characterRefIds: [],
+  isSelected: false,
+  sceneName: `Cảnh ${sceneNumber}`,
+  sceneScript: `Cảnh ${sceneNumber}: Test\nPrompt: Scene ${sceneNumber}\nThời lượng ảnh: 4-6 giây`,
+  versions: [],
+  ...extra,
+});
+
+describe('buildAnimaticTimeline', () => {
+  it('orders clips by scene number and times them from the script', () => {
+    const { clips, total } = buildAnimaticTimeline([tile('b', 2), tile('a', 1)]);
+    expect(clips.map(c => [c.imageId, c.start, c.duration])).toEqual([['a', 0, 5], ['b', 5, 5]]);
+    expect(total).toBe(10);
+  });
+
+  it('plays one tile per scene, preferring the original over a saved copy', () => {
+    const images = [tile('a', 1), tile('b', 2), tile('a-copy', 1, undefined, { sceneName: 'Cảnh 1 (đã chỉnh sửa)' })];
+    expect(buildAnimaticTimeline(images).clips.map(c => c.imageId)).toEqual(['a', 'b']);
+  });
+
+  it('falls back to the copy when the original has no image', () => {
+    const images = [tile('a', 1, 'error'), tile('a-copy', 1)];
+    expect(buildAnimaticTimeline(images).clips.map(c => c.imageId)).toEqual(['a-copy']);
+  });
+});
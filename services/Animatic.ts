@@ -0,0 +1,191 @@
+import { AspectRatio, GeneratedImage, KenBurnsMotion, Scene } from '../types';
+import { parseSceneBlock } from './ScriptParser';
+import { isImageSrc } from './ImageHistory';
+import { aspectParts } from './ImageUtils';
+
+export const DEFAULT_SCENE_SECONDS = 5;
+
+export const KEN_BURNS_MOTIONS: { id: KenBurnsMotion; label: string }[] = [
+  { id: 'static', label: 'Tĩnh' },
+  { id: 'zoomIn', label: 'Zoom vào' },
+  { id: 'zoomOut', label: 'Zoom ra' },
+  { id: 'panLeft', label: 'Lia trái' },
+  { id: 'panRight', label: 'Lia phải' },
+  { id: 'panUp', label: 'Lia lên' },
+  { id: 'panDown', label: 'Lia xuống' },
+];
+
+const MOTION_PATTERNS: { motion: KenBurnsMotion; regex: RegExp }[] = [
+  { motion: 'zoomIn', regex: /zoom\s*in|push\s*in|dolly\s*in|phóng to|đẩy vào|tiến vào|zoom vào/ },
+  { motion: 'zoomOut', regex: /zoom\s*out|pull\s*(?:out|back)|dolly\s*out|thu nhỏ|kéo ra|lùi ra|zoom ra/ },
+  { motion: 'panLeft', regex: /pan\s*(?:to\s*(?:the\s*)?)?left|lia\s*(?:sang\s*)?trái/ },
+  { motion: 'panRight', regex: /pan\s*(?:to\s*(?:the\s*)?)?right|lia\s*(?:sang\s*)?phải/ },
+  { motion: 'panUp', regex: /(?:pan|tilt)\s*up|lia\s*lên/ },
+  { motion: 'panDown', regex: /(?:pan|tilt)\s*down|lia\s*xuống/ },
+  { motion: 'static', regex: /static|tĩnh|không di chuyển|đứng yên/ },
+];
+
+// The direction mentioned first wins, so "Zoom in chậm, sau đó giữ tĩnh" zooms.
+export const parseKenBurns = (text: string): KenBurnsMotion => {
+  const lower = text.toLowerCase();
+  let best: { motion: KenBurnsMotion; index: number } | null = null;
+  for (const { motion, regex } of MOTION_PATTERNS) {
+    const index = lower.search(regex);
+    if (index !== -1 && (!best || index < best.index)) best = { motion, index };
+  }
+  return best?.motion ?? 'static';
+};
+
+export interface AnimaticClip {
+  imageId: string;
+  src: string;
+  sceneName: string;
+  scene: Scene | null;
+  start: number;
+  duration: number;
+  motion: KenBurnsMotion;
+  // What the script asks for, shown next to a user override.
+  scriptMotion: KenBurnsMotion;
+}
+
+export interface AnimaticTimeline {
+  clips: AnimaticClip[];
+  total: number;
+}
+
+// One tile with an image per scene, ordered by scene number, each lasting the
+// middle of its "Thời lượng ảnh" range. Where tiles share a scene number (a
+// "Save as New" copy) the first in the grid, i.e. the original, plays.
+// Every export that has to line up with the animatic times its scenes from this.
+export const buildAnimaticTimeline = (images: GeneratedImage[]): AnimaticTimeline => {
+  const clips: AnimaticClip[] = [];
+  const sceneNumbers = new Set<number>();
+  let start = 0;
+  const ordered = [...images].sort((a, b) => a.sceneNumber - b.sceneNumber);
+  for (const image of ordered) {
+    if (!isImageSrc(image.src) || sceneNumbers.has(image.sceneNumber)) continue;
+    sceneNumbers.add(image.sceneNumber);
+    const scene = parseSceneBlock(image.sceneScript);
+    const range = scene?.durationRange;
+    const duration = range && range.max > 0 ? (range.min + range.max) / 2 : DEFAULT_SCENE_SECONDS;
+    const scriptMotion = parseKenBurns(scene?.kenBurns ?? '');
+    clips.push({
+      imageId: image.id,
+      src: image.src,
+      sceneName: image.sceneName,
+      scene,
+      start,
+      duration,
+      motion: image.motionOverride ?? scriptMotion,
+      scriptMotion,
+    });
+    start += duration;
+  }
+  return { clips, total: start };
+};
+
+export const clipIndexAt = (timeline: AnimaticTimeline, time: number): number => {
+  const index = timeline.clips.findIndex(clip => time < clip.start + clip.duration);
+  return index === -1 ? timeline.clips.length - 1 : index;
+};
+
+// Even dimensions, which video encoders require.
+export const frameSize = (aspectRatio: AspectRatio, longSide: number): { width: number; height: number } => {
+  const [w, h] = aspectParts(aspectRatio);
+  const even = (n: number) => Math.round(n / 2) * 2;
+  return w >= h
+    ? { width: even(longSide), height: even(longSide * h / w) }
+    : { width: even(longSide * w / h), height: even(longSide) };
+};
+
+const ZOOM = 1.2;
+const PAN_ZOOM = 1.15;
+
+const easeInOut = (t: number) => 0.5 - Math.cos(Math.PI * t) / 2;
+
+// Zoom factor over a cover fit and the viewport centre (0..1 of the image).
+const motionAt = (motion: KenBurnsMotion, progress: number) => {
+  const t = easeInOut(Math.min(1, Math.max(0, progress)));
+  switch (motion) {
+    case 'zoomIn': return { zoom: 1 + (ZOOM - 1) * t, cx: 0.5, cy: 0.5 };
+    case 'zoomOut': return { zoom: ZOOM - (ZOOM - 1) * t, cx: 0.5, cy: 0.5 };
+    case 'panLeft': return { zoom: PAN_ZOOM, cx: 1 - t, cy: 0.5 };
+    case 'panRight': return { zoom: PAN_ZOOM, cx: t, cy: 0.5 };
+    case 'panUp': return { zoom: PAN_ZOOM, cx: 0.5, cy: 1 - t };
+    case 'panDown': return { zoom: PAN_ZOOM, cx: 0.5, cy: t };
+    default: return { zoom: 1, cx: 0.5, cy: 0.5 };
+  }
+};
+
+/** Draws `img` covering the canvas, moved as `motion` dictates at `progress` (0..1). */
+export const drawKenBurnsFrame = (ctx: CanvasRenderingContext2D, img: HTMLImageElement, motion: KenBurnsMotion, progress: number) => {
+  const { width, height } = ctx.canvas;
+  const { zoom, cx, cy } = motionAt(motion, progress);
+  const scale = Math.max(width / img.naturalWidth, height / img.naturalHeight) * zoom;
+  const viewWidth = width / scale;
+  const viewHeight = height / scale;
+  const clamp = (value: number, max: number) => Math.min(Math.max(value, 0), Math.max(0, max));
+  const sx = clamp(cx * img.naturalWidth - viewWidth / 2, img.naturalWidth - viewWidth);
+  const sy = clamp(cy * img.naturalHeight - viewHeight / 2, img.naturalHeight - viewHeight);
+  ctx.drawImage(img, sx, sy, viewWidth, viewHeight, 0, 0, width, height);
+};
+
+export type AnimaticTransition = 'cut' | 'crossfade' | 'fadeBlack';
+
+export const ANIMATIC_TRANSITIONS: { id: AnimaticTransition; label: string }[] = [
+  { id: 'cut', label: 'Cắt thẳng' },
+  { id: 'crossfade', label: 'Hòa tan (crossfade)' },
+  { id: 'fadeBlack', label: 'Mờ về đen' },
+];
+
+export const DEFAULT_TRANSITION_SECONDS = 0.8;
+
+/**
+ * Draws the animatic at `time`. A crossfade blends the next scene in over the
+ * last `transitionSeconds` of a scene; a fade to black dips out and back in
+ * around each cut. Transitions never take more than half of either scene.
+ */
+export const drawAnimaticFrame = (
+  ctx: CanvasRenderingContext2D,
+  timeline: AnimaticTimeline,
+  frames: Map<string, HTMLImageElement>,
+  time: number,
+  transition: AnimaticTransition,
+  transitionSeconds = DEFAULT_TRANSITION_SECONDS,
+) => {
+  const { width, height } = ctx.canvas;
+  const fillBlack = (alpha: number) => {
+    ctx.globalAlpha = alpha;
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, width, height);
+  };
+  fillBlack(1);
+
+  const index = clipIndexAt(timeline, time);
+  const clip = timeline.clips[index];
+  if (!clip) return;
+  const previous = timeline.clips[index - 1];
+  const next = timeline.clips[index + 1];
+  const end = clip.start + clip.duration;
+  const span = (other?: AnimaticClip) => other ? Math.min(transitionSeconds, clip.duration / 2, other.duration / 2) : 0;
+  const draw = (target: AnimaticClip, alpha: number) => {
+    const img = frames.get(target.src);
+    if (!img) return;
+    ctx.globalAlpha = alpha;
+    drawKenBurnsFrame(ctx, img, target.motion, (time - target.start) / target.duration);
+  };
+
+  draw(clip, 1);
+  if (transition === 'crossfade') {
+    const blend = span(next);
+    if (next && blend > 0 && time > end - blend) draw(next, (time - (end - blend)) / blend);
+  } else if (transition === 'fadeBlack') {
+    const fadeOut = span(next) / 2;
+    const fadeIn = span(previous) / 2;
+    let black = 0;
+    if (fadeOut > 0 && time > end - fadeOut) black = (time - (end - fadeOut)) / fadeOut;
+    if (fadeIn > 0 && time < clip.start + fadeIn) black = Math.max(black, 1 - (time - clip.start) / fadeIn);
+    if (black > 0) fillBlack(Math.min(1, black));
+  }
+  ctx.globalAlpha = 1;
+};
@@ -0,0 +1,97 @@
+import { AspectRatio } from '../types';
+import { AnimaticTimeline, AnimaticTransition, drawAnimaticFrame, frameSize } from './Animatic';
+import { loadImage } from './ImageUtils';
+
+export interface VideoExportOptions {
+  aspectRatio: AspectRatio;
+  longSide: number;
+  fps: number;
+  transition: AnimaticTransition;
+  transitionSeconds: number;
+}
+
+export const VIDEO_RESOLUTIONS = [
+  { longSide: 1280, label: '720p' },
+  { longSide: 1920, label: '1080p' },
+];
+
+const MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+const pickMimeType = () =>
+  typeof MediaRecorder === 'undefined' ? undefined : MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+
+export const isVideoExportSupported = () => !!pickMimeType();
+
+/**
+ * Records the animatic to WebM by playing it on an offscreen canvas into a
+ * MediaRecorder. Recording runs in real time, so it takes as long as the
+ * animatic and the tab should stay in the foreground meanwhile.
+ */
+export const renderAnimaticVideo = async (
+  timeline: AnimaticTimeline,
+  options: VideoExportOptions,
+  onProgress: (fraction: number) => void,
+  signal?: AbortSignal,
+): Promise<Blob> => {
+  const mimeType = pickMimeType();
+  if (!mimeType) throw new Error('Trình duyệt không hỗ trợ ghi video WebM (MediaRecorder).');
+  if (timeline.clips.length === 0) throw new Error('Chưa có ảnh nào để xuất video.');
+
+  const sources = [...new Set(timeline.clips.map(clip => clip.src))];
+  const frames = new Map(await Promise.all(sources.map(async src => [src, await loadImage(src)] as const)));
+  if (signal?.aborted) throw signal.reason;
+
+  const { width, height } = frameSize(options.aspectRatio, options.longSide);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas context not available');
+  const drawAt = (time: number) => drawAnimaticFrame(ctx, timeline, frames, time, options.transition, options.transitionSeconds);
+  drawAt(0);
+
+  const stream = canvas.captureStream(options.fps);
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: options.longSide >= 1920 ? 12_000_000 : 6_000_000 });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+
+  return new Promise<Blob>((resolve, reject) => {
+    let frame = 0;
+    const cleanUp = () => {
+      cancelAnimationFrame(frame);
+      signal?.removeEventListener('abort', onAbort);
+      stream.getTracks().forEach(track => track.stop());
+    };
+    const onAbort = () => {
+      recorder.onstop = null;
+      if (recorder.state !== 'inactive') recorder.stop();
+      cleanUp();
+      reject(signal!.reason);
+    };
+    recorder.onstop = () => {
+      cleanUp();
+      resolve(new Blob(chunks, { type: 'video/webm' }));
+    };
+    recorder.onerror = () => {
+      cleanUp();
+      reject(new Error('Ghi video thất bại.'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    recorder.start(1000);
+    const startedAt = performance.now();
+    const tick = (now: number) => {
+      const time = (now - startedAt) / 1000;
+      drawAt(Math.min(time, timeline.total));
+      onProgress(Math.min(1, time / timeline.total));
+      if (time >= timeline.total) {
+        recorder.stop();
+        return;
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+  });
+};
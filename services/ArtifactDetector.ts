@@ -0,0 +1,223 @@
+import { ArtifactFinding, NormalizedRect } from '../types';
+import { loadImage } from './ImageUtils';
+
+// Everything runs on a small greyscale copy; text that is unreadable at this
+// size is not worth a retry.
+const ANALYSIS_LONG_SIDE = 320;
+const CELL = 8;
+const EDGE_THRESHOLD = 40;
+// Cells this busy with strokes in both directions look like glyphs.
+const MIN_EDGE_DENSITY = 0.22;
+const MIN_AXIS_DENSITY = 0.08;
+const MIN_CONTRAST = 90;
+// A line of text spans several cells and is quieter above and below.
+const MIN_RUN_CELLS = 4;
+const MAX_BAND_ROWS = 3;
+const MAX_SURROUND_RATIO = 0.5;
+// Weaker runs are usually texture.
+const MIN_SCORE = 0.2;
+// Runs stacked at the same columns this many times are a regular structure
+// such as windows or tiles, not lettering.
+const MAX_REPEATS = 3;
+// Corner bands where generators like to stamp signatures and logos.
+const CORNER_X = 0.22;
+const CORNER_Y = 0.16;
+const MAX_FINDINGS = 5;
+
+interface GreyImage {
+  grey: Float32Array;
+  width: number;
+  height: number;
+}
+
+interface CellStats {
+  density: number;
+  textLike: boolean;
+}
+
+const toGrey = (img: HTMLImageElement): GreyImage => {
+  const scale = Math.min(1, ANALYSIS_LONG_SIDE / Math.max(img.naturalWidth, img.naturalHeight));
+  const width = Math.max(CELL, Math.round(img.naturalWidth * scale));
+  const height = Math.max(CELL, Math.round(img.naturalHeight * scale));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(img, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const grey = new Float32Array(width * height);
+  for (let i = 0; i < grey.length; i++) {
+    grey[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return { grey, width, height };
+};
+
+const cellStats = ({ grey, width, height }: GreyImage, cx: number, cy: number): CellStats => {
+  let edges = 0;
+  let horizontal = 0;
+  let vertical = 0;
+  let min = 255;
+  let max = 0;
+  let count = 0;
+  for (let y = cy * CELL; y < Math.min(height - 1, (cy + 1) * CELL); y++) {
+    for (let x = cx * CELL; x < Math.min(width - 1, (cx + 1) * CELL); x++) {
+      const value = grey[y * width + x];
+      const gx = Math.abs(grey[y * width + x + 1] - value);
+      const gy = Math.abs(grey[(y + 1) * width + x] - value);
+      if (gx > EDGE_THRESHOLD) horizontal++;
+      if (gy > EDGE_THRESHOLD) vertical++;
+      if (gx > EDGE_THRESHOLD || gy > EDGE_THRESHOLD) edges++;
+      min = Math.min(min, value);
+      max = Math.max(max, value);
+      count++;
+    }
+  }
+  if (count === 0) return { density: 0, textLike: false };
+  const density = edges / count;
+  return {
+    density,
+    textLike: density > MIN_EDGE_DENSITY && horizontal / count > MIN_AXIS_DENSITY && vertical / count > MIN_AXIS_DENSITY && max - min > MIN_CONTRAST,
+  };
+};
+
+const average = (values: number[]) => values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+
+// [start, end) column ranges of at least MIN_RUN_CELLS text-like cells; a
+// single quiet cell (a space between words) does not end a run.
+const textRuns = (band: CellStats[]): [number, number][] => {
+  const runs: [number, number][] = [];
+  let start = -1;
+  let lastTextLike = -1;
+  band.forEach((cell, cx) => {
+    if (!cell.textLike) return;
+    if (start === -1 || cx - lastTextLike > 2) {
+      if (start !== -1 && lastTextLike + 1 - start >= MIN_RUN_CELLS) runs.push([start, lastTextLike + 1]);
+      start = cx;
+    }
+    lastTextLike = cx;
+  });
+  if (start !== -1 && lastTextLike + 1 - start >= MIN_RUN_CELLS) runs.push([start, lastTextLike + 1]);
+  return runs;
+};
+
+// Share of the smaller rectangle covered by the other.
+const overlap = (a: NormalizedRect, b: NormalizedRect) => {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  if (width <= 0 || height <= 0) return 0;
+  return (width * height) / Math.min(a.width * a.height, b.width * b.height);
+};
+
+const isInCorner = ({ x, y, width, height }: NormalizedRect) => {
+  const cx = x + width / 2;
+  const cy = y + height / 2;
+  return (cx <= CORNER_X || cx >= 1 - CORNER_X) && (cy <= CORNER_Y || cy >= 1 - CORNER_Y);
+};
+
+// Horizontal runs of busy, high contrast cells with calmer rows above and
+// below; runs in a corner are watermarks, the rest text.
+const findTextRegions = ({ grey, width, height }: GreyImage): ArtifactFinding[] => {
+  const cols = Math.floor(width / CELL);
+  const rows = Math.floor(height / CELL);
+  const cells: CellStats[][] = Array.from({ length: rows }, (_, cy) =>
+    Array.from({ length: cols }, (_, cx) => cellStats({ grey, width, height }, cx, cy)));
+
+  // Larger lettering spans several cell rows, so bands of one to three rows
+  // are each tested against the rows just outside them.
+  const findings: ArtifactFinding[] = [];
+  for (let bandHeight = 1; bandHeight <= MAX_BAND_ROWS; bandHeight++) {
+    for (let cy = 0; cy + bandHeight <= rows; cy++) {
+      const band = Array.from({ length: cols }, (_, cx) => {
+        const stack = cells.slice(cy, cy + bandHeight).map(row => row[cx]);
+        return {
+          density: average(stack.map(cell => cell.density)),
+          textLike: stack.filter(cell => cell.textLike).length * 2 >= bandHeight,
+        };
+      });
+      const outside = [cy - 1, cy + bandHeight].filter(row => row >= 0 && row < rows);
+
+      for (const [start, end] of textRuns(band)) {
+        const runDensity = average(band.slice(start, end).map(cell => cell.density));
+        const surround = average(outside.flatMap(row => cells[row].slice(start, end).map(cell => cell.density)));
+        const score = Math.round(runDensity * (1 - surround / runDensity) * 100) / 100;
+        if (surround > runDensity * MAX_SURROUND_RATIO) continue;
+        const rect = { x: start * CELL / width, y: cy * CELL / height, width: (end - start) * CELL / width, height: bandHeight * CELL / height };
+        findings.push({
+          kind: isInCorner(rect) ? 'watermark' : 'text',
+          rect,
+          score,
+        });
+      }
+    }
+  }
+
+  return findings;
+};
+
+// Runs stacked at the same columns (within `tolerance`) in several separate
+// bands are dropped as a regular structure.
+const withoutRepeats = (findings: ArtifactFinding[], tolerance: number) => {
+  const sameColumns = (a: NormalizedRect, b: NormalizedRect) =>
+    Math.abs(a.x - b.x) <= tolerance && Math.abs(a.x + a.width - b.x - b.width) <= tolerance;
+  const isRepeated = (finding: ArtifactFinding) => {
+    // Count separate bands only; one line of text matches at several band heights.
+    let separate = 0;
+    let bottom = -1;
+    findings
+      .filter(other => sameColumns(other.rect, finding.rect))
+      .sort((a, b) => a.rect.y - b.rect.y)
+      .forEach(other => {
+        if (other.rect.y < bottom) return;
+        separate++;
+        bottom = other.rect.y + other.rect.height;
+      });
+    return separate >= MAX_REPEATS;
+  };
+  return findings.filter(finding => !isRepeated(finding));
+};
+
+// Half-size copy, where strokes of large lettering become thin enough to count.
+const halve = ({ grey, width, height }: GreyImage): GreyImage => {
+  const half = { grey: new Float32Array(Math.floor(width / 2) * Math.floor(height / 2)), width: Math.floor(width / 2), height: Math.floor(height / 2) };
+  for (let y = 0; y < half.height; y++) {
+    for (let x = 0; x < half.width; x++) {
+      const i = 2 * y * width + 2 * x;
+      half.grey[y * half.width + x] = (grey[i] + grey[i + 1] + grey[i + width] + grey[i + width + 1]) / 4;
+    }
+  }
+  return half;
+};
+
+/**
+ * Local check of a generated frame for text lines and corner watermarks. It
+ * is a heuristic, so findings mark the frame as suspicious, not certain.
+ */
+export const detectTextArtifacts = async (src: string): Promise<ArtifactFinding[]> => {
+  const fine = toGrey(await loadImage(src));
+  const coarse = halve(fine);
+  // Weak runs still count as repeats, so a grid of windows is dropped even
+  // where one of its rows happens to score well.
+  const findings = withoutRepeats([...findTextRegions(fine), ...findTextRegions(coarse)], CELL / coarse.width)
+    .filter(finding => finding.score >= MIN_SCORE);
+  const distinct: ArtifactFinding[] = [];
+  findings.sort((a, b) => b.score - a.score).forEach(finding => {
+    if (!distinct.some(kept => overlap(kept.rect, finding.rect) > 0.5)) distinct.push(finding);
+  });
+  return distinct.slice(0, MAX_FINDINGS);
+};
+
+const describePosition = ({ x, y, width, height }: NormalizedRect) => {
+  const cx = x + width / 2;
+  const cy = y + height / 2;
+  const vertical = cy < 1 / 3 ? 'trên' : cy > 2 / 3 ? 'dưới' : 'giữa';
+  const horizontal = cx < 1 / 3 ? 'trái' : cx > 2 / 3 ? 'phải' : 'giữa';
+  if (vertical === 'giữa' && horizontal === 'giữa') return 'giữa khung';
+  return vertical === 'giữa' ? `cạnh ${horizontal}` : horizontal === 'giữa' ? `cạnh ${vertical}` : `góc ${vertical} ${horizontal}`;
+};
+
+// e.g. "Nghi có watermark ở góc dưới phải; chữ ở giữa khung"
+export const describeArtifacts = (findings: ArtifactFinding[]): string =>
+  'Nghi có ' + findings
+    .map(finding => `${finding.kind === 'watermark' ? 'watermark' : 'chữ'} ở ${describePosition(finding.rect)}`)
+    .filter((text, index, all) => all.indexOf(text) === index)
+    .join('; ');
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { Character, StoryLocation } from '../types';
+import { findCharacter, findLocation, resolveCharacters, splitCharacterNames } from './CharacterMatcher';
+
+const character = (name: string, aliases: string[] = []): Character =>
+  ({ id: name, name, aliases, description: '', references: [] });
+
+const location = (name: string, aliases: string[] = []): StoryLocation =>
+  ({ id: name, name, aliases, description: '', references: [] });
+
+describe('splitCharacterNames', () => {
+  it('splits on separators and conjunctions and drops notes and quotes', () => {
+    expect(splitCharacterNames('"Claire Hartley" (CIL), Tom và Max; Bà Hà & Ông Tư / Lan and Minh'))
+      .toEqual(['Claire Hartley', 'Tom', 'Max', 'Bà Hà', 'Ông Tư', 'Lan', 'Minh']);
+  });
+
+  it.each(['Không', 'none', 'Không có', '-', ''])('reads "%s" as nobody', (text) => {
+    expect(splitCharacterNames(text)).toEqual([]);
+  });
+});
+
+describe('findCharacter', () => {
+  const claire = character('Claire');
+  const claireHartley = character('Claire Hartley', ['Mrs. Hartley']);
+  const tom = character('Tom', ['Claire Hartley Jr']);
+
+  it('matches names case-insensitively', () => {
+    expect(findCharacter('claire hartley', [claire, claireHartley])).toBe(claireHartley);
+  });
+
+  it('prefers the longest whole-word name over a shorter one listed first', () => {
+    expect(findCharacter('Old Claire Hartley', [claire, claireHartley])).toBe(claireHartley);
+    expect(findCharacter('Old Claire Hartley', [claireHartley, claire])).toBe(claireHartley);
+  });
+
+  it('lets an exact alias win over a longer name containing it', () => {
+    const hartley = character('Hartley', ['Claire']);
+    expect(findCharacter('Claire', [claireHartley, hartley])).toBe(hartley);
+  });
+
+  it('lets an exact name win over an alias of another item', () => {
+    expect(findCharacter('Claire Hartley Jr', [claireHartley, tom])).toBe(tom);
+    expect(findCharacter('Claire Hartley', [tom, claireHartley])).toBe(claireHartley);
+  });
+
+  it('matches aliases as whole words', () => {
+    expect(findCharacter('young Mrs. Hartley', [claire, claireHartley])).toBe(claireHartley);
+  });
+
+  it('does not match inside a longer word', () => {
+    expect(findCharacter('Tommy', [tom])).toBeUndefined();
+    expect(findCharacter('Claires', [claire])).toBeUndefined();
+  });
+
+  it('matches Vietnamese names whatever the Unicode normalization', () => {
+    const ha = character('Bà Hà');
+    const decomposed = 'bà hà'.normalize('NFD');
+    expect(findCharacter(decomposed, [ha])).toBe(ha);
+    expect(findCharacter('BÀ HÀ', [ha])).toBe(ha);
+  });
+
+  it('treats letters with diacritics as part of the word', () => {
+    const ha = character('Hà');
+    expect(findCharacter('Hàn', [ha])).toBeUndefined();
+    expect(findCharacter('cô Hà', [ha])).toBe(ha);
+    expect(findCharacter('Ha', [ha])).toBeUndefined();
+  });
+
+  it('returns nothing for a blank name', () => {
+    expect(findCharacter('  ', [claire])).toBeUndefined();
+  });
+});
+
+describe('findLocation', () => {
+  it('finds the set named inside a longer location line', () => {
+    const livingRoom = location('Living room', ['phòng khách']);
+    const room = location('Room');
+    expect(findLocation('in the living room', [room, livingRoom])).toBe(livingRoom);
+    expect(findLocation('Trong phòng khách', [room, livingRoom])).toBe(livingRoom);
+  });
+});
+
+describe('resolveCharacters', () => {
+  it('keeps the listed order and drops duplicates and unknown names', () => {
+    const claire = character('Claire Hartley', ['Claire']);
+    const tom = character('Tom');
+    expect(resolveCharacters('Tom, Claire, Claire Hartley và Max', [claire, tom])).toEqual([tom, claire]);
+  });
+});
@@ -0,0 +1,69 @@
+import { Character, StoryLocation } from '../types';
+
+const NO_CHARACTER_VALUES = ['không', 'none', 'không có', '-', ''];
+
+const normalize = (text: string) => text.normalize('NFC').toLowerCase().replace(/\s+/g, ' ').trim();
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// "Nhân vật: Claire Hartley, Tom và Max" -> ['Claire Hartley', 'Tom', 'Max']
+export const splitCharacterNames = (characterName: string): string[] =>
+  characterName
+    .split(/\s*(?:,|;|\/|&)\s*|\s+(?:và|and)\s+/i)
+    .map(name => name.replace(/\(.*?\)/g, '').replace(/["“”]/g, '').trim())
+    .filter(name => !NO_CHARACTER_VALUES.includes(name.toLowerCase()));
+
+interface Named {
+  name: string;
+  aliases: string[];
+}
+
+const namesOf = (item: Named): string[] =>
+  [item.name, ...item.aliases].map(normalize).filter(Boolean);
+
+const containsWords = (text: string, words: string) =>
+  new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(words)}(?![\\p{L}\\p{N}])`, 'u').test(text);
+
+/**
+ * Finds the item a script name refers to. An exact match on the name or an
+ * alias always wins; otherwise the longest name/alias that appears in the
+ * script name as whole words is used, so "Claire" never steals a scene that
+ * names "Claire Hartley".
+ */
+const findNamed = <T extends Named>(name: string, items: T[]): T | undefined => {
+  const target = normalize(name);
+  if (!target) return undefined;
+
+  const exact = items.find(item => namesOf(item).includes(target));
+  if (exact) return exact;
+
+  let best: { item: T; length: number } | undefined;
+  for (const item of items) {
+    for (const candidate of namesOf(item)) {
+      if (containsWords(target, candidate) && (!best || candidate.length > best.length)) {
+        best = { item, length: candidate.length };
+      }
+    }
+  }
+  return best?.item;
+};
+
+export const findCharacter = (name: string, characters: Character[]): Character | undefined =>
+  findNamed(name, characters);
+
+// Matches a scene's "Địa điểm" value ("in the living room") to a registered set.
+export const findLocation = (sceneLocation: string, locations: StoryLocation[]): StoryLocation | undefined =>
+  findNamed(sceneLocation, locations);
+
+// Resolves every character named in a scene's "Nhân vật" field, in the order
+// they are listed, without duplicates.
+export const resolveCharacters = (characterName: string, characters: Character[]): Character[] => {
+  const resolved: Character[] = [];
+  for (const name of splitCharacterNames(characterName)) {
+    const match = findCharacter(name, characters);
+    if (match && !resolved.includes(match)) {
+      resolved.push(match);
+    }
+  }
+  return resolved;
+};
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { Bounds, CropBox, fitRatio, MIN_CROP_SIZE, moveBox, resizeBox } from './CropGeometry';
+
+const BOUNDS: Bounds = { width: 400, height: 300 };
+const HANDLES = ['n', 's', 'e', 'w', 'ne', 'nw', 'se', 'sw'];
+
+const expectInside = (box: CropBox, bounds: Bounds) => {
+  expect(box.x).toBeGreaterThanOrEqual(-1e-9);
+  expect(box.y).toBeGreaterThanOrEqual(-1e-9);
+  expect(box.x + box.width).toBeLessThanOrEqual(bounds.width + 1e-9);
+  expect(box.y + box.height).toBeLessThanOrEqual(bounds.height + 1e-9);
+};
+
+describe('fitRatio', () => {
+  it('fills the limiting side of the bounds and keeps the centre', () => {
+    const centred = { x: 150, y: 100, width: 100, height: 100 };
+    expect(fitRatio(centred, 1, BOUNDS)).toEqual({ x: 50, y: 0, width: 300, height: 300 });
+    expect(fitRatio(centred, 16 / 9, BOUNDS)).toEqual({ x: 0, y: 37.5, width: 400, height: 225 });
+  });
+
+  it('slides the box back inside when the centre sits near an edge', () => {
+    expect(fitRatio({ x: 0, y: 0, width: 10, height: 10 }, 1, BOUNDS)).toEqual({ x: 0, y: 0, width: 300, height: 300 });
+    expect(fitRatio({ x: 380, y: 280, width: 20, height: 20 }, 2, BOUNDS)).toEqual({ x: 0, y: 100, width: 400, height: 200 });
+  });
+});
+
+describe('moveBox', () => {
+  const box = { x: 100, y: 100, width: 100, height: 50 };
+
+  it('moves by the pointer delta', () => {
+    expect(moveBox(box, 30, -20, BOUNDS)).toEqual({ x: 130, y: 80, width: 100, height: 50 });
+  });
+
+  it('stops at every edge without changing size', () => {
+    expect(moveBox(box, -500, -500, BOUNDS)).toEqual({ x: 0, y: 0, width: 100, height: 50 });
+    expect(moveBox(box, 500, 500, BOUNDS)).toEqual({ x: 300, y: 250, width: 100, height: 50 });
+  });
+});
+
+describe('resizeBox without a ratio', () => {
+  const box = { x: 100, y: 100, width: 100, height: 100 };
+
+  it('moves only the dragged edges', () => {
+    expect(resizeBox(box, 'se', 50, 20, null, BOUNDS)).toEqual({ x: 100, y: 100, width: 150, height: 120 });
+    expect(resizeBox(box, 'nw', -50, -20, null, BOUNDS)).toEqual({ x: 50, y: 80, width: 150, height: 120 });
+    expect(resizeBox(box, 'e', 50, 999, null, BOUNDS)).toEqual({ x: 100, y: 100, width: 150, height: 100 });
+  });
+
+  it('clamps to the bounds and to the minimum size', () => {
+    expect(resizeBox(box, 'se', 999, 999, null, BOUNDS)).toEqual({ x: 100, y: 100, width: 300, height: 200 });
+    expect(resizeBox(box, 'nw', -999, -999, null, BOUNDS)).toEqual({ x: 0, y: 0, width: 200, height: 200 });
+    expect(resizeBox(box, 'w', 999, 0, null, BOUNDS)).toEqual({ x: 180, y: 100, width: MIN_CROP_SIZE, height: 100 });
+    expect(resizeBox(box, 'n', 0, 999, null, BOUNDS)).toEqual({ x: 100, y: 180, width: 100, height: MIN_CROP_SIZE });
+  });
+});
+
+describe('resizeBox with a ratio', () => {
+  const box = { x: 100, y: 100, width: 100, height: 50 };
+
+  it('grows a corner along the axis the pointer moved further, from the opposite corner', () => {
+    expect(resizeBox(box, 'se', 20, 30, 2, BOUNDS)).toEqual({ x: 100, y: 100, width: 160, height: 80 });
+    expect(resizeBox(box, 'nw', -40, -10, 2, BOUNDS)).toEqual({ x: 60, y: 80, width: 140, height: 70 });
+  });
+
+  it('keeps the centre of the opposite edge', () => {
+    expect(resizeBox(box, 'e', 50, 0, 2, BOUNDS)).toEqual({ x: 100, y: 87.5, width: 150, height: 75 });
+    expect(resizeBox(box, 's', 0, 25, 2, BOUNDS)).toEqual({ x: 75, y: 100, width: 150, height: 75 });
+  });
+
+  it('stops growing at the bounds', () => {
+    expect(resizeBox(box, 'se', 999, 999, 2, BOUNDS)).toEqual({ x: 100, y: 100, width: 300, height: 150 });
+    // The centre is 50 px above the bottom, so the right edge can only grow the box to 100 px high.
+    expect(resizeBox({ x: 0, y: 240, width: 40, height: 20 }, 'e', 999, 0, 2, BOUNDS)).toEqual({ x: 0, y: 200, width: 200, height: 100 });
+  });
+
+  it('does not shrink below the minimum on either side', () => {
+    expect(resizeBox(box, 'se', -999, -999, 2, BOUNDS)).toEqual({ x: 100, y: 100, width: 2 * MIN_CROP_SIZE, height: MIN_CROP_SIZE });
+    expect(resizeBox(box, 'se', -999, -999, 0.5, BOUNDS)).toEqual({ x: 100, y: 100, width: MIN_CROP_SIZE, height: 2 * MIN_CROP_SIZE });
+  });
+
+  it('lets the frame win when the room left is under the minimum', () => {
+    // The centre is 7.5 px above the bottom, so the box may be at most 15 px high.
+    const squeezed = { x: 0, y: 285, width: 30, height: 15 };
+    expect(resizeBox(squeezed, 'e', -999, 0, 2, BOUNDS)).toEqual(squeezed);
+    expect(resizeBox(squeezed, 'e', 999, 0, 2, BOUNDS)).toEqual(squeezed);
+  });
+
+  it('keeps the ratio and stays inside the bounds for every handle and drag', () => {
+    const boxes = [box, { x: 0, y: 0, width: 60, height: 30 }, { x: 340, y: 270, width: 60, height: 30 }];
+    const deltas = [-999, -35, 0, 35, 999];
+    for (const start of boxes) {
+      for (const handle of HANDLES) {
+        for (const dx of deltas) {
+          for (const dy of deltas) {
+            const result = resizeBox(start, handle, dx, dy, 2, BOUNDS);
+            expect(result.width / result.height).toBeCloseTo(2);
+            expectInside(result, BOUNDS);
+          }
+        }
+      }
+    }
+  });
+});
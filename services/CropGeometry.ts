@@ -0,0 +1,79 @@
+// Crop box maths for the editor, in displayed pixels. `ratio` is width over
+// height; `null` means the box is free-form.
+
+export interface CropBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface Bounds {
+  width: number;
+  height: number;
+}
+
+export const MIN_CROP_SIZE = 20;
+
+export const moveBox = (box: CropBox, dx: number, dy: number, bounds: Bounds): CropBox => ({
+  ...box,
+  x: Math.max(0, Math.min(box.x + dx, bounds.width - box.width)),
+  y: Math.max(0, Math.min(box.y + dy, bounds.height - box.height)),
+});
+
+const resizeFree = (box: CropBox, handle: string, dx: number, dy: number, bounds: Bounds): CropBox => {
+  let left = box.x;
+  let top = box.y;
+  let right = box.x + box.width;
+  let bottom = box.y + box.height;
+  if (handle.includes('w')) left = Math.max(0, Math.min(left + dx, right - MIN_CROP_SIZE));
+  if (handle.includes('e')) right = Math.min(bounds.width, Math.max(right + dx, left + MIN_CROP_SIZE));
+  if (handle.includes('n')) top = Math.max(0, Math.min(top + dy, bottom - MIN_CROP_SIZE));
+  if (handle.includes('s')) bottom = Math.min(bounds.height, Math.max(bottom + dy, top + MIN_CROP_SIZE));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+// The corner or edge opposite the handle stays put (edges keep their centre),
+// and the box grows along whichever axis the pointer moved further.
+const resizeLocked = (box: CropBox, handle: string, dx: number, dy: number, ratio: number, bounds: Bounds): CropBox => {
+  const horizontal = handle.includes('e') || handle.includes('w');
+  const vertical = handle.includes('n') || handle.includes('s');
+  const widthFromX = box.width + (handle.includes('w') ? -dx : dx);
+  const heightFromY = box.height + (handle.includes('n') ? -dy : dy);
+
+  let width = horizontal && vertical
+    ? Math.max(widthFromX, heightFromY * ratio)
+    : horizontal ? widthFromX : heightFromY * ratio;
+
+  const anchorX = handle.includes('w') ? box.x + box.width : handle.includes('e') ? box.x : box.x + box.width / 2;
+  const anchorY = handle.includes('n') ? box.y + box.height : handle.includes('s') ? box.y : box.y + box.height / 2;
+  const maxWidth = handle.includes('w') ? anchorX : handle.includes('e') ? bounds.width - anchorX : 2 * Math.min(anchorX, bounds.width - anchorX);
+  const maxHeight = handle.includes('n') ? anchorY : handle.includes('s') ? bounds.height - anchorY : 2 * Math.min(anchorY, bounds.height - anchorY);
+  const minWidth = Math.max(MIN_CROP_SIZE, MIN_CROP_SIZE * ratio);
+  // Near an edge the room left can be under the minimum; staying inside the
+  // frame wins.
+  width = Math.min(Math.max(minWidth, width), maxWidth, maxHeight * ratio);
+  const height = width / ratio;
+
+  const x = handle.includes('w') ? anchorX - width : handle.includes('e') ? anchorX : anchorX - width / 2;
+  const y = handle.includes('n') ? anchorY - height : handle.includes('s') ? anchorY : anchorY - height / 2;
+  return { x, y, width, height };
+};
+
+export const resizeBox = (box: CropBox, handle: string, dx: number, dy: number, ratio: number | null, bounds: Bounds): CropBox =>
+  ratio ? resizeLocked(box, handle, dx, dy, ratio, bounds) : resizeFree(box, handle, dx, dy, bounds);
+
+// Largest box of `ratio` that fits the bounds, centred as close to `box`'s
+// centre as it can be.
+export const fitRatio = (box: CropBox, ratio: number, bounds: Bounds): CropBox => {
+  const width = Math.min(bounds.width, bounds.height * ratio);
+  const height = width / ratio;
+  const cx = box.x + box.width / 2;
+  const cy = box.y + box.height / 2;
+  return {
+    x: Math.max(0, Math.min(cx - width / 2, bounds.width - width)),
+    y: Math.max(0, Math.min(cy - height / 2, bounds.height - height)),
+    width,
+    height,
+  };
+};
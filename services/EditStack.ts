@@ -0,0 +1,179 @@
+import { AdjustmentKind, AspectRatio, EditStep, NormalizedRect } from '../types';
+import { aspectValue, loadImage } from './ImageUtils';
+
+export interface AdjustmentInfo {
+  kind: AdjustmentKind;
+  label: string;
+  min: number;
+  max: number;
+  // The amount at which the step leaves the image unchanged.
+  neutral: number;
+  unit: string;
+}
+
+export const ADJUSTMENTS: AdjustmentInfo[] = [
+  { kind: 'brightness', label: 'Độ sáng', min: 0, max: 200, neutral: 100, unit: '%' },
+  { kind: 'contrast', label: 'Tương phản', min: 0, max: 200, neutral: 100, unit: '%' },
+  { kind: 'saturation', label: 'Độ bão hòa', min: 0, max: 200, neutral: 100, unit: '%' },
+  { kind: 'hue', label: 'Sắc độ', min: -180, max: 180, neutral: 0, unit: '°' },
+  { kind: 'sepia', label: 'Sepia', min: 0, max: 100, neutral: 0, unit: '%' },
+  { kind: 'grayscale', label: 'Đen trắng', min: 0, max: 100, neutral: 0, unit: '%' },
+  { kind: 'temperature', label: 'Nhiệt độ màu', min: -100, max: 100, neutral: 0, unit: '' },
+  { kind: 'vignette', label: 'Tối viền', min: 0, max: 100, neutral: 0, unit: '%' },
+  { kind: 'sharpen', label: 'Làm nét', min: 0, max: 100, neutral: 0, unit: '%' },
+];
+
+export const getAdjustmentInfo = (kind: AdjustmentKind) => ADJUSTMENTS.find(a => a.kind === kind)!;
+
+export const FULL_FRAME: NormalizedRect = { x: 0, y: 0, width: 1, height: 1 };
+
+export const createAdjustStep = (kind: AdjustmentKind, amount = getAdjustmentInfo(kind).neutral): EditStep =>
+  ({ id: crypto.randomUUID(), type: 'adjust', kind, amount });
+
+export const createCropStep = (rect: NormalizedRect = FULL_FRAME, aspect?: AspectRatio): EditStep =>
+  ({ id: crypto.randomUUID(), type: 'crop', rect, aspect });
+
+// Largest centred rectangle of `aspect` in an image of the given pixel size.
+export const centeredAspectRect = (width: number, height: number, aspect: AspectRatio): NormalizedRect => {
+  const cropWidth = Math.min(width, height * aspectValue(aspect));
+  const cropHeight = cropWidth / aspectValue(aspect);
+  return {
+    x: (width - cropWidth) / 2 / width,
+    y: (height - cropHeight) / 2 / height,
+    width: cropWidth / width,
+    height: cropHeight / height,
+  };
+};
+
+export const describeStep = (step: EditStep) => {
+  if (step.type === 'crop') return step.aspect ? `Cắt khung ${step.aspect}` : 'Cắt khung';
+  const info = getAdjustmentInfo(step.kind);
+  return `${info.label} ${step.amount}${info.unit}`;
+};
+
+export interface FilterPreset {
+  id: string;
+  name: string;
+  adjustments: [AdjustmentKind, number][];
+}
+
+export const FILTER_PRESETS: FilterPreset[] = [
+  { id: 'warm', name: 'Ấm áp', adjustments: [['brightness', 105], ['contrast', 105], ['temperature', 35]] },
+  { id: 'vintage', name: 'Hoài cổ', adjustments: [['brightness', 95], ['contrast', 90], ['sepia', 60], ['vignette', 40]] },
+  { id: 'noir', name: 'Đen trắng', adjustments: [['grayscale', 100], ['contrast', 130], ['vignette', 30]] },
+  { id: 'punchy', name: 'Tương phản cao', adjustments: [['contrast', 140], ['saturation', 120], ['sharpen', 30]] },
+  { id: 'faded', name: 'Nhạt màu', adjustments: [['brightness', 110], ['contrast', 80], ['saturation', 70], ['temperature', -15]] },
+];
+
+// Fresh steps each time, so a preset applied twice can be edited independently.
+export const presetSteps = (preset: FilterPreset): EditStep[] =>
+  preset.adjustments.map(([kind, amount]) => createAdjustStep(kind, amount));
+
+const CSS_FILTERS: Partial<Record<AdjustmentKind, (amount: number) => string>> = {
+  brightness: amount => `brightness(${amount}%)`,
+  contrast: amount => `contrast(${amount}%)`,
+  saturation: amount => `saturate(${amount}%)`,
+  hue: amount => `hue-rotate(${amount}deg)`,
+  sepia: amount => `sepia(${amount}%)`,
+  grayscale: amount => `grayscale(${amount}%)`,
+};
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas context not available');
+  return { canvas, ctx };
+};
+
+const mapPixels = (canvas: HTMLCanvasElement, transform: (data: Uint8ClampedArray, width: number, height: number) => Uint8ClampedArray) => {
+  const ctx = canvas.getContext('2d')!;
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const result = transform(imageData.data, canvas.width, canvas.height);
+  if (result !== imageData.data) imageData.data.set(result);
+  ctx.putImageData(imageData, 0, 0);
+  return canvas;
+};
+
+// Warm shifts red up and blue down, cool the opposite.
+const temperature = (amount: number) => (data: Uint8ClampedArray) => {
+  const shift = amount * 0.3;
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] += shift;
+    data[i + 2] -= shift;
+  }
+  return data;
+};
+
+// 3×3 unsharp kernel; the edge rows and columns are left as they are.
+const sharpen = (amount: number) => (data: Uint8ClampedArray, width: number, height: number) => {
+  const k = amount / 100;
+  const out = new Uint8ClampedArray(data);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = (y * width + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        const neighbours = data[i - 4 + c] + data[i + 4 + c] + data[i - width * 4 + c] + data[i + width * 4 + c];
+        out[i + c] = data[i + c] * (1 + 4 * k) - neighbours * k;
+      }
+    }
+  }
+  return out;
+};
+
+const applyStep = (source: HTMLCanvasElement, step: EditStep): HTMLCanvasElement => {
+  if (step.type === 'crop') {
+    const { x, y, width, height } = step.rect;
+    const { canvas, ctx } = createCanvas(width * source.width, height * source.height);
+    ctx.drawImage(source, x * source.width, y * source.height, width * source.width, height * source.height, 0, 0, canvas.width, canvas.height);
+    return canvas;
+  }
+
+  if (step.amount === getAdjustmentInfo(step.kind).neutral) return source;
+  const cssFilter = CSS_FILTERS[step.kind];
+  const { canvas, ctx } = createCanvas(source.width, source.height);
+  if (cssFilter) ctx.filter = cssFilter(step.amount);
+  ctx.drawImage(source, 0, 0);
+  ctx.filter = 'none';
+
+  switch (step.kind) {
+    case 'temperature':
+      return mapPixels(canvas, temperature(step.amount));
+    case 'sharpen':
+      return mapPixels(canvas, sharpen(step.amount));
+    case 'vignette': {
+      const radius = Math.hypot(canvas.width, canvas.height) / 2;
+      const gradient = ctx.createRadialGradient(canvas.width / 2, canvas.height / 2, radius * 0.45, canvas.width / 2, canvas.height / 2, radius);
+      gradient.addColorStop(0, 'rgba(0, 0, 0, 0)');
+      gradient.addColorStop(1, `rgba(0, 0, 0, ${(step.amount / 100) * 0.85})`);
+      ctx.fillStyle = gradient;
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      return canvas;
+    }
+    default:
+      return canvas;
+  }
+};
+
+/**
+ * Runs `steps` in order over `img`, optionally scaled down first so the long
+ * side is at most `maxSize` (used for the live preview).
+ */
+export const applyEditSteps = (img: HTMLImageElement, steps: EditStep[], maxSize?: number): HTMLCanvasElement => {
+  const scale = maxSize ? Math.min(1, maxSize / Math.max(img.naturalWidth, img.naturalHeight)) : 1;
+  const { canvas, ctx } = createCanvas(img.naturalWidth * scale, img.naturalHeight * scale);
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return steps.reduce(applyStep, canvas);
+};
+
+// Bakes the stack into a full-resolution PNG.
+export const renderEditStack = async (src: string, steps: EditStep[]): Promise<string> =>
+  applyEditSteps(await loadImage(src), steps).toDataURL('image/png');
+
+// The image cut to a delivery format: the stored reframe, or a centred crop.
+export const reframeImage = async (src: string, aspect: AspectRatio, rect?: NormalizedRect): Promise<string> => {
+  const img = await loadImage(src);
+  const crop = rect ?? centeredAspectRect(img.naturalWidth, img.naturalHeight, aspect);
+  return applyEditSteps(img, [createCropStep(crop, aspect)]).toDataURL('image/png');
+};
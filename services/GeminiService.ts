@@ -1,5 +1,8 @@
-import { GoogleGenAI, Modality } from "@google/genai";
-import { AspectRatio, Character } from '../types';
+import { FinishReason, GenerateContentResponse, GoogleGenAI, Modality, SafetyRating } from "@google/genai";
+import { ImageEditRequest, ImageGenerationRequest, ImageProvider } from '../types';
+import { classifyError, GenerationError, isAbortError } from './GenerationError';
+import { renderInpaintPrompt } from './Inpainting';
+import { AttachedReference, collectReferences, renderRefinePrompt, renderScenePrompt } from './PromptBuilder';
 
 // Lazily initialize the GoogleGenAI instance to allow the main App component
 // to set up a mock API key in a browser environment before the first API call.
@@ -9,77 +12,81 @@ const getAiInstance = () => {
     if (!process.env.API_KEY) {
       // This will now throw at runtime during the first API call if the key is still missing,
       // which is the correct behavior, instead of throwing on module load.
-      throw new Error("API_KEY environment variable not set");
+      throw new GenerationError('auth', "API_KEY environment variable not set");
     }
     ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
   }
   return ai;
 }
 
-export const generateImage = async (prompt: string, storyContext: string, artStyle: string, aspectRatio: AspectRatio, characterRef?: Character, previousImageBase64?: string, isVariant: boolean = false): Promise<string> => {
-  try {
-    let finalPrompt = `**VAI TRÒ & NHIỆM VỤ (QUAN TRỌNG NHẤT):**
-BẠN LÀ một họa sĩ storyboard kỳ cựu cho các hãng phim hoạt hình hàng đầu thế giới, một bậc thầy về kể chuyện bằng hình ảnh. Nhiệm vụ của bạn không phải là "tạo ảnh", mà là **"đạo diễn từng khung hình"** để lột tả cảm xúc và câu chuyện một cách sâu sắc nhất.
+const SUPPORTED_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/heic', 'image/heif'];
 
----
+// Catches unusable uploads before they cost a request.
+const validateReference = ({ label, reference }: AttachedReference) => {
+  if (!SUPPORTED_MIME_TYPES.includes(reference.mimeType)) {
+    throw new GenerationError('invalidReference', `${label}: unsupported image type "${reference.mimeType || 'unknown'}".`);
+  }
+  if (!reference.imageBase64) {
+    throw new GenerationError('invalidReference', `${label}: the image data is empty.`);
+  }
+};
 
-**Bối cảnh câu chuyện tổng thể:**
-${storyContext}
+const BLOCKING_FINISH_REASONS: string[] = [
+  FinishReason.SAFETY,
+  FinishReason.IMAGE_SAFETY,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.IMAGE_PROHIBITED_CONTENT,
+  FinishReason.BLOCKLIST,
+  FinishReason.SPII,
+  FinishReason.RECITATION,
+  FinishReason.IMAGE_RECITATION,
+];
 
---- MỆNH LỆNH TỐI THƯỢỢNG (TUÂN THỦ TUYỆT ĐỐI) ---
-`;
-    let commandCounter = 1;
+const blockedCategories = (ratings: SafetyRating[] | undefined) =>
+  (ratings ?? []).filter(rating => rating.blocked && rating.category).map(rating => rating.category as string);
 
-    finalPrompt += `${commandCounter++}. **CHẤT LƯỢNG NGHỆ THUẬT & ĐIỆN ẢNH:**
-   - **Tư duy như đạo diễn:** Mỗi khung hình phải là một tác phẩm nghệ thuật, không phải ảnh stock.
-   - **Bố cục (Composition):** Sử dụng các quy tắc điện ảnh (một phần ba, đường dẫn, khung trong khung) để tạo chiều sâu và hướng sự chú ý.
-   - **Ánh sáng (Lighting):** Dùng ánh sáng để điêu khắc nhân vật, tạo không khí (mood), và dẫn dắt cảm xúc. Ánh sáng phải có mục đích.
-   - **Màu sắc (Color):** Bảng màu phải củng cố cảm xúc của cảnh (ấm, lạnh, tương phản...).
-   - **Diễn xuất nhân vật (Character Acting):** Biểu cảm và ngôn ngữ cơ thể phải tinh tế, chân thực, và có hồn. Lột tả nội tâm nhân vật.
-   - **Không khí (Atmosphere):** Hình ảnh phải có không khí mơ mộng, nghệ thuật, giàu cảm xúc.\n`;
+// Returns the image data, or throws a GenerationError explaining why there is none.
+const extractImage = (response: GenerateContentResponse): string => {
+  const { promptFeedback } = response;
+  if (promptFeedback?.blockReason) {
+    throw new GenerationError('safety', `The prompt was blocked (${promptFeedback.blockReason}).`, {
+      finishReason: promptFeedback.blockReason,
+      blockCategories: blockedCategories(promptFeedback.safetyRatings),
+    });
+  }
 
-    if (artStyle && artStyle.trim() !== '') {
-      finalPrompt += `${commandCounter++}. **PHONG CÁCH NGHỆ THUẬT BẮT BUỘC:** Toàn bộ hình ảnh phải tuân thủ nghiêm ngặt theo phong cách sau đây: **${artStyle.trim()}**. Đây là chỉ dẫn quan trọng nhất về mặt thẩm mỹ.\n`;
-    }
-    
-    finalPrompt += `${commandCounter++}. **MỆNH LỆNH BẤT KHẢ XÂM PHẠM: HÌNH ẢNH SẠCH TUYỆT ĐỐI:**
-   - **QUY TẮC VÀNG: KHÔNG VĂN BẢN:** Hình ảnh KHÔNG ĐƯỢC PHÉP chứa BẤT KỲ loại văn bản, chữ cái, hay ký tự nào. Đây là luật lệ tối cao và không có ngoại lệ.
-   - **CHUYỂN HÓA LỜI THOẠI:** Nếu prompt chứa lời thoại (trong dấu "..." hoặc '...'), nhiệm vụ của bạn là **CHUYỂN HÓA** nó thành **BIỂU CẢM VÀ HÀNH ĐỘNG**. Ví dụ: thay vì viết chữ "Cứu!", hãy vẽ nhân vật đang hét lên với vẻ mặt hoảng sợ. **TUYỆT ĐỐI KHÔNG VIẾT CHỮ LÊN ẢNH.**
-   - **CẤM LOGO, WATERMARK, CHỮ KÝ:** TUYỆT ĐỐI không vẽ bất kỳ logo (kể cả logo Gemini), watermark, hay chữ ký nghệ sĩ nào.
-   - **HẬU QUẢ:** Việc xuất hiện dù chỉ một ký tự hay logo trên ảnh sẽ bị coi là một thất bại hoàn toàn.\n`;
-    
-    if (!isVariant) {
-      finalPrompt += `${commandCounter++}.  **ƯU TIÊN SỰ TIẾN TRIỂN CẢNH:** Hình ảnh phải thể hiện một khoảnh khắc **HOÀN TOÀN MỚI**. Phải ưu tiên tuyệt đối cho câu lệnh của cảnh hiện tại. Bố cục, góc máy và hành động phải khác biệt rõ rệt so với cảnh trước. **KHÔNG ĐƯỢC LẶP LẠI BỐ CỤC CẢNH TRƯỚC.**\n`;
-    }
-    
-    finalPrompt += `${commandCounter++}.  **HÀNH ĐỘNG CHÍNH XÁC 100%:** Phải phân tích kỹ và thể hiện chính xác tuyệt đối hành động được mô tả trong câu lệnh (ví dụ: "nhìn" khác với "ôm").\n\n`;
+  const candidate = response.candidates?.[0];
+  const finishReason = candidate?.finishReason;
+  if (finishReason && BLOCKING_FINISH_REASONS.includes(finishReason)) {
+    throw new GenerationError('safety', `The image was blocked (${finishReason}).`, {
+      finishReason,
+      blockCategories: blockedCategories(candidate?.safetyRatings),
+    });
+  }
 
+  const parts = candidate?.content?.parts ?? [];
+  const image = parts.find(part => part.inlineData?.data);
+  if (image) {
+    return image.inlineData!.data!;
+  }
 
-    finalPrompt += `--- QUY TẮC NHẤT QUÁN (ÁP DỤNG SAU KHI ĐÃ TUÂN THỦ MỆNH LỆNH TỐI THƯỢỢNG) ---\n\n`;
-    
-    // Dynamically generate consistency rules based on provided reference images
-    if (characterRef && previousImageBase64) {
-      finalPrompt += `**LUẬT VỀ HÌNH ẢNH THAM CHIẾU (CỰC KỲ QUAN TRỌNG):** Bạn được cung cấp HAI (2) hình ảnh tham chiếu đi kèm câu lệnh này.
-- **HÌNH 1 (THAM CHIẾU NHÂN VẬT):** Đây là hình ảnh GỐC định nghĩa ngoại hình chuẩn của nhân vật **'${characterRef.name}'**. TUYỆT ĐỐI giữ nguyên 100% các đặc điểm nhận dạng (khuôn mặt, kiểu tóc, màu da, và đặc biệt là **TRANG PHỤC**). Trang phục trong hình tham chiếu là **LUẬT BẤT BIẾN** và việc thay đổi nó bị coi là một lỗi nghiêm trọng.
-- **HÌNH 2 (THAM CHIẾU PHONG CÁCH):** Đây là hình ảnh của cảnh LIỀN KỀ TRƯỚC ĐÓ. BẮT BUỘC phải sao chép và áp dụng y hệt **PHONG CÁCH NGHỆ THUẬT, TÔNG MÀU, VÀ KHÔNG KHÍ ÁNH SÁNG** từ hình ảnh này. Mục tiêu là tạo ra sự liền mạch tuyệt đối, như thể hai cảnh phim được cắt từ cùng một bộ phim.
-**VIỆC THAY ĐỔI NHÂN VẬT HOẶC PHONG CÁCH SO VỚI HAI HÌNH THAM CHIẾU NÀY BỊ COI LÀ LỖI NGHIÊM TRỌNG NHẤT.**\n\n`;
-    } else if (characterRef) {
-      finalPrompt += `**LUẬT VỀ HÌNH ẢNH THAM CHIẾU (CỰC KỲ QUAN TRỌNG):** Bạn được cung cấp MỘT (1) hình ảnh tham chiếu GỐC của nhân vật **'${characterRef.name}'**. TUYỆT ĐỐI giữ nguyên 100% các đặc điểm nhận dạng (khuôn mặt, kiểu tóc, màu da, và đặc biệt là **TRANG PHỤC**). Trang phục trong hình tham chiếu là **LUẬT BẤT BIẾN** và việc thay đổi nó bị coi là một lỗi nghiêm trọng.\n\n`;
-    } else if (previousImageBase64) {
-      finalPrompt += `**LUẬT VỀ HÌNH ẢNH THAM CHIẾU (CỰC KỲ QUAN TRỌNG):** Bạn được cung cấp MỘT (1) hình ảnh tham chiếu là cảnh LIỀN KỀ TRƯỚC ĐÓ. BẮT BUỘC phải sao chép và áp dụng y hệt **PHONG CÁCH NGHỆ THUẬT, TÔNG MÀU, VÀ KHÔNG KHÍ ÁNH SÁNG** từ hình ảnh này để đảm bảo sự liền mạch.\n\n`;
-    }
+  // The model sometimes answers in text instead; keep that as the reason.
+  const text = parts.map(part => part.text ?? '').join(' ').trim();
+  throw new GenerationError('noImage', text ? `No image returned: ${text}` : 'No image returned.', { finishReason });
+};
 
-    finalPrompt += `- **GHI NHỚ BỐI CẢNH:** Khi một địa điểm đã được thiết lập (ví dụ: một căn phòng có cái đèn), các yếu tố kiến trúc và đồ đạc chính của nó **BẮT BUỘC PHẢI ĐƯỢC GIỮ NGUYÊN** trong các cảnh sau diễn ra tại cùng địa điểm.\n`;
-    finalPrompt += `- **LOGIC THỜI GIAN VÀ ĐỊA ĐIỂM:** Phải duy trì sự liên tục và hợp lý. **Hãy phân tích và tuân thủ chặt chẽ các chi tiết về thời gian (sáng, tối, ngày, đêm) và địa điểm được cung cấp.**\n\n`;
-    
-    finalPrompt += `--- PROMPT CỤ THỂ CHO CẢNH NÀY ---\n`;
-    finalPrompt += `${prompt}`;
+const generateImage = async (model: string, request: ImageGenerationRequest, signal?: AbortSignal): Promise<string> => {
+  const { aspectRatio, characterRefs, locationRef, previousImage: previousImageBase64 } = request;
+  try {
+    const finalPrompt = renderScenePrompt(request);
+    const references = collectReferences(characterRefs, locationRef, request.template.language);
+    references.forEach(validateReference);
 
     const currentAi = getAiInstance();
     
     const parts: any[] = [{ text: finalPrompt }];
     
-    // Add previous scene image first (will become the second image reference for the AI)
+    // Add previous scene image first (will become the last image reference for the AI)
     if (previousImageBase64) {
         const base64Data = previousImageBase64.split(',')[1];
         parts.unshift({
@@ -90,20 +97,21 @@ ${storyContext}
         });
     }
 
-    // Add character master reference image second (will become the first image reference)
-    if (characterRef) {
+    // Add character and location reference images before it, in the order they are numbered in the prompt
+    for (const { reference } of [...references].reverse()) {
         parts.unshift({
             inlineData: {
-                mimeType: characterRef.mimeType,
-                data: characterRef.imageBase64,
+                mimeType: reference.mimeType,
+                data: reference.imageBase64,
             }
         });
     }
 
     const response = await currentAi.models.generateContent({
-        model: 'gemini-2.5-flash-image',
+        model,
         contents: { parts: parts },
         config: {
+          abortSignal: signal,
           responseModalities: [Modality.IMAGE],
           imageConfig: {
             aspectRatio: aspectRatio,
@@ -111,15 +119,72 @@ ${storyContext}
         },
     });
 
-    for (const part of response.candidates?.[0]?.content?.parts ?? []) {
-      if (part.inlineData) {
-        return part.inlineData.data;
-      }
-    }
-
-    throw new Error("No image data found in API response.");
+    return extractImage(response);
   } catch (error) {
+    if (isAbortError(error)) throw error;
     console.error("Error generating image:", error);
-    throw new Error("Failed to generate image. Check console for details.");
+    throw classifyError(error);
+  }
+};
+
+const inlineImage = (dataUrl: string) => {
+  const match = dataUrl.match(/^data:([^;,]+);base64,(.+)$/s);
+  if (!match) throw new GenerationError('invalidReference', 'The image or mask to edit is not a data URL.');
+  return { inlineData: { mimeType: match[1], data: match[2] } };
+};
+
+// The frame and its mask go first, then the instruction; the model keeps the
+// frame's own size, so no aspect ratio is requested.
+const editImage = async (model: string, request: ImageEditRequest, signal?: AbortSignal): Promise<string> => {
+  try {
+    const response = await getAiInstance().models.generateContent({
+      model,
+      contents: { parts: [
+        inlineImage(request.image),
+        inlineImage(request.mask),
+        { text: renderInpaintPrompt(request.instruction) },
+      ] },
+      config: {
+        abortSignal: signal,
+        responseModalities: [Modality.IMAGE],
+      },
+    });
+
+    return extractImage(response);
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error("Error editing image:", error);
+    throw classifyError(error);
+  }
+};
+
+// Iterates on the frame itself: the base image and the instruction are all
+// that is sent, so the composition carries over.
+const refineImage = async (model: string, request: ImageGenerationRequest, signal?: AbortSignal): Promise<string> => {
+  const { baseImage, instruction } = request.refinement!;
+  try {
+    const response = await getAiInstance().models.generateContent({
+      model,
+      contents: { parts: [
+        inlineImage(baseImage),
+        { text: renderRefinePrompt(instruction, request.template.language) },
+      ] },
+      config: {
+        abortSignal: signal,
+        responseModalities: [Modality.IMAGE],
+      },
+    });
+
+    return extractImage(response);
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error("Error refining image:", error);
+    throw classifyError(error);
   }
-};
\ No newline at end of file
+};
+
+export const createGeminiProvider = (model: string): ImageProvider => ({
+  id: 'gemini',
+  generate: (request, signal) => request.refinement ? refineImage(model, request, signal) : generateImage(model, request, signal),
+  edit: (request, signal) => editImage(model, request, signal),
+});
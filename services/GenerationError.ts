@@ -0,0 +1,64 @@
+import { ApiError } from "@google/genai";
+import { GenerationErrorDetails, GenerationErrorKind, GenerationFailure } from "../types";
+
+// Kinds that can succeed on a later attempt without the user changing anything.
+const RETRYABLE_KINDS: GenerationErrorKind[] = ['quota', 'noImage', 'network', 'server', 'artifact', 'unknown'];
+
+export class GenerationError extends Error {
+  readonly kind: GenerationErrorKind;
+  readonly details: GenerationErrorDetails;
+
+  constructor(kind: GenerationErrorKind, message: string, details: GenerationErrorDetails = {}, cause?: unknown) {
+    super(message, { cause });
+    this.name = 'GenerationError';
+    this.kind = kind;
+    this.details = details;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+}
+
+export const isAbortError = (error: unknown) =>
+  error instanceof Error && error.name === 'AbortError';
+
+export const isRetryable = (error: unknown) =>
+  !(error instanceof GenerationError) || error.retryable;
+
+/**
+ * Maps whatever the SDK or the browser threw onto a GenerationError.
+ * Errors that are already classified pass through unchanged.
+ */
+export const classifyError = (error: unknown): GenerationError => {
+  if (error instanceof GenerationError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (error instanceof ApiError) {
+    const { status } = error;
+    if (status === 401 || status === 403 || /api[_ ]?key/i.test(message)) {
+      return new GenerationError('auth', `The API key was rejected (HTTP ${status}).`, { status }, error);
+    }
+    if (status === 429 || /RESOURCE_EXHAUSTED|quota/i.test(message)) {
+      return new GenerationError('quota', `Quota or rate limit exceeded (HTTP ${status}).`, { status }, error);
+    }
+    if (status === 400 && /image/i.test(message)) {
+      return new GenerationError('invalidReference', `A reference image was rejected: ${message}`, { status }, error);
+    }
+    if (status >= 500) {
+      return new GenerationError('server', `The image service failed (HTTP ${status}).`, { status }, error);
+    }
+    return new GenerationError('unknown', message, { status }, error);
+  }
+
+  if (error instanceof TypeError || (typeof navigator !== 'undefined' && !navigator.onLine)) {
+    return new GenerationError('network', `Network request failed: ${message}`, {}, error);
+  }
+
+  return new GenerationError('unknown', message, {}, error);
+};
+
+export const toFailure = (error: unknown): GenerationFailure => {
+  const { kind, message, details } = classifyError(error);
+  return { kind, message, ...details };
+};
@@ -0,0 +1,236 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { abortableSleep, createRateLimiter, createSemaphore, runScheduled, ScheduledTask } from './GenerationScheduler';
+
+// Settles a promise-returning call into something a test can poll.
+const track = <T>(promise: Promise<T>) => {
+  const state: { settled: boolean; value?: T; error?: unknown } = { settled: false };
+  promise.then(
+    value => Object.assign(state, { settled: true, value }),
+    error => Object.assign(state, { settled: true, error }),
+  );
+  return state;
+};
+
+const deferred = <T>() => {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(res => {
+    resolve = res;
+  });
+  return { promise, resolve };
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('createRateLimiter', () => {
+  it('lets the limit through at once and the next request when the first leaves the window', async () => {
+    const limiter = createRateLimiter(2);
+    expect(await limiter.acquire()).toBe(true);
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(await limiter.acquire()).toBe(true);
+
+    const third = track(limiter.acquire());
+    await vi.advanceTimersByTimeAsync(49_999);
+    expect(third.settled).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(third).toMatchObject({ settled: true, value: true });
+
+    // The second request still fills the window for another ten seconds.
+    const fourth = track(limiter.acquire());
+    await vi.advanceTimersByTimeAsync(9_999);
+    expect(fourth.settled).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fourth.value).toBe(true);
+  });
+
+  it('gives up within a poll step once asked to stop', async () => {
+    const limiter = createRateLimiter(1);
+    await limiter.acquire();
+    let stop = false;
+    const waiting = track(limiter.acquire(() => stop));
+    await vi.advanceTimersByTimeAsync(5_000);
+    stop = true;
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(waiting).toMatchObject({ settled: true, value: false });
+  });
+
+  it('applies a raised limit to requests already waiting', async () => {
+    const limiter = createRateLimiter(1);
+    await limiter.acquire();
+    const waiting = track(limiter.acquire());
+    limiter.setLimit(2);
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(waiting.value).toBe(true);
+  });
+});
+
+describe('createSemaphore', () => {
+  it('hands slots out in order as they are released', async () => {
+    const semaphore = createSemaphore(1);
+    expect(await semaphore.acquire()).toBe(true);
+    const second = track(semaphore.acquire());
+    const third = track(semaphore.acquire());
+    await vi.advanceTimersByTimeAsync(0);
+    expect([second.settled, third.settled]).toEqual([false, false]);
+
+    semaphore.release();
+    await vi.advanceTimersByTimeAsync(0);
+    expect([second.value, third.settled]).toEqual([true, false]);
+  });
+
+  it('drops a waiter whose signal aborts without using up a slot', async () => {
+    const semaphore = createSemaphore(1);
+    await semaphore.acquire();
+    const controller = new AbortController();
+    const aborted = track(semaphore.acquire(controller.signal));
+    const next = track(semaphore.acquire());
+    controller.abort();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(aborted.value).toBe(false);
+
+    semaphore.release();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(next.value).toBe(true);
+  });
+
+  it('refuses at once when the signal already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    expect(await createSemaphore(1).acquire(controller.signal)).toBe(false);
+  });
+
+  it('lets waiters in when the limit goes up and holds them back when it goes down', async () => {
+    const semaphore = createSemaphore(1);
+    await semaphore.acquire();
+    const second = track(semaphore.acquire());
+    semaphore.setLimit(2);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(second.value).toBe(true);
+
+    semaphore.setLimit(1);
+    const third = track(semaphore.acquire());
+    semaphore.release();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(third.settled).toBe(false);
+    semaphore.release();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(third.value).toBe(true);
+  });
+});
+
+describe('abortableSleep', () => {
+  it('resolves after the delay', async () => {
+    const sleeping = track(abortableSleep(500));
+    await vi.advanceTimersByTimeAsync(499);
+    expect(sleeping.settled).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(sleeping).toEqual({ settled: true, value: undefined });
+  });
+
+  it('rejects with the abort reason without waiting out the delay', async () => {
+    const controller = new AbortController();
+    const sleeping = track(abortableSleep(10_000, controller.signal));
+    controller.abort('stop');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(sleeping.error).toBe('stop');
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('rejects at once when the signal already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort('stop');
+    await expect(abortableSleep(10_000, controller.signal)).rejects.toBe('stop');
+  });
+});
+
+describe('runScheduled', () => {
+  const schedule = (tasks: ScheduledTask<string>[], limit = 2, signal = new AbortController().signal) => {
+    const order: string[] = [];
+    const result = runScheduled(tasks, {
+      semaphore: createSemaphore(limit),
+      signal,
+      onSettled: (id) => order.push(id),
+    });
+    return { result, order };
+  };
+
+  it('waits for a dependency listed after the task and passes its value on', async () => {
+    const received: (string | undefined)[] = [];
+    const { result, order } = schedule([
+      { id: 'b', dependsOn: ['a'], run: async (previous) => { received.push(previous); return 'B'; } },
+      { id: 'a', run: async () => 'A' },
+    ]);
+    const outcomes = await result;
+    expect(received).toEqual(['A']);
+    expect(order).toEqual(['a', 'b']);
+    expect(outcomes.get('b')).toEqual({ status: 'succeeded', value: 'B' });
+  });
+
+  it('starts with the first dependency to succeed', async () => {
+    const slow = deferred<string>();
+    const received: (string | undefined)[] = [];
+    const { result } = schedule([
+      { id: 'a#0', run: () => slow.promise },
+      { id: 'a#1', run: async () => 'A1' },
+      { id: 'b', dependsOn: ['a#0', 'a#1'], run: async (previous) => { received.push(previous); return 'B'; } },
+    ], 3);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(received).toEqual(['A1']);
+    slow.resolve('A0');
+    await result;
+    expect(received).toEqual(['A1']);
+  });
+
+  it('still runs a task whose dependencies all failed, without a value', async () => {
+    const received: (string | undefined)[] = [];
+    const { result } = schedule([
+      { id: 'a', run: async () => { throw new Error('boom'); } },
+      { id: 'b', dependsOn: ['a'], run: async (previous) => { received.push(previous); return 'B'; } },
+    ]);
+    const outcomes = await result;
+    expect(outcomes.get('a')).toMatchObject({ status: 'failed', error: new Error('boom') });
+    expect(received).toEqual([undefined]);
+    expect(outcomes.get('b')).toEqual({ status: 'succeeded', value: 'B' });
+  });
+
+  it('never runs more tasks at once than the semaphore allows', async () => {
+    let running = 0;
+    let peak = 0;
+    const task = (id: string): ScheduledTask<string> => ({
+      id,
+      run: async () => {
+        peak = Math.max(peak, ++running);
+        await abortableSleep(100);
+        running--;
+        return id;
+      },
+    });
+    const { result } = schedule(['a', 'b', 'c', 'd', 'e'].map(task), 2);
+    await vi.advanceTimersByTimeAsync(300);
+    const outcomes = await result;
+    expect(peak).toBe(2);
+    expect([...outcomes.values()].every(outcome => outcome.status === 'succeeded')).toBe(true);
+  });
+
+  it('cancels waiting tasks and tasks that finish after an abort', async () => {
+    const controller = new AbortController();
+    const running = deferred<string>();
+    const started: string[] = [];
+    const { result } = schedule([
+      { id: 'a', run: () => { started.push('a'); return running.promise; } },
+      { id: 'b', run: async () => { started.push('b'); return 'B'; } },
+      { id: 'c', dependsOn: ['a'], run: async () => { started.push('c'); return 'C'; } },
+    ], 1, controller.signal);
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort();
+    running.resolve('A');
+    const outcomes = await result;
+    expect(started).toEqual(['a']);
+    expect([...outcomes.values()]).toEqual([{ status: 'cancelled' }, { status: 'cancelled' }, { status: 'cancelled' }]);
+  });
+});
@@ -0,0 +1,198 @@
+import { GenerationSettings, Scene } from '../types';
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  concurrency: 2,
+  requestsPerMinute: 10,
+  chainScenes: true,
+  candidatesPerScene: 1,
+  artifactCheck: 'flag',
+};
+
+const normalizeLocation = (location: string) => location.normalize('NFC').toLowerCase().replace(/\s+/g, ' ').trim();
+
+// A scene waits for (and uses the image of) its predecessor unless chaining is
+// off or it moves to a different location, in which case it can run in parallel.
+export const isChainedScene = (scene: Scene, previous: Scene | undefined, settings: GenerationSettings): boolean => {
+  if (!settings.chainScenes || !previous) return false;
+  if (!scene.location || !previous.location) return true;
+  return normalizeLocation(scene.location) === normalizeLocation(previous.location);
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Like `sleep`, but rejects with the signal's reason as soon as it aborts.
+export const abortableSleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+export interface RateLimiter {
+  // Resolves once a request may be sent; resolves `false` if `shouldStop`
+  // turned true while waiting for a slot.
+  acquire: (shouldStop?: () => boolean) => Promise<boolean>;
+  // Takes effect for the next request; requests already sent still count.
+  setLimit: (requestsPerMinute: number) => void;
+}
+
+// Sliding one-minute window shared by every request sent through it, retries included.
+export const createRateLimiter = (requestsPerMinute: number): RateLimiter => {
+  const WINDOW_MS = 60_000;
+  const sent: number[] = [];
+  let limit = requestsPerMinute;
+
+  return {
+    acquire: async (shouldStop) => {
+      while (true) {
+        if (shouldStop?.()) return false;
+        const now = Date.now();
+        while (sent.length > 0 && now - sent[0] >= WINDOW_MS) sent.shift();
+        if (sent.length < limit) {
+          sent.push(now);
+          return true;
+        }
+        // Poll in short steps so a stop request doesn't wait out the window.
+        await sleep(Math.min(1000, WINDOW_MS - (now - sent[0])));
+      }
+    },
+    setLimit: (requestsPerMinute) => {
+      limit = requestsPerMinute;
+    },
+  };
+};
+
+export interface Semaphore {
+  // Resolves `true` once a slot is taken, or `false` if `signal` aborted
+  // while waiting in line.
+  acquire: (signal?: AbortSignal) => Promise<boolean>;
+  release: () => void;
+  // A higher limit lets waiting tasks in at once; a lower one applies as
+  // running tasks finish.
+  setLimit: (limit: number) => void;
+}
+
+export const createSemaphore = (initialLimit: number): Semaphore => {
+  let limit = Math.max(1, initialLimit);
+  let active = 0;
+  const queue: (() => void)[] = [];
+  const next = () => {
+    while (active < limit && queue.length > 0) {
+      active++;
+      queue.shift()!();
+    }
+  };
+  return {
+    acquire: (signal) => new Promise<boolean>(resolve => {
+      if (signal?.aborted) return resolve(false);
+      const take = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(true);
+      };
+      const onAbort = () => {
+        queue.splice(queue.indexOf(take), 1);
+        resolve(false);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      queue.push(take);
+      next();
+    }),
+    release: () => {
+      active--;
+      next();
+    },
+    setLimit: (value) => {
+      limit = Math.max(1, value);
+      next();
+    },
+  };
+};
+
+export interface ScheduledTask<T> {
+  id: string;
+  // Ids of tasks whose result this one needs (e.g. the candidates of the
+  // previous scene). The first of them to succeed provides the result.
+  dependsOn?: string[];
+  run: (dependencyResult: T | undefined) => Promise<T>;
+}
+
+export type TaskOutcome<T> =
+  | { status: 'succeeded'; value: T }
+  | { status: 'failed'; error: unknown }
+  | { status: 'cancelled' };
+
+interface ScheduleOptions<T> {
+  // Usually shared with other runs, so concurrent runs together stay within its limit.
+  semaphore: Semaphore;
+  // Once aborted no new task starts.
+  signal: AbortSignal;
+  onSettled: (id: string, outcome: TaskOutcome<T>) => void;
+}
+
+// Resolves with the first outcome that succeeded, or undefined once all settled without one.
+const firstSucceeded = <T>(outcomes: Promise<TaskOutcome<T>>[]): Promise<TaskOutcome<T> | undefined> =>
+  new Promise(resolve => {
+    let pending = outcomes.length;
+    if (pending === 0) return resolve(undefined);
+    for (const outcome of outcomes) {
+      outcome.then(result => {
+        pending--;
+        if (result.status === 'succeeded') resolve(result);
+        else if (pending === 0) resolve(undefined);
+      });
+    }
+  });
+
+/**
+ * Runs tasks, each holding a slot of `semaphore` while it runs. A task with
+ * `dependsOn` starts once one of those tasks succeeds, receiving its value,
+ * or once all of them settled without success (receiving undefined). Once
+ * `signal` aborts no new task starts, and a task that finishes after the stop
+ * is reported as cancelled.
+ */
+export const runScheduled = async <T>(tasks: ScheduledTask<T>[], { semaphore, signal, onSettled }: ScheduleOptions<T>): Promise<Map<string, TaskOutcome<T>>> => {
+  const shouldStop = () => signal.aborted;
+  const outcomes = new Map<string, TaskOutcome<T>>();
+  const settled = new Map<string, Promise<TaskOutcome<T>>>();
+
+  const settle = (id: string, outcome: TaskOutcome<T>) => {
+    outcomes.set(id, outcome);
+    onSettled(id, outcome);
+    return outcome;
+  };
+
+  // Every task is registered before any starts, so a dependency later in the
+  // list is still waited for.
+  const resolvers = new Map<string, (outcome: TaskOutcome<T>) => void>();
+  for (const task of tasks) {
+    settled.set(task.id, new Promise(resolve => resolvers.set(task.id, resolve)));
+  }
+
+  const start = async (task: ScheduledTask<T>): Promise<TaskOutcome<T>> => {
+    const dependencies = (task.dependsOn ?? []).map(id => settled.get(id)).filter((p): p is Promise<TaskOutcome<T>> => !!p);
+    const dependency = task.dependsOn ? await firstSucceeded(dependencies) : undefined;
+    if (!(await semaphore.acquire(signal))) return settle(task.id, { status: 'cancelled' });
+    try {
+      if (shouldStop()) return settle(task.id, { status: 'cancelled' });
+      const value = await task.run(dependency?.status === 'succeeded' ? dependency.value : undefined);
+      return settle(task.id, shouldStop() ? { status: 'cancelled' } : { status: 'succeeded', value });
+    } catch (error) {
+      return settle(task.id, shouldStop() ? { status: 'cancelled' } : { status: 'failed', error });
+    } finally {
+      semaphore.release();
+    }
+  };
+
+  for (const task of tasks) {
+    start(task).then(resolvers.get(task.id)!);
+  }
+  await Promise.all(settled.values());
+  return outcomes;
+};
@@ -0,0 +1,157 @@
+import { EditStack, EditStep, GeneratedImage, ImageGenerationRequest, ImageVersion } from '../types';
+import { collectReferences, renderRequestPrompt } from './PromptBuilder';
+import { renderInpaintPrompt } from './Inpainting';
+
+export const isImageSrc = (src: string) => src.startsWith('data:image');
+
+// Tiles produced before history existed get their current image recorded as
+// the first version.
+export const withInitialVersion = (image: GeneratedImage): GeneratedImage => {
+  if (image.versions.length > 0 || !isImageSrc(image.src)) return image;
+  const id = crypto.randomUUID();
+  return { ...image, currentVersionId: id, versions: [{
+    id,
+    src: image.src,
+    origin: 'generated',
+    sceneScript: image.sceneScript,
+    scenePrompt: image.prompt,
+    finalPrompt: '',
+    characterRefIds: image.characterRefIds,
+    locationRefId: image.locationRefId,
+    referenceImageIds: [],
+    usedPreviousScene: false,
+    artStyle: '',
+    createdAt: Date.now(),
+  }] };
+};
+
+export const currentVersion = (image: GeneratedImage): ImageVersion | undefined =>
+  image.versions.find(v => v.id === image.currentVersionId);
+
+// Records a new take and makes it current, unless it is another candidate of
+// the batch the current take came from; the first candidate to arrive wins
+// until the user picks another.
+export const addVersion = (image: GeneratedImage, version: ImageVersion): GeneratedImage => {
+  const history = withInitialVersion(image);
+  if (version.batchId && currentVersion(history)?.batchId === version.batchId) {
+    return { ...history, versions: [...history.versions, version] };
+  }
+  return { ...history, src: version.src, versions: [...history.versions, version], currentVersionId: version.id };
+};
+
+// The take (of any tile) showing `src`, e.g. the previous-scene image a
+// request was sent with.
+export const findVersionBySrc = (images: GeneratedImage[], src: string): ImageVersion | undefined => {
+  for (const image of images) {
+    const version = image.versions.find(v => v.src === src);
+    if (version) return version;
+  }
+  return undefined;
+};
+
+// True when the current take was chained from a take of the previous scene
+// that is no longer that scene's current one, e.g. after the user picked
+// another candidate than the one that finished first.
+export const hasStalePreviousScene = (image: GeneratedImage, images: GeneratedImage[]) => {
+  const id = currentVersion(image)?.previousSceneVersionId;
+  const source = id && images.find(img => img.versions.some(v => v.id === id));
+  return !!source && source.currentVersionId !== id;
+};
+
+// The candidates of the batch the current take belongs to.
+export const currentCandidates = (image: GeneratedImage): ImageVersion[] => {
+  const batchId = currentVersion(image)?.batchId;
+  return batchId ? image.versions.filter(v => v.batchId === batchId) : [];
+};
+
+export const versionFromRequest = (
+  image: GeneratedImage,
+  src: string,
+  request: ImageGenerationRequest,
+  batchId?: string,
+  extra: Pick<ImageVersion, 'artifacts' | 'retryReasons' | 'previousSceneVersionId'> = {},
+): ImageVersion => ({
+  id: crypto.randomUUID(),
+  src,
+  origin: 'generated',
+  sceneScript: image.sceneScript,
+  scenePrompt: image.prompt,
+  finalPrompt: renderRequestPrompt(request),
+  characterRefIds: request.characterRefs.map(c => c.id),
+  locationRefId: request.locationRef?.id,
+  // A refinement only sends the frame it edits.
+  referenceImageIds: request.refinement ? [] : collectReferences(request.characterRefs, request.locationRef).map(r => r.reference.id),
+  usedPreviousScene: !request.refinement && !!request.previousImage,
+  previousSceneVersionId: extra.previousSceneVersionId,
+  artStyle: request.artStyle,
+  createdAt: Date.now(),
+  batchId,
+  refinement: request.refinement && { instruction: request.refinement.instruction, parentVersionId: request.refinement.baseVersionId },
+  artifacts: extra.artifacts,
+  retryReasons: extra.retryReasons,
+});
+
+// An editor save keeps the references and prompt of the take it was made from.
+export const editedVersion = (image: GeneratedImage, src: string, editStack?: EditStack): ImageVersion => {
+  const base = currentVersion(image);
+  return {
+    id: crypto.randomUUID(),
+    src,
+    origin: 'edited',
+    sceneScript: image.sceneScript,
+    scenePrompt: image.prompt,
+    finalPrompt: '',
+    characterRefIds: base?.characterRefIds ?? image.characterRefIds,
+    locationRefId: base ? base.locationRefId : image.locationRefId,
+    referenceImageIds: base?.referenceImageIds ?? [],
+    usedPreviousScene: base?.usedPreviousScene ?? false,
+    artStyle: base?.artStyle ?? '',
+    createdAt: Date.now(),
+    editStack,
+  };
+};
+
+// Where an editor session starts: the untouched source of the current take's
+// edit stack together with its steps, or the current take itself.
+export const editBase = (image: GeneratedImage): { source?: ImageVersion; steps: EditStep[] } => {
+  const current = currentVersion(image);
+  const stack = current?.editStack;
+  const source = stack && image.versions.find(v => v.id === stack.sourceVersionId);
+  return source ? { source, steps: stack.steps } : { source: current, steps: [] };
+};
+
+// Makes an earlier take current again, together with the prompt and
+// references it was made with.
+export const promoteVersion = (image: GeneratedImage, versionId: string): GeneratedImage => {
+  const version = image.versions.find(v => v.id === versionId);
+  if (!version) return image;
+  return {
+    ...image,
+    src: version.src,
+    sceneScript: version.sceneScript,
+    prompt: version.scenePrompt,
+    characterRefIds: version.characterRefIds,
+    locationRefId: version.locationRefId,
+    currentVersionId: version.id,
+  };
+};
+
+// A masked AI edit becomes a new base: later editor steps start from it.
+export const inpaintedVersion = (image: GeneratedImage, src: string, instruction: string): ImageVersion => ({
+  ...editedVersion(image, src),
+  origin: 'inpainted',
+  finalPrompt: renderInpaintPrompt(instruction),
+});
+
+// The current take and the takes it was refined from, oldest first; a take
+// that was not refined is a thread of one.
+export const refineThread = (image: GeneratedImage): ImageVersion[] => {
+  const thread: ImageVersion[] = [];
+  let version = currentVersion(image);
+  while (version) {
+    thread.unshift(version);
+    const parentId = version.refinement?.parentVersionId;
+    version = parentId ? image.versions.find(v => v.id === parentId) : undefined;
+  }
+  return thread;
+};
@@ -0,0 +1,51 @@
+import { ImageProvider, ImageProviderId, ProviderSettings } from '../types';
+import { createGeminiProvider } from './GeminiService';
+import { createMockProvider } from './MockImageProvider';
+
+interface ProviderInfo {
+  id: ImageProviderId;
+  label: string;
+  models: { id: string; label: string }[];
+}
+
+export const IMAGE_PROVIDERS: ProviderInfo[] = [
+  {
+    id: 'gemini',
+    label: 'Google Gemini',
+    models: [
+      { id: 'gemini-2.5-flash-image', label: 'Gemini 2.5 Flash Image' },
+      { id: 'gemini-3-pro-image-preview', label: 'Gemini 3 Pro Image (preview)' },
+    ],
+  },
+  {
+    id: 'mock',
+    label: 'Mô phỏng (offline)',
+    models: [{ id: 'placeholder', label: 'Khung giữ chỗ' }],
+  },
+];
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  providerId: 'gemini',
+  model: 'gemini-2.5-flash-image',
+  mockLatencyMs: 1500,
+  mockFailureRate: 0,
+  mockLabels: false,
+};
+
+export const getProviderInfo = (id: ImageProviderId): ProviderInfo =>
+  IMAGE_PROVIDERS.find(provider => provider.id === id) ?? IMAGE_PROVIDERS[0];
+
+export const createImageProvider = (settings: ProviderSettings): ImageProvider => {
+  switch (settings.providerId) {
+    case 'mock':
+      return createMockProvider({
+        model: settings.model,
+        latencyMs: settings.mockLatencyMs,
+        failureRate: settings.mockFailureRate,
+        labels: settings.mockLabels,
+      });
+    case 'gemini':
+    default:
+      return createGeminiProvider(settings.model);
+  }
+};
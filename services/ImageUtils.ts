@@ -0,0 +1,24 @@
+import { AspectRatio } from '../types';
+
+export const ASPECT_RATIOS: AspectRatio[] = ['1:1', '4:3', '16:9', '9:16'];
+
+// Width and height terms of the ratio, e.g. [16, 9].
+export const aspectParts = (aspect: AspectRatio): [number, number] => {
+  const [w, h] = aspect.split(':').map(Number);
+  return [w, h];
+};
+
+export const aspectValue = (aspect: AspectRatio) => {
+  const [w, h] = aspectParts(aspect);
+  return w / h;
+};
+
+// Decodes an image for drawing; anonymous CORS keeps the canvas readable.
+export const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    img.onload = () => resolve(img);
+    img.onerror = reject;
+    img.src = src;
+  });
@@ -0,0 +1,58 @@
+// The mask is painted on a canvas the size of the frame; any pixel with alpha
+// belongs to the region the model may change.
+
+export const renderInpaintPrompt = (instruction: string) =>
+  `Edit the first image. The second image is a mask: change only the area that is white in the mask and keep everything in the black area exactly as it is. Match the style, lighting and perspective of the surrounding image. Instruction: ${instruction.trim()}`;
+
+export const isMaskEmpty = (mask: HTMLCanvasElement) => {
+  const { data } = mask.getContext('2d')!.getImageData(0, 0, mask.width, mask.height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] > 0) return false;
+  }
+  return true;
+};
+
+// Black and white PNG of the painted region, as the model expects it.
+export const maskToPng = (mask: HTMLCanvasElement): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = mask.width;
+  canvas.height = mask.height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  const painted = document.createElement('canvas');
+  painted.width = mask.width;
+  painted.height = mask.height;
+  const paintedCtx = painted.getContext('2d')!;
+  paintedCtx.drawImage(mask, 0, 0);
+  paintedCtx.globalCompositeOperation = 'source-in';
+  paintedCtx.fillStyle = '#ffffff';
+  paintedCtx.fillRect(0, 0, painted.width, painted.height);
+  ctx.drawImage(painted, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * Lays the model's output over `original` through the mask only. The patch is
+ * scaled to the frame first, since the model may answer at another size;
+ * outside the mask the result is the original pixels.
+ */
+export const mergePatch = (original: HTMLImageElement, patch: HTMLImageElement, mask: HTMLCanvasElement): string => {
+  const width = original.naturalWidth;
+  const height = original.naturalHeight;
+  const layer = document.createElement('canvas');
+  layer.width = width;
+  layer.height = height;
+  const layerCtx = layer.getContext('2d')!;
+  layerCtx.drawImage(patch, 0, 0, width, height);
+  layerCtx.globalCompositeOperation = 'destination-in';
+  layerCtx.drawImage(mask, 0, 0, width, height);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(original, 0, 0);
+  ctx.drawImage(layer, 0, 0);
+  return canvas.toDataURL('image/png');
+};
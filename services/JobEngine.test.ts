@@ -0,0 +1,219 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ImageGenerationRequest, ImageProvider } from '../types';
+import { createJobEngine, JobEvent, JobSpec, RunOptions } from './JobEngine';
+import { GenerationError } from './GenerationError';
+import { DEFAULT_PROMPT_TEMPLATE } from './PromptPresets';
+
+const request = (prompt: string, previousImage?: string): ImageGenerationRequest => ({
+  prompt,
+  storyContext: '',
+  artStyle: '',
+  aspectRatio: '16:9',
+  characterRefs: [],
+  previousImage,
+  isVariant: false,
+  template: DEFAULT_PROMPT_TEMPLATE,
+});
+
+const spec = (imageId: string, extra: Partial<JobSpec> = {}): JobSpec => ({
+  imageId,
+  buildRequest: (previousImage) => request(imageId, previousImage),
+  ...extra,
+});
+
+// Answers each prompt with its name, after `latencyMs`, unless `script`
+// says otherwise for that call; honours the abort signal like the real ones.
+const fakeProvider = (script: (request: ImageGenerationRequest, call: number) => Error | string | undefined = () => undefined, latencyMs = 100) => {
+  let calls = 0;
+  let running = 0;
+  const stats = { peak: 0, requests: [] as ImageGenerationRequest[] };
+  const provider: ImageProvider = {
+    id: 'mock',
+    generate: (req, signal) => new Promise((resolve, reject) => {
+      const answer = script(req, ++calls);
+      stats.requests.push(req);
+      stats.peak = Math.max(stats.peak, ++running);
+      const timer = setTimeout(() => {
+        running--;
+        if (answer instanceof Error) reject(answer);
+        else resolve(answer ?? req.prompt);
+      }, latencyMs);
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        running--;
+        reject(signal.reason);
+      }, { once: true });
+    }),
+    edit: () => Promise.reject(new Error('not used')),
+  };
+  return { provider, stats };
+};
+
+const startRun = (engine: ReturnType<typeof createJobEngine>, specs: JobSpec[], options: Partial<RunOptions> & Pick<RunOptions, 'provider'>) =>
+  engine.run(specs, { concurrency: 4, requestsPerMinute: 600, baseDelayMs: 1000, maxDelayMs: 8000, ...options });
+
+const recordEvents = (engine: ReturnType<typeof createJobEngine>) => {
+  const events: JobEvent[] = [];
+  engine.subscribe(event => events.push(event));
+  return events;
+};
+
+const describeEvent = (event: JobEvent) =>
+  event.type === 'settled' ? `settled ${event.imageId}` : `${event.type} ${event.job.jobId}`;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.spyOn(Math, 'random').mockReturnValue(0.5);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('createJobEngine', () => {
+  it('reports each job from queued to succeeded and settles the tile', async () => {
+    const engine = createJobEngine();
+    const events = recordEvents(engine);
+    const { provider } = fakeProvider();
+    const result = startRun(engine, [spec('a')], { provider });
+    await vi.runAllTimersAsync();
+
+    expect(await result).toEqual(new Map([['a#0', 'succeeded']]));
+    expect(events.map(describeEvent)).toEqual(['queued a#0', 'started a#0', 'succeeded a#0', 'settled a']);
+    expect(events[2]).toMatchObject({ src: 'data:image/png;base64,a', request: { prompt: 'a' } });
+  });
+
+  it('retries retryable failures with capped exponential backoff and jitter', async () => {
+    const engine = createJobEngine();
+    const events = recordEvents(engine);
+    const { provider } = fakeProvider((_, call) => (call < 4 ? new GenerationError('server', `down ${call}`) : undefined));
+    const result = startRun(engine, [spec('a')], { provider, maxAttempts: 4, baseDelayMs: 1000, maxDelayMs: 3000 });
+    await vi.runAllTimersAsync();
+
+    expect(await result).toEqual(new Map([['a#0', 'succeeded']]));
+    const delays = events.flatMap(event => (event.type === 'retrying' ? [event.delayMs] : []));
+    // Half of min(max, base * 2^(n-1)) plus half of the other half (random = 0.5).
+    expect(delays).toEqual([750, 1500, 2250]);
+    const succeeded = events.find(event => event.type === 'succeeded');
+    expect(succeeded).toMatchObject({ job: { attempt: 4 }, retryReasons: ['down 1', 'down 2', 'down 3'] });
+  });
+
+  it('waits out the backoff before the next attempt', async () => {
+    const engine = createJobEngine();
+    const events = recordEvents(engine);
+    const { provider } = fakeProvider((_, call) => (call === 1 ? new GenerationError('network', 'offline') : undefined));
+    startRun(engine, [spec('a')], { provider, baseDelayMs: 2000 });
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(events.at(-1)).toMatchObject({ type: 'retrying', delayMs: 1500, job: { state: 'queued', error: { kind: 'network' } } });
+    await vi.advanceTimersByTimeAsync(1499);
+    expect(events.filter(event => event.type === 'started')).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(events.filter(event => event.type === 'started')).toHaveLength(2);
+  });
+
+  it('fails at once on errors a retry cannot fix', async () => {
+    const engine = createJobEngine();
+    const events = recordEvents(engine);
+    const { provider, stats } = fakeProvider(() => new GenerationError('auth', 'bad key'));
+    const result = startRun(engine, [spec('a')], { provider });
+    await vi.runAllTimersAsync();
+
+    expect(await result).toEqual(new Map([['a#0', 'failed']]));
+    expect(stats.requests).toHaveLength(1);
+    expect(events.find(event => event.type === 'failed')).toMatchObject({ job: { attempt: 1, error: { kind: 'auth', message: 'bad key' } } });
+  });
+
+  it('gives up after the last attempt', async () => {
+    const engine = createJobEngine();
+    const { provider, stats } = fakeProvider(() => new GenerationError('server', 'down'));
+    const result = startRun(engine, [spec('a')], { provider, maxAttempts: 2 });
+    await vi.runAllTimersAsync();
+
+    expect(await result).toEqual(new Map([['a#0', 'failed']]));
+    expect(stats.requests).toHaveLength(2);
+  });
+
+  it('chains a tile to the first candidate of its dependency, wherever it is listed', async () => {
+    const engine = createJobEngine();
+    const { provider, stats } = fakeProvider((req, call) => (req.prompt === 'a' && call === 1 ? 'a-slow' : undefined));
+    const result = startRun(engine, [spec('b', { dependsOn: 'a' }), spec('a', { candidates: 2 })], { provider });
+    await vi.runAllTimersAsync();
+
+    expect(await result).toEqual(new Map([['b#0', 'succeeded'], ['a#0', 'succeeded'], ['a#1', 'succeeded']]));
+    const chained = stats.requests.find(req => req.prompt === 'b')!;
+    expect(chained.previousImage).toBe('data:image/png;base64,a-slow');
+  });
+
+  it('falls back to the grid image when the dependency fails', async () => {
+    const engine = createJobEngine();
+    const { provider, stats } = fakeProvider(req => (req.prompt === 'a' ? new GenerationError('safety', 'blocked') : undefined));
+    const result = startRun(engine, [spec('a'), spec('b', { dependsOn: 'a', previousImage: 'data:image/png;base64,old' })], { provider });
+    await vi.runAllTimersAsync();
+
+    expect(await result).toEqual(new Map([['a#0', 'failed'], ['b#0', 'succeeded']]));
+    expect(stats.requests.find(req => req.prompt === 'b')!.previousImage).toBe('data:image/png;base64,old');
+  });
+
+  it('retries a flagged image while attempts remain and keeps the last one', async () => {
+    const engine = createJobEngine();
+    const events = recordEvents(engine);
+    const { provider } = fakeProvider();
+    const inspect = vi.fn(async () => [{ kind: 'text' as const, rect: { x: 0, y: 0, width: 1, height: 1 }, score: 1 }]);
+    const result = startRun(engine, [spec('a')], { provider, inspect, retryFlagged: true, maxAttempts: 2 });
+    await vi.runAllTimersAsync();
+
+    expect(await result).toEqual(new Map([['a#0', 'succeeded']]));
+    expect(inspect).toHaveBeenCalledTimes(2);
+    expect(events.filter(event => event.type === 'retrying')).toEqual([expect.objectContaining({ delayMs: 0, job: expect.objectContaining({ error: expect.objectContaining({ kind: 'artifact' }) }) })]);
+    expect(events.find(event => event.type === 'succeeded')).toMatchObject({ artifacts: [{ kind: 'text' }], retryReasons: [expect.any(String)] });
+  });
+
+  it('cancels a run, in-flight requests included, when its signal aborts', async () => {
+    const engine = createJobEngine();
+    const events = recordEvents(engine);
+    const { provider } = fakeProvider();
+    const controller = new AbortController();
+    const result = startRun(engine, [spec('a'), spec('b', { dependsOn: 'a' })], { provider, signal: controller.signal });
+
+    await vi.advanceTimersByTimeAsync(50);
+    controller.abort(new DOMException('Generation stopped by user.', 'AbortError'));
+    await vi.runAllTimersAsync();
+
+    expect(await result).toEqual(new Map([['a#0', 'cancelled'], ['b#0', 'cancelled']]));
+    expect(events.filter(event => event.type === 'settled').map(describeEvent)).toEqual(['settled a', 'settled b']);
+  });
+
+  it('cancels during a backoff without another attempt', async () => {
+    const engine = createJobEngine();
+    const { provider, stats } = fakeProvider(() => new GenerationError('server', 'down'));
+    const controller = new AbortController();
+    const result = startRun(engine, [spec('a')], { provider, signal: controller.signal });
+
+    await vi.advanceTimersByTimeAsync(200);
+    controller.abort();
+    await vi.runAllTimersAsync();
+
+    expect(await result).toEqual(new Map([['a#0', 'cancelled']]));
+    expect(stats.requests).toHaveLength(1);
+  });
+
+  it('stops only the aborted run and shares the concurrency cap between runs', async () => {
+    const engine = createJobEngine();
+    const { provider, stats } = fakeProvider();
+    const controller = new AbortController();
+    const batch = startRun(engine, [spec('a'), spec('b'), spec('c')], { provider, concurrency: 2, signal: controller.signal });
+    const single = startRun(engine, [spec('d')], { provider, concurrency: 2 });
+
+    await vi.advanceTimersByTimeAsync(50);
+    expect(stats.peak).toBe(2);
+    controller.abort();
+    await vi.runAllTimersAsync();
+
+    expect([...(await batch).values()]).toEqual(['cancelled', 'cancelled', 'cancelled']);
+    expect(await single).toEqual(new Map([['d#0', 'succeeded']]));
+    expect(stats.peak).toBe(2);
+  });
+});
@@ -0,0 +1,224 @@
+import { ArtifactFinding, GenerationFailure, ImageGenerationRequest, ImageProvider } from '../types';
+import { abortableSleep, createRateLimiter, createSemaphore, runScheduled, ScheduledTask } from './GenerationScheduler';
+import { GenerationError, isRetryable, toFailure } from './GenerationError';
+import { describeArtifacts } from './ArtifactDetector';
+
+export type JobState = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface GenerationJob {
+  jobId: string;
+  imageId: string;
+  // Candidates of one tile in one run share a batch id.
+  batchId: string;
+  candidate: number;
+  candidates: number;
+  state: JobState;
+  attempt: number;
+  maxAttempts: number;
+  error?: GenerationFailure;
+}
+
+export type JobEvent =
+  | { type: 'queued'; job: GenerationJob }
+  | { type: 'started'; job: GenerationJob }
+  | { type: 'retrying'; job: GenerationJob; delayMs: number }
+  | { type: 'succeeded'; job: GenerationJob; src: string; request: ImageGenerationRequest } & ImageCheck
+  | { type: 'failed'; job: GenerationJob }
+  | { type: 'cancelled'; job: GenerationJob }
+  // Every candidate of a tile has finished, one way or another.
+  | { type: 'settled'; imageId: string; jobs: GenerationJob[] };
+
+export type JobListener = (event: JobEvent) => void;
+
+export interface JobSpec {
+  imageId: string;
+  // Number of images to generate for the tile (default 1).
+  candidates?: number;
+  // Image id of the tile whose first successful candidate becomes this
+  // tile's previous-scene reference.
+  dependsOn?: string;
+  // Previous-scene reference used when the dependency gives no image.
+  previousImage?: string;
+  buildRequest: (previousImage: string | undefined) => ImageGenerationRequest;
+}
+
+// What the engine learned about a successful image on the way.
+export interface ImageCheck {
+  // Set when the run inspected the image.
+  artifacts?: ArtifactFinding[];
+  // Why earlier attempts of the job were retried.
+  retryReasons?: string[];
+}
+
+export interface RunOptions {
+  provider: ImageProvider;
+  // Caps for all runs of the engine together; the latest run's values apply.
+  concurrency: number;
+  requestsPerMinute: number;
+  // Aborting it cancels this run only.
+  signal?: AbortSignal;
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // Post-generation check of each image for text and watermarks.
+  inspect?: (src: string) => Promise<ArtifactFinding[]>;
+  // Spends a remaining attempt on a new image when `inspect` finds something;
+  // the last attempt's image is kept either way.
+  retryFlagged?: boolean;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_BASE_DELAY_MS = 2000;
+const DEFAULT_MAX_DELAY_MS = 30000;
+
+// Exponential backoff with "equal jitter": half the capped delay plus a
+// random share of the other half, so parallel retries don't land together.
+const backoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number) => {
+  const capped = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  return capped / 2 + Math.random() * (capped / 2);
+};
+
+const jobIdsFor = (imageId: string, candidates: number) =>
+  Array.from({ length: candidates }, (_, candidate) => `${imageId}#${candidate}`);
+
+/**
+ * Single place where images get generated. Every run expands each tile into
+ * its candidate jobs, schedules them (respecting dependencies, and sharing
+ * the concurrency and per-minute caps with every other run), retries retryable failures with backoff, can
+ * check each image for text and retry flagged ones, and reports progress as
+ * typed events. Aborting a run's `signal` stops just that run, including
+ * requests already in flight.
+ */
+export const createJobEngine = () => {
+  const listeners = new Set<JobListener>();
+  // Shared by every run, so a tile regenerated during a batch counts against
+  // the same caps; each run brings the current limits.
+  const limiter = createRateLimiter(1);
+  const semaphore = createSemaphore(1);
+
+  const emit = (event: JobEvent) => {
+    listeners.forEach(listener => listener(event));
+  };
+
+  const subscribe = (listener: JobListener) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  const run = async (specs: JobSpec[], options: RunOptions): Promise<Map<string, JobState>> => {
+    const controller = new AbortController();
+    const { signal } = controller;
+    const forwardAbort = () => controller.abort(options.signal!.reason);
+    if (options.signal?.aborted) forwardAbort();
+    options.signal?.addEventListener('abort', forwardAbort, { once: true });
+    limiter.setLimit(options.requestsPerMinute);
+    semaphore.setLimit(options.concurrency);
+
+    const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    const baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+    const maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+    const jobs = new Map<string, GenerationJob>();
+    const requests = new Map<string, ImageGenerationRequest>();
+    const checks = new Map<string, ImageCheck>();
+    const update = (jobId: string, patch: Partial<GenerationJob>) => {
+      const job = { ...jobs.get(jobId)!, ...patch };
+      jobs.set(jobId, job);
+      return { ...job };
+    };
+
+    const candidateCounts = new Map(specs.map(spec => [spec.imageId, Math.max(1, spec.candidates ?? 1)]));
+
+    const tasks: ScheduledTask<string>[] = specs.flatMap(spec => {
+      const batchId = crypto.randomUUID();
+      const candidates = candidateCounts.get(spec.imageId)!;
+      const dependsOn = spec.dependsOn ? jobIdsFor(spec.dependsOn, candidateCounts.get(spec.dependsOn) ?? 1) : undefined;
+
+      return jobIdsFor(spec.imageId, candidates).map((jobId, candidate) => {
+        const job: GenerationJob = { jobId, imageId: spec.imageId, batchId, candidate, candidates, state: 'queued', attempt: 0, maxAttempts };
+        jobs.set(jobId, job);
+        emit({ type: 'queued', job: { ...job } });
+
+        return {
+          id: jobId,
+          dependsOn,
+          run: async (dependencyResult: string | undefined) => {
+            // Without a result from the dependency (it failed or is not in
+            // this run) the tile falls back to the image already in the grid.
+            const request = spec.buildRequest(dependencyResult ?? spec.previousImage);
+            requests.set(jobId, request);
+            const retryReasons: string[] = [];
+            for (let attempt = 1; ; attempt++) {
+              if (!(await limiter.acquire(() => signal.aborted))) {
+                throw signal.reason;
+              }
+              emit({ type: 'started', job: update(jobId, { state: 'running', attempt }) });
+              let src: string;
+              try {
+                const base64 = await options.provider.generate(request, signal);
+                src = `data:image/png;base64,${base64}`;
+              } catch (error) {
+                if (signal.aborted) throw error;
+                console.error(`Attempt ${attempt}/${maxAttempts} failed for ${jobId}`, error);
+                if (attempt >= maxAttempts || !isRetryable(error)) throw error;
+                const failure = toFailure(error);
+                retryReasons.push(failure.message);
+                const delayMs = backoffDelay(attempt, baseDelayMs, maxDelayMs);
+                emit({ type: 'retrying', job: update(jobId, { state: 'queued', error: failure }), delayMs });
+                await abortableSleep(delayMs, signal);
+                continue;
+              }
+
+              const artifacts = options.inspect ? await options.inspect(src) : undefined;
+              if (signal.aborted) throw signal.reason;
+              // A flagged image is thrown away while attempts remain; the
+              // retry needs no backoff since the service itself answered fine.
+              if (artifacts?.length && options.retryFlagged && attempt < maxAttempts) {
+                const failure = toFailure(new GenerationError('artifact', describeArtifacts(artifacts)));
+                retryReasons.push(failure.message);
+                emit({ type: 'retrying', job: update(jobId, { state: 'queued', error: failure }), delayMs: 0 });
+                continue;
+              }
+              checks.set(jobId, { artifacts, retryReasons: retryReasons.length ? retryReasons : undefined });
+              return src;
+            }
+          },
+        };
+      });
+    });
+
+    const TERMINAL: JobState[] = ['succeeded', 'failed', 'cancelled'];
+    const emitIfSettled = (imageId: string) => {
+      const tileJobs = [...jobs.values()].filter(job => job.imageId === imageId);
+      if (tileJobs.every(job => TERMINAL.includes(job.state))) {
+        emit({ type: 'settled', imageId, jobs: tileJobs });
+      }
+    };
+
+    try {
+      await runScheduled(tasks, {
+        semaphore,
+        signal,
+        onSettled: (jobId, outcome) => {
+          if (outcome.status === 'succeeded') {
+            emit({ type: 'succeeded', job: update(jobId, { state: 'succeeded', error: undefined }), src: outcome.value, request: requests.get(jobId)!, ...checks.get(jobId) });
+          } else if (outcome.status === 'failed') {
+            emit({ type: 'failed', job: update(jobId, { state: 'failed', error: toFailure(outcome.error) }) });
+          } else {
+            emit({ type: 'cancelled', job: update(jobId, { state: 'cancelled' }) });
+          }
+          emitIfSettled(jobs.get(jobId)!.imageId);
+        },
+      });
+    } finally {
+      options.signal?.removeEventListener('abort', forwardAbort);
+    }
+
+    return new Map([...jobs].map(([jobId, job]) => [jobId, job.state]));
+  };
+
+  return { run, subscribe };
+};
+
+export type JobEngine = ReturnType<typeof createJobEngine>;
@@ -0,0 +1,158 @@
+import { ImageGenerationRequest, ImageProvider } from '../types';
+import { abortableSleep } from './GenerationScheduler';
+import { GenerationError } from './GenerationError';
+import { aspectParts, loadImage } from './ImageUtils';
+
+interface MockOptions {
+  model: string;
+  latencyMs: number;
+  failureRate: number;
+  // Writes the prompt and instructions onto the frames. Off by default since
+  // the text/watermark check flags every labelled frame.
+  labels: boolean;
+}
+
+const LONG_SIDE = 1024;
+
+// FNV-1a, enough to turn a prompt into stable colours and failure decisions.
+const hashString = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && ctx.measureText(candidate).width > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+};
+
+// Draws a placeholder frame whose colours depend only on the prompt and how
+// many times it has been requested, optionally labelled with the prompt.
+const renderFrame = (request: ImageGenerationRequest, model: string, call: number, labels: boolean): string => {
+  const [w, h] = aspectParts(request.aspectRatio);
+  const canvas = document.createElement('canvas');
+  canvas.width = w >= h ? LONG_SIDE : Math.round(LONG_SIDE * w / h);
+  canvas.height = h >= w ? LONG_SIDE : Math.round(LONG_SIDE * h / w);
+  const ctx = canvas.getContext('2d')!;
+  const { width, height } = canvas;
+
+  const hue = hashString(`${request.prompt}#${call}`) % 360;
+  const gradient = ctx.createLinearGradient(0, 0, width, height);
+  gradient.addColorStop(0, `hsl(${hue}, 45%, 32%)`);
+  gradient.addColorStop(1, `hsl(${(hue + 50) % 360}, 45%, 14%)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.15)';
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.moveTo(0, 0);
+  ctx.lineTo(width, height);
+  ctx.moveTo(width, 0);
+  ctx.lineTo(0, height);
+  ctx.stroke();
+  ctx.strokeRect(16, 16, width - 32, height - 32);
+  if (!labels) return canvas.toDataURL('image/png').split(',')[1];
+
+  const margin = Math.round(width * 0.08);
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+  ctx.font = '600 22px sans-serif';
+  ctx.fillText(`MOCK · ${model}${request.isVariant ? ' · biến thể' : ''}`, margin, margin);
+
+  ctx.fillStyle = '#ffffff';
+  ctx.font = '28px sans-serif';
+  const lines = wrapText(ctx, request.prompt, width - margin * 2).slice(0, 8);
+  const lineHeight = 38;
+  const top = (height - lines.length * lineHeight) / 2;
+  lines.forEach((line, i) => ctx.fillText(line, margin, top + i * lineHeight));
+
+  const refs = [
+    ...request.characterRefs.map(c => c.name),
+    ...(request.locationRef ? [request.locationRef.name] : []),
+    ...(request.previousImage ? ['cảnh trước'] : []),
+  ];
+  if (refs.length > 0) {
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+    ctx.font = '20px sans-serif';
+    ctx.fillText(`Tham chiếu: ${refs.join(', ')}`, margin, height - margin);
+  }
+
+  return canvas.toDataURL('image/png').split(',')[1];
+};
+
+// The frame under a tint, with the instruction written on it when labelling.
+// For region edits only the masked part survives once the app merges it back.
+const renderOverImage = async (src: string, label: string | null, seed: string): Promise<string> => {
+  const img = await loadImage(src);
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(img, 0, 0);
+
+  const hue = hashString(seed) % 360;
+  ctx.fillStyle = `hsla(${hue}, 70%, 50%, 0.55)`;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  if (!label) return canvas.toDataURL('image/png').split(',')[1];
+
+  ctx.fillStyle = '#ffffff';
+  ctx.font = '600 24px sans-serif';
+  const margin = Math.round(canvas.width * 0.05);
+  wrapText(ctx, label, canvas.width - margin * 2)
+    .forEach((line, i) => ctx.fillText(line, margin, margin + 24 + i * 32));
+
+  return canvas.toDataURL('image/png').split(',')[1];
+};
+
+/**
+ * Offline provider for UI work: renders placeholder frames from the prompt
+ * after a fixed latency. Whether a call fails depends only on the prompt and
+ * how many times it has been requested, so runs are reproducible while
+ * retries can still succeed.
+ */
+export const createMockProvider = ({ model, latencyMs, failureRate, labels }: MockOptions): ImageProvider => {
+  const calls = new Map<string, number>();
+
+  return {
+    id: 'mock',
+    generate: async (request, signal) => {
+      const call = (calls.get(request.prompt) ?? 0) + 1;
+      calls.set(request.prompt, call);
+
+      await abortableSleep(latencyMs, signal);
+
+      if ((hashString(`${request.prompt}#${call}`) % 1000) / 1000 < failureRate) {
+        throw new GenerationError('server', `Mock provider: simulated failure (call ${call}).`);
+      }
+      return request.refinement
+        ? renderOverImage(request.refinement.baseImage, labels ? `MOCK · tinh chỉnh: ${request.refinement.instruction}` : null, `${request.prompt}#${call}`)
+        : renderFrame(request, model, call, labels);
+    },
+    edit: async (request, signal) => {
+      const key = `edit:${request.instruction}`;
+      const call = (calls.get(key) ?? 0) + 1;
+      calls.set(key, call);
+
+      await abortableSleep(latencyMs, signal);
+
+      if ((hashString(`${key}#${call}`) % 1000) / 1000 < failureRate) {
+        throw new GenerationError('server', `Mock provider: simulated failure (call ${call}).`);
+      }
+      return renderOverImage(request.image, labels ? `MOCK · sửa vùng: ${request.instruction}` : null, `${key}#${call}`);
+    },
+  };
+};
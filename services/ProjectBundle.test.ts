@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { GeneratedImage } from '../types';
+import { exportProjectBundle, importProjectBundle, MANIFEST_SCHEMA_VERSION } from './ProjectBundle';
+import { createEmptyProject } from './ProjectStore';
+import { DEFAULT_GENERATION_SETTINGS } from './GenerationScheduler';
+import { DEFAULT_PROVIDER_SETTINGS } from './ImageProvider';
+import { DEFAULT_PROMPT_TEMPLATE } from './PromptPresets';
+import { createZip, encodeText } from './ZipArchive';
+
+const PIXEL = new Uint8Array([137, 80, 78, 71]);
+
+const bundle = (manifest: unknown, files: Record<string, Uint8Array> = {}) =>
+  createZip([
+    { name: 'manifest.json', data: encodeText(typeof manifest === 'string' ? manifest : JSON.stringify(manifest)) },
+    ...Object.entries(files).map(([name, data]) => ({ name, data })),
+  ]);
+
+// What the first bundle format wrote: one reference file per character and
+// one character per image.
+const V1_MANIFEST = {
+  schemaVersion: 1,
+  exportedAt: '2025-01-01T00:00:00.000Z',
+  project: { name: 'Cũ', storyContext: '', artStyle: '', promptsText: 'Cảnh 1: A\nPrompt: p', aspectRatio: '16:9', batchSize: 10 },
+  scenes: [],
+  images: [{ id: 'i1', prompt: 'p', sceneName: 'Cảnh 1', sceneScript: 'Cảnh 1: A\nPrompt: p', characterRefId: 'c1', isSelected: false, status: 'ok', file: 'images/001.png' }],
+  characters: [{ id: 'c1', name: 'Claire', mimeType: 'image/png', file: 'characters/c1.png' }],
+};
+
+// A bundle written when candidates were added, before the artifact check.
+const V11_MANIFEST = {
+  schemaVersion: 11,
+  exportedAt: '2025-06-01T00:00:00.000Z',
+  project: {
+    name: 'Ứng viên',
+    storyContext: '',
+    artStyle: '',
+    promptsText: 'Cảnh 1: A\nPrompt: p',
+    aspectRatio: '16:9',
+    batchSize: 10,
+    generationSettings: { concurrency: 3, requestsPerMinute: 5, chainScenes: false, candidatesPerScene: 2 },
+    providerSettings: { providerId: 'mock', model: 'mock-v1', mockLatencyMs: 0, mockFailureRate: 0.5 },
+    promptTemplate: DEFAULT_PROMPT_TEMPLATE,
+  },
+  scenes: [],
+  images: [{
+    id: 'i1', prompt: 'p', sceneNumber: 1, sceneName: 'Cảnh 1', sceneScript: 'Cảnh 1: A\nPrompt: p', characterRefIds: [], isSelected: false,
+    status: 'ok', file: 'images/001.png', currentVersionId: 'v1',
+    versions: [{
+      id: 'v1', origin: 'generated', sceneScript: 'Cảnh 1: A\nPrompt: p', scenePrompt: 'p', finalPrompt: 'p',
+      characterRefIds: [], referenceImageIds: [], usedPreviousScene: false, artStyle: '', createdAt: 1, file: 'images/001.png',
+    }],
+  }],
+  characters: [],
+  locations: [],
+};
+
+describe('importProjectBundle', () => {
+  it('upgrades a v1 bundle to the current schema', async () => {
+    const project = await importProjectBundle(bundle(V1_MANIFEST, { 'images/001.png': PIXEL, 'characters/c1.png': PIXEL }));
+    expect(MANIFEST_SCHEMA_VERSION).toBeGreaterThan(1);
+    expect(project.name).toBe('Cũ');
+    expect(project.generationSettings).toEqual({ ...DEFAULT_GENERATION_SETTINGS, artifactCheck: 'off' });
+    expect(project.providerSettings).toEqual(DEFAULT_PROVIDER_SETTINGS);
+    expect(project.locations).toEqual([]);
+    expect(project.characters[0]).toMatchObject({ name: 'Claire', aliases: [], references: [{ angle: 'front', mimeType: 'image/png' }] });
+    expect(project.generatedImages[0]).toMatchObject({ sceneNumber: 1, characterRefIds: ['c1'], src: 'data:image/png;base64,iVBORw==' });
+    expect(project.generatedImages[0].versions).toHaveLength(1);
+  });
+
+  it('upgrades a v11 bundle without the artifact check or mock labels', async () => {
+    const project = await importProjectBundle(bundle(V11_MANIFEST, { 'images/001.png': PIXEL }));
+    expect(project.generationSettings).toEqual({ concurrency: 3, requestsPerMinute: 5, chainScenes: false, candidatesPerScene: 2, artifactCheck: 'off' });
+    expect(project.providerSettings).toEqual({ providerId: 'mock', model: 'mock-v1', mockLatencyMs: 0, mockFailureRate: 0.5, mockLabels: false });
+    expect(project.promptTemplate).toEqual(DEFAULT_PROMPT_TEMPLATE);
+    expect(project.generatedImages[0]).toMatchObject({ id: 'i1', currentVersionId: 'v1', src: 'data:image/png;base64,iVBORw==' });
+    expect(project.generatedImages[0].versions).toEqual([expect.objectContaining({ id: 'v1', src: 'data:image/png;base64,iVBORw==' })]);
+  });
+
+  it('keeps the failure reason of failed tiles only', async () => {
+    const tile = (id: string, src: string): GeneratedImage => ({
+      id, src, prompt: 'p', isLoading: false, sceneNumber: 1, characterRefIds: [], isSelected: false,
+      sceneName: 'Cảnh 1', sceneScript: '', versions: [], failure: { kind: 'safety', message: 'blocked', finishReason: 'SAFETY' },
+    });
+    const project = { ...createEmptyProject('Lỗi'), generatedImages: [tile('failed', 'error'), tile('stopped', 'cancelled')] };
+    const imported = await importProjectBundle(exportProjectBundle(project, []));
+    expect(imported.generatedImages.map(img => [img.src, img.failure])).toEqual([
+      ['error', { kind: 'safety', message: 'blocked', finishReason: 'SAFETY' }],
+      ['cancelled', undefined],
+    ]);
+  });
+
+  it.each([
+    ['images', 'Bundle is missing image list.'],
+    ['characters', 'Bundle is missing character list.'],
+    ['project', 'Bundle is missing project settings.'],
+  ])('reports a manifest without %s', async (field, message) => {
+    const { [field as keyof typeof V1_MANIFEST]: _, ...manifest } = V1_MANIFEST;
+    await expect(importProjectBundle(bundle(manifest))).rejects.toThrow(message);
+  });
+
+  it('reports records of the wrong shape', async () => {
+    await expect(importProjectBundle(bundle({ ...V1_MANIFEST, images: 'none' }))).rejects.toThrow('Bundle has an invalid image list.');
+  });
+
+  it('reports a manifest that is not JSON', async () => {
+    await expect(importProjectBundle(bundle('{ not json'))).rejects.toThrow('Bundle manifest.json is not valid JSON.');
+  });
+
+  it('refuses bundles from a newer app', async () => {
+    await expect(importProjectBundle(bundle({ ...V1_MANIFEST, schemaVersion: MANIFEST_SCHEMA_VERSION + 1 }))).rejects.toThrow(/newer than this app supports/);
+  });
+});
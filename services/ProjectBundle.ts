@@ -0,0 +1,347 @@
+import { AspectRatio, Character, GeneratedImage, GenerationSettings, ImageVersion, Project, PromptTemplate, ProviderSettings, ReferenceImage, Scene, StoryLocation } from '../types';
+import { createEmptyProject, sceneNumberFromName } from './ProjectStore';
+import { parseScript } from './ScriptParser';
+import { DEFAULT_GENERATION_SETTINGS } from './GenerationScheduler';
+import { DEFAULT_PROVIDER_SETTINGS } from './ImageProvider';
+import { DEFAULT_PROMPT_TEMPLATE } from './PromptPresets';
+import { withInitialVersion } from './ImageHistory';
+import { createZip, readZip, encodeText, decodeText, ZipEntry } from './ZipArchive';
+
+// Bump this whenever the manifest shape changes, optional fields included,
+// and add a migration below that upgrades the previous version, so older
+// bundles keep loading.
+export const MANIFEST_SCHEMA_VERSION = 13;
+const MANIFEST_FILE = 'manifest.json';
+
+type BundleVersionRecord = Omit<ImageVersion, 'src'> & { file: string };
+
+type BundleImageRecord = Omit<GeneratedImage, 'src' | 'isLoading' | 'versions'> & {
+  status: 'ok' | 'error' | 'cancelled';
+  file?: string;
+  versions: BundleVersionRecord[];
+};
+
+type BundleReferenceRecord = Omit<ReferenceImage, 'imageBase64'> & { file: string };
+
+type BundleCharacterRecord = Omit<Character, 'references'> & {
+  references: BundleReferenceRecord[];
+};
+
+type BundleLocationRecord = Omit<StoryLocation, 'references'> & {
+  references: BundleReferenceRecord[];
+};
+
+export interface BundleManifest {
+  schemaVersion: number;
+  exportedAt: string;
+  project: {
+    name: string;
+    storyContext: string;
+    artStyle: string;
+    promptsText: string;
+    aspectRatio: AspectRatio;
+    batchSize: number;
+    generationSettings: GenerationSettings;
+    providerSettings: ProviderSettings;
+    promptTemplate: PromptTemplate;
+  };
+  scenes: Scene[];
+  images: BundleImageRecord[];
+  characters: BundleCharacterRecord[];
+  locations: BundleLocationRecord[];
+}
+
+type ManifestRecord = Record<string, unknown>;
+
+// A manifest at some earlier schema version, typed only as far as the
+// migrations rely on; the current shape is checked once they have run.
+interface LegacyManifest {
+  schemaVersion: number;
+  project: ManifestRecord;
+  images: ManifestRecord[];
+  characters: ManifestRecord[];
+  [field: string]: unknown;
+}
+
+const isRecord = (value: unknown): value is ManifestRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isRecordList = (value: unknown): value is ManifestRecord[] =>
+  Array.isArray(value) && value.every(isRecord);
+
+const asRecord = (value: unknown): ManifestRecord => isRecord(value) ? value : {};
+
+const requireField = <T>(value: unknown, what: string, check: (value: unknown) => value is T): T => {
+  if (value === undefined) throw new Error(`Bundle is missing ${what}.`);
+  if (!check(value)) throw new Error(`Bundle has an invalid ${what}.`);
+  return value;
+};
+
+// Each entry upgrades a manifest from the keyed version to the next one.
+const manifestMigrations: Record<number, (manifest: LegacyManifest) => LegacyManifest> = {
+  // v2: scenes carry every field of the script block, so re-parse them.
+  1: (manifest) => ({
+    ...manifest,
+    schemaVersion: 2,
+    scenes: parseScript(typeof manifest.project.promptsText === 'string' ? manifest.project.promptsText : '').scenes,
+  }),
+  // v3: images reference every character in the scene instead of one.
+  2: (manifest) => ({
+    ...manifest,
+    schemaVersion: 3,
+    images: manifest.images.map(({ characterRefId, ...image }) => ({ ...image, characterRefIds: characterRefId ? [characterRefId] : [] })),
+  }),
+  // v4: characters have aliases, a description and several reference images.
+  3: (manifest) => ({
+    ...manifest,
+    schemaVersion: 4,
+    characters: manifest.characters.map(({ file, mimeType, ...character }) => ({
+      ...character,
+      aliases: [],
+      description: '',
+      references: [{ id: crypto.randomUUID(), angle: 'front', mimeType, file }],
+    })),
+  }),
+  // v5: location library.
+  4: (manifest) => ({ ...manifest, schemaVersion: 5, locations: [] }),
+  // v6: per-project concurrency, rate limit and chaining settings.
+  5: (manifest) => ({ ...manifest, schemaVersion: 6, project: { ...manifest.project, generationSettings: DEFAULT_GENERATION_SETTINGS } }),
+  // v7: images record their scene number instead of relying on the tile name.
+  6: (manifest) => ({
+    ...manifest,
+    schemaVersion: 7,
+    images: manifest.images.map((image) => ({ ...image, sceneNumber: sceneNumberFromName(String(image.sceneName ?? '')) })),
+  }),
+  // v8: per-project image provider and model.
+  7: (manifest) => ({ ...manifest, schemaVersion: 8, project: { ...manifest.project, providerSettings: DEFAULT_PROVIDER_SETTINGS } }),
+  // v9: editable prompt template.
+  8: (manifest) => ({ ...manifest, schemaVersion: 9, project: { ...manifest.project, promptTemplate: DEFAULT_PROMPT_TEMPLATE } }),
+  // v10: per-image version history.
+  9: (manifest) => ({ ...manifest, schemaVersion: 10, images: manifest.images.map((image) => ({ ...image, versions: [] })) }),
+  // v11: number of candidates per scene; older projects made one.
+  10: (manifest) => ({
+    ...manifest,
+    schemaVersion: 11,
+    project: { ...manifest.project, generationSettings: { ...asRecord(manifest.project.generationSettings), candidatesPerScene: 1 } },
+  }),
+  // v12: text/watermark check of new images; older images were never checked.
+  11: (manifest) => ({
+    ...manifest,
+    schemaVersion: 12,
+    project: { ...manifest.project, generationSettings: { ...asRecord(manifest.project.generationSettings), artifactCheck: 'off' } },
+  }),
+  // v13: optional edit stacks on takes, motion overrides, delivery reframes and
+  // failure reasons on images (absent means none), and the mock provider's
+  // label switch.
+  12: (manifest) => ({
+    ...manifest,
+    schemaVersion: 13,
+    project: { ...manifest.project, providerSettings: { ...asRecord(manifest.project.providerSettings), mockLabels: false } },
+  }),
+};
+
+// The parts of the current shape that import reads without further checks.
+const checkManifest = (manifest: LegacyManifest): BundleManifest => {
+  requireField(manifest.project.name, 'project name', (value): value is string => typeof value === 'string');
+  const hasFile = (record: ManifestRecord) => typeof record.file === 'string';
+  const withReferences = (value: unknown): value is ManifestRecord[] =>
+    isRecordList(value) && value.every(record => isRecordList(record.references) && record.references.every(hasFile));
+  requireField(manifest.characters, 'character list', withReferences);
+  requireField(manifest.locations, 'location list', withReferences);
+  const isFailure = (value: unknown) => value === undefined || (isRecord(value) && typeof value.kind === 'string' && typeof value.message === 'string');
+  requireField(manifest.images, 'image list', (value): value is ManifestRecord[] =>
+    isRecordList(value) && value.every(image => isRecordList(image.versions) && image.versions.every(hasFile) && isFailure(image.failure)));
+  return manifest as unknown as BundleManifest;
+};
+
+const upgradeManifest = (raw: unknown): BundleManifest => {
+  if (!isRecord(raw)) throw new Error('Bundle manifest is not a JSON object.');
+  let version = typeof raw.schemaVersion === 'number' ? raw.schemaVersion : 1;
+  if (version > MANIFEST_SCHEMA_VERSION) {
+    throw new Error(`Bundle schema v${version} is newer than this app supports (v${MANIFEST_SCHEMA_VERSION}).`);
+  }
+  // Every schema version has these; what they hold is checked after upgrading.
+  let manifest: LegacyManifest = {
+    ...raw,
+    schemaVersion: version,
+    project: requireField(raw.project, 'project settings', isRecord),
+    images: requireField(raw.images, 'image list', isRecordList),
+    characters: requireField(raw.characters, 'character list', isRecordList),
+  };
+  while (version < MANIFEST_SCHEMA_VERSION) {
+    const migrate = manifestMigrations[version];
+    if (!migrate) throw new Error(`No migration from bundle schema v${version}.`);
+    manifest = migrate(manifest);
+    version = manifest.schemaVersion;
+  }
+  return checkManifest(manifest);
+};
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  const CHUNK = 0x8000;
+  for (let i = 0; i < bytes.length; i += CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK));
+  }
+  return btoa(binary);
+};
+
+export const parseDataUrl = (src: string): { mimeType: string; base64: string } | null => {
+  const match = src.match(/^data:([^;,]+);base64,(.*)$/s);
+  return match ? { mimeType: match[1], base64: match[2] } : null;
+};
+
+export const extensionFor = (mimeType: string) => {
+  const subtype = mimeType.split('/')[1] ?? 'bin';
+  return subtype === 'jpeg' ? 'jpg' : subtype.replace(/[^a-z0-9]/gi, '');
+};
+
+const mimeTypeFor = (fileName: string) => {
+  const ext = fileName.split('.').pop()?.toLowerCase();
+  return ext === 'jpg' ? 'image/jpeg' : `image/${ext}`;
+};
+
+export const slugify = (text: string) =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/đ/gi, 'd').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+// Plain archive of the given tiles' current images, named like bundle files.
+export const exportImageArchive = (images: GeneratedImage[]): Blob =>
+  createZip(images.flatMap((image, index) => {
+    const data = parseDataUrl(image.src);
+    if (!data) return [];
+    const name = `${String(index + 1).padStart(3, '0')}-${slugify(image.sceneName) || 'scene'}.${extensionFor(data.mimeType)}`;
+    return [{ name, data: base64ToBytes(data.base64) }];
+  }));
+
+export const exportProjectBundle = (project: Project, scenes: Scene[]): Blob => {
+  const entries: ZipEntry[] = [];
+
+  const images: BundleImageRecord[] = project.generatedImages.map((image, index) => {
+    const { src, isLoading, versions, failure, ...record } = image;
+    const stem = `images/${String(index + 1).padStart(3, '0')}-${slugify(image.sceneName) || 'scene'}`;
+    const data = parseDataUrl(src);
+    const file = data ? `${stem}.${extensionFor(data.mimeType)}` : undefined;
+    if (data && file) {
+      entries.push({ name: file, data: base64ToBytes(data.base64) });
+    }
+
+    // The current version shares the tile's file; older takes go in a folder per tile.
+    const versionRecords = versions.flatMap((version, versionIndex): BundleVersionRecord[] => {
+      const { src: versionSrc, ...versionRecord } = version;
+      if (file && versionSrc === src) return [{ ...versionRecord, file }];
+      const versionData = parseDataUrl(versionSrc);
+      if (!versionData) return [];
+      const versionFile = `${stem}/v${versionIndex + 1}.${extensionFor(versionData.mimeType)}`;
+      entries.push({ name: versionFile, data: base64ToBytes(versionData.base64) });
+      return [{ ...versionRecord, file: versionFile }];
+    });
+
+    if (!file) {
+      return src === 'error'
+        ? { ...record, status: 'error', failure, versions: versionRecords }
+        : { ...record, status: 'cancelled', versions: versionRecords };
+    }
+    return { ...record, status: 'ok', file, versions: versionRecords };
+  });
+
+  const packReferences = (folder: string, references: ReferenceImage[]): BundleReferenceRecord[] =>
+    references.map(({ imageBase64, ...reference }) => {
+      const file = `${folder}/${reference.id}.${extensionFor(reference.mimeType)}`;
+      entries.push({ name: file, data: base64ToBytes(imageBase64) });
+      return { ...reference, file };
+    });
+
+  const characters: BundleCharacterRecord[] = project.characters.map((character) => ({
+    ...character,
+    references: packReferences(`characters/${character.id}`, character.references),
+  }));
+
+  const locations: BundleLocationRecord[] = project.locations.map((location) => ({
+    ...location,
+    references: packReferences(`locations/${location.id}`, location.references),
+  }));
+
+  const manifest: BundleManifest = {
+    schemaVersion: MANIFEST_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    project: {
+      name: project.name,
+      storyContext: project.storyContext,
+      artStyle: project.artStyle,
+      promptsText: project.promptsText,
+      aspectRatio: project.aspectRatio,
+      batchSize: project.batchSize,
+      generationSettings: project.generationSettings,
+      providerSettings: project.providerSettings,
+      promptTemplate: project.promptTemplate,
+    },
+    scenes,
+    images,
+    characters,
+    locations,
+  };
+
+  entries.unshift({ name: MANIFEST_FILE, data: encodeText(JSON.stringify(manifest, null, 2)) });
+  return createZip(entries);
+};
+
+export const importProjectBundle = async (file: Blob): Promise<Project> => {
+  const files = await readZip(file);
+  const manifestData = files.get(MANIFEST_FILE);
+  if (!manifestData) {
+    throw new Error("Bundle is missing manifest.json.");
+  }
+  let raw: unknown;
+  try {
+    raw = JSON.parse(decodeText(manifestData));
+  } catch {
+    throw new Error("Bundle manifest.json is not valid JSON.");
+  }
+  const manifest = upgradeManifest(raw);
+
+  const readFile = (name: string) => {
+    const data = files.get(name);
+    if (!data) throw new Error(`Bundle is missing ${name}.`);
+    return bytesToBase64(data);
+  };
+
+  const unpackReferences = (references: BundleReferenceRecord[]): ReferenceImage[] =>
+    references.map(({ file: fileName, ...reference }) => ({
+      ...reference,
+      imageBase64: readFile(fileName),
+    }));
+
+  const characters: Character[] = manifest.characters.map((record) => ({
+    ...record,
+    references: unpackReferences(record.references),
+  }));
+
+  const locations: StoryLocation[] = manifest.locations.map((record) => ({
+    ...record,
+    references: unpackReferences(record.references),
+  }));
+
+  const readImage = (fileName: string) => `data:${mimeTypeFor(fileName)};base64,${readFile(fileName)}`;
+
+  const generatedImages: GeneratedImage[] = manifest.images.map(({ file: fileName, status, versions, ...record }) => withInitialVersion({
+    ...record,
+    isLoading: false,
+    src: status === 'ok' && fileName ? readImage(fileName) : status,
+    versions: versions.map(({ file: versionFile, ...version }) => ({ ...version, src: readImage(versionFile) })),
+  }));
+
+  return {
+    ...createEmptyProject(manifest.project.name),
+    ...manifest.project,
+    characters,
+    locations,
+    generatedImages,
+  };
+};
@@ -0,0 +1,158 @@
+import { AspectRatio, Character, GeneratedImage, Project, ProjectSummary } from '../types';
+import { DEFAULT_GENERATION_SETTINGS } from './GenerationScheduler';
+import { DEFAULT_PROVIDER_SETTINGS } from './ImageProvider';
+import { DEFAULT_PROMPT_TEMPLATE } from './PromptPresets';
+import { withInitialVersion } from './ImageHistory';
+
+const DB_NAME = 'nano-banana-projects';
+const DB_VERSION = 1;
+const PROJECT_STORE = 'projects';
+const LAST_PROJECT_KEY = 'nano-banana:lastProjectId';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Open the database once and share the connection between all calls.
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECT_STORE)) {
+          db.createObjectStore(PROJECT_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(PROJECT_STORE, mode);
+    const request = action(transaction.objectStore(PROJECT_STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const createEmptyProject = (name: string, defaults: { promptsText?: string; aspectRatio?: AspectRatio; batchSize?: number } = {}): Project => {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    storyContext: '',
+    artStyle: '',
+    promptsText: defaults.promptsText ?? '',
+    aspectRatio: defaults.aspectRatio ?? '16:9',
+    batchSize: defaults.batchSize ?? 10,
+    generationSettings: DEFAULT_GENERATION_SETTINGS,
+    providerSettings: DEFAULT_PROVIDER_SETTINGS,
+    promptTemplate: DEFAULT_PROMPT_TEMPLATE,
+    characters: [],
+    locations: [],
+    generatedImages: [],
+  };
+};
+
+export const sceneNumberFromName = (sceneName: string) => parseInt(sceneName.match(/Cảnh (\d+)/)?.[1] ?? '0', 10);
+
+// Older projects stored a single `characterRefId` per image, no scene number,
+// no version history and no failure reason.
+const upgradeImage = (img: GeneratedImage & { characterRefId?: string }): GeneratedImage => {
+  const { characterRefId, ...rest } = img;
+  return withInitialVersion({
+    ...rest,
+    sceneNumber: img.sceneNumber ?? sceneNumberFromName(img.sceneName),
+    characterRefIds: Array.isArray(img.characterRefIds) ? img.characterRefIds : characterRefId ? [characterRefId] : [],
+    versions: img.versions ?? [],
+    failure: img.src === 'error' ? img.failure : undefined,
+  });
+};
+
+// Older projects stored one image per character and no aliases/description.
+const upgradeCharacter = (character: Character & { imageBase64?: string; mimeType?: string }): Character => {
+  if (Array.isArray(character.references)) return character;
+  const { imageBase64, mimeType, ...rest } = character;
+  return {
+    ...rest,
+    aliases: rest.aliases ?? [],
+    description: rest.description ?? '',
+    references: imageBase64 ? [{ id: crypto.randomUUID(), angle: 'front', imageBase64, mimeType: mimeType ?? 'image/png' }] : [],
+  };
+};
+
+// A tile that was still loading when the session ended will never finish,
+// so it is restored as cancelled and can be regenerated from the grid.
+const settleImages = (images: GeneratedImage[]): GeneratedImage[] =>
+  images.map(upgradeImage).map(img => (img.isLoading ? { ...img, isLoading: false, src: img.src && img.src.startsWith('data:image') ? img.src : 'cancelled' } : img));
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const projects = await runRequest<Project[]>('readonly', store => store.getAll());
+  return projects
+    .map(({ id, name, createdAt, updatedAt }) => ({ id, name, createdAt, updatedAt }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadProject = async (id: string): Promise<Project | null> => {
+  const project = await runRequest<Project | undefined>('readonly', store => store.get(id));
+  if (!project) return null;
+  return {
+    ...project,
+    characters: (project.characters ?? []).map(upgradeCharacter),
+    locations: project.locations ?? [],
+    generationSettings: { ...DEFAULT_GENERATION_SETTINGS, ...project.generationSettings },
+    providerSettings: { ...DEFAULT_PROVIDER_SETTINGS, ...project.providerSettings },
+    promptTemplate: project.promptTemplate ?? DEFAULT_PROMPT_TEMPLATE,
+    generatedImages: settleImages(project.generatedImages ?? []),
+  };
+};
+
+export const saveProject = async (project: Project): Promise<void> => {
+  await runRequest('readwrite', store => store.put(project));
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  await runRequest('readwrite', store => store.delete(id));
+  if (getLastProjectId() === id) {
+    localStorage.removeItem(LAST_PROJECT_KEY);
+  }
+};
+
+export const renameProject = async (id: string, name: string): Promise<void> => {
+  const project = await runRequest<Project | undefined>('readonly', store => store.get(id));
+  if (!project) throw new Error(`Project ${id} not found`);
+  await saveProject({ ...project, name, updatedAt: Date.now() });
+};
+
+export const duplicateProject = async (id: string, name: string): Promise<Project> => {
+  const source = await loadProject(id);
+  if (!source) throw new Error(`Project ${id} not found`);
+  const now = Date.now();
+  const copy: Project = {
+    ...source,
+    id: crypto.randomUUID(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    // Tiles get their own identity so jobs and selections never cross projects.
+    generatedImages: source.generatedImages.map(img => ({ ...img, id: crypto.randomUUID() })),
+  };
+  await saveProject(copy);
+  return copy;
+};
+
+export const getLastProjectId = (): string | null => localStorage.getItem(LAST_PROJECT_KEY);
+
+export const setLastProjectId = (id: string) => {
+  localStorage.setItem(LAST_PROJECT_KEY, id);
+};
@@ -0,0 +1,184 @@
+import { Character, ImageGenerationRequest, PromptLanguage, ReferenceAngle, ReferenceImage, StoryLocation } from '../types';
+import { parseTemplate, renderTemplate, TemplateContext } from './PromptTemplate';
+
+interface RuleStrings {
+  countWords: string[];
+  angles: Record<ReferenceAngle, string>;
+  characterLabel: (name: string, angle: string) => string;
+  locationLabel: (name: string) => string;
+  characterRule: (name: string) => string;
+  locationRule: (name: string) => string;
+  heading: string;
+  onlyPrevious: string;
+  single: (label: string, rule: string) => string;
+  several: (count: string) => string;
+  image: (index: number, label: string, rule: string) => string;
+  noMixing: string;
+  previous: (index: number) => string;
+  closing: string;
+  descriptions: string;
+  locationDescription: (name: string, description: string) => string;
+}
+
+const RULE_STRINGS: Record<PromptLanguage, RuleStrings> = {
+  vi: {
+    countWords: ['KHÔNG', 'MỘT', 'HAI', 'BA', 'BỐN', 'NĂM', 'SÁU', 'BẢY', 'TÁM', 'CHÍN', 'MƯỜI'],
+    angles: { front: 'chính diện', profile: 'góc nghiêng', fullBody: 'toàn thân & trang phục', other: 'bổ sung' },
+    characterLabel: (name, angle) => `THAM CHIẾU NHÂN VẬT '${name}', ${angle}`,
+    locationLabel: (name) => `THAM CHIẾU BỐI CẢNH '${name}'`,
+    characterRule: (name) => `Đây là hình ảnh GỐC định nghĩa ngoại hình chuẩn của nhân vật **'${name}'**. TUYỆT ĐỐI giữ nguyên 100% các đặc điểm nhận dạng (khuôn mặt, kiểu tóc, màu da, và đặc biệt là **TRANG PHỤC**). Trang phục trong hình tham chiếu là **LUẬT BẤT BIẾN** và việc thay đổi nó bị coi là một lỗi nghiêm trọng.`,
+    locationRule: (name) => `Đây là hình ảnh GỐC của bối cảnh **'${name}'**. BẮT BUỘC giữ nguyên kiến trúc, bố trí đồ đạc chính, chất liệu và màu sắc của không gian này. Góc máy có thể thay đổi, nhưng căn phòng/địa điểm phải là CÙNG MỘT NƠI.`,
+    heading: '**LUẬT VỀ HÌNH ẢNH THAM CHIẾU (CỰC KỲ QUAN TRỌNG):**',
+    onlyPrevious: 'Bạn được cung cấp MỘT (1) hình ảnh tham chiếu là cảnh LIỀN KỀ TRƯỚC ĐÓ. BẮT BUỘC phải sao chép và áp dụng y hệt **PHONG CÁCH NGHỆ THUẬT, TÔNG MÀU, VÀ KHÔNG KHÍ ÁNH SÁNG** từ hình ảnh này để đảm bảo sự liền mạch.',
+    single: (label, rule) => `Bạn được cung cấp MỘT (1) hình ảnh tham chiếu (${label}). ${rule}`,
+    several: (count) => `Bạn được cung cấp ${count} hình ảnh tham chiếu đi kèm câu lệnh này.`,
+    image: (index, label, rule) => `- **HÌNH ${index} (${label}):** ${rule}`,
+    noMixing: '- **KHÔNG ĐƯỢC TRỘN LẪN NHÂN VẬT:** Mỗi nhân vật phải giữ đúng ngoại hình của hình tham chiếu tương ứng. Không được hoán đổi khuôn mặt, kiểu tóc hay trang phục giữa các nhân vật.',
+    previous: (index) => `- **HÌNH ${index} (THAM CHIẾU PHONG CÁCH):** Đây là hình ảnh của cảnh LIỀN KỀ TRƯỚC ĐÓ. BẮT BUỘC phải sao chép và áp dụng y hệt **PHONG CÁCH NGHỆ THUẬT, TÔNG MÀU, VÀ KHÔNG KHÍ ÁNH SÁNG** từ hình ảnh này. Mục tiêu là tạo ra sự liền mạch tuyệt đối, như thể các cảnh phim được cắt từ cùng một bộ phim.`,
+    closing: '**VIỆC THAY ĐỔI NHÂN VẬT, BỐI CẢNH HOẶC PHONG CÁCH SO VỚI CÁC HÌNH THAM CHIẾU NÀY BỊ COI LÀ LỖI NGHIÊM TRỌNG NHẤT.**',
+    descriptions: '**MÔ TẢ NGOẠI HÌNH NHÂN VẬT (BẮT BUỘC TUÂN THỦ):**',
+    locationDescription: (name, description) => `**MÔ TẢ BỐI CẢNH '${name}' (BẮT BUỘC TUÂN THỦ):** ${description}`,
+  },
+  en: {
+    countWords: ['ZERO', 'ONE', 'TWO', 'THREE', 'FOUR', 'FIVE', 'SIX', 'SEVEN', 'EIGHT', 'NINE', 'TEN'],
+    angles: { front: 'front view', profile: 'profile', fullBody: 'full body & outfit', other: 'additional' },
+    characterLabel: (name, angle) => `CHARACTER REFERENCE '${name}', ${angle}`,
+    locationLabel: (name) => `LOCATION REFERENCE '${name}'`,
+    characterRule: (name) => `This is the ORIGINAL image that defines the canonical appearance of the character **'${name}'**. Keep 100% of the identifying features (face, hairstyle, skin tone and especially the **OUTFIT**). The outfit in the reference is an **UNBREAKABLE RULE** and changing it counts as a serious error.`,
+    locationRule: (name) => `This is the ORIGINAL image of the location **'${name}'**. You MUST keep its architecture, main furniture layout, materials and colours. The camera angle may change, but it must be THE SAME PLACE.`,
+    heading: '**REFERENCE IMAGE RULES (EXTREMELY IMPORTANT):**',
+    onlyPrevious: 'You are given ONE (1) reference image: the IMMEDIATELY PREVIOUS scene. You MUST copy its **ART STYLE, COLOUR PALETTE AND LIGHTING MOOD** exactly to keep the sequence seamless.',
+    single: (label, rule) => `You are given ONE (1) reference image (${label}). ${rule}`,
+    several: (count) => `You are given ${count} reference images with this instruction.`,
+    image: (index, label, rule) => `- **IMAGE ${index} (${label}):** ${rule}`,
+    noMixing: '- **DO NOT MIX CHARACTERS UP:** Each character must keep the appearance of their own reference. Never swap faces, hairstyles or outfits between characters.',
+    previous: (index) => `- **IMAGE ${index} (STYLE REFERENCE):** This is the IMMEDIATELY PREVIOUS scene. You MUST copy its **ART STYLE, COLOUR PALETTE AND LIGHTING MOOD** exactly. The goal is perfect continuity, as if every shot was cut from the same film.`,
+    closing: '**CHANGING A CHARACTER, LOCATION OR STYLE AWAY FROM THESE REFERENCES IS THE MOST SERIOUS ERROR.**',
+    descriptions: '**CHARACTER APPEARANCE (MUST FOLLOW):**',
+    locationDescription: (name, description) => `**LOCATION '${name}' (MUST FOLLOW):** ${description}`,
+  },
+};
+
+export interface AttachedReference {
+  label: string;
+  rule: string;
+  reference: ReferenceImage;
+}
+
+// Every reference image, in the order they are attached to the request:
+// characters first, then the location set. The previous scene is added last.
+export const collectReferences = (characterRefs: Character[], locationRef: StoryLocation | undefined, language: PromptLanguage = 'vi'): AttachedReference[] => {
+  const strings = RULE_STRINGS[language];
+  return [
+    ...characterRefs.flatMap(character => character.references.map(reference => ({
+      label: strings.characterLabel(character.name, strings.angles[reference.angle]),
+      rule: strings.characterRule(character.name),
+      reference,
+    }))),
+    ...(locationRef?.references ?? []).map(reference => ({
+      label: strings.locationLabel(locationRef!.name),
+      rule: strings.locationRule(locationRef!.name),
+      reference,
+    })),
+  ];
+};
+
+// Builds the reference-image rules and appearance descriptions. Images are
+// numbered in the order they are attached, with the previous scene always last.
+const buildReferenceRules = (request: ImageGenerationRequest, language: PromptLanguage): string => {
+  const { characterRefs, locationRef, previousImage } = request;
+  const strings = RULE_STRINGS[language];
+  const references = collectReferences(characterRefs, locationRef, language);
+  const total = references.length + (previousImage ? 1 : 0);
+  const sections: string[] = [];
+
+  if (total === 1 && previousImage) {
+    sections.push(`${strings.heading} ${strings.onlyPrevious}`);
+  } else if (total === 1) {
+    sections.push(`${strings.heading} ${strings.single(references[0].label, references[0].rule)}`);
+  } else if (total > 1) {
+    const lines = [`${strings.heading} ${strings.several(`${strings.countWords[total] ?? total} (${total})`)}`];
+    references.forEach(({ label, rule }, index) => lines.push(strings.image(index + 1, label, rule)));
+    if (characterRefs.filter(c => c.references.length > 0).length > 1) {
+      lines.push(strings.noMixing);
+    }
+    if (previousImage) {
+      lines.push(strings.previous(total));
+    }
+    lines.push(strings.closing);
+    sections.push(lines.join('\n'));
+  }
+
+  const described = characterRefs.filter(c => c.description.trim() !== '');
+  if (described.length > 0) {
+    sections.push([strings.descriptions, ...described.map(c => `- **'${c.name}':** ${c.description.trim()}`)].join('\n'));
+  }
+
+  if (locationRef && locationRef.description.trim() !== '') {
+    sections.push(strings.locationDescription(locationRef.name, locationRef.description.trim()));
+  }
+
+  return sections.join('\n\n');
+};
+
+export const PROMPT_PLACEHOLDERS: { name: string; description: string }[] = [
+  { name: 'storyContext', description: 'Bối cảnh câu chuyện tổng thể' },
+  { name: 'artStyle', description: 'Phong cách nghệ thuật' },
+  { name: 'prompt', description: 'Prompt của cảnh (đã bỏ lời thoại)' },
+  { name: 'sceneNumber', description: 'Số cảnh' },
+  { name: 'sceneTitle', description: 'Tiêu đề cảnh' },
+  { name: 'sceneLocation', description: 'Địa điểm trong kịch bản' },
+  { name: 'sceneTime', description: 'Thời gian trong kịch bản' },
+  { name: 'characterNames', description: 'Tên các nhân vật có ảnh tham chiếu' },
+  { name: 'locationName', description: 'Tên bối cảnh trong thư viện' },
+  { name: 'referenceRules', description: 'Luật ảnh tham chiếu và mô tả ngoại hình' },
+  { name: 'isVariant', description: 'Đúng khi tạo lại (biến thể)' },
+  { name: 'hasReferences', description: 'Đúng khi có ít nhất một ảnh tham chiếu' },
+  { name: 'hasCharacterRefs', description: 'Đúng khi có ảnh nhân vật' },
+  { name: 'hasLocationRef', description: 'Đúng khi có ảnh bối cảnh' },
+  { name: 'hasPreviousImage', description: 'Đúng khi gửi kèm ảnh cảnh trước' },
+];
+
+const PLACEHOLDER_NAMES = PROMPT_PLACEHOLDERS.map(p => p.name);
+
+export const buildPromptContext = (request: ImageGenerationRequest): TemplateContext => {
+  const { scene, characterRefs, locationRef, previousImage, template } = request;
+  const references = collectReferences(characterRefs, locationRef, template.language);
+  return {
+    storyContext: request.storyContext,
+    artStyle: request.artStyle.trim(),
+    prompt: request.prompt,
+    sceneNumber: scene?.sceneNumber ?? '',
+    sceneTitle: scene?.title ?? '',
+    sceneLocation: scene?.location ?? '',
+    sceneTime: scene?.time ?? '',
+    characterNames: characterRefs.map(c => c.name).join(', '),
+    locationName: locationRef?.name ?? '',
+    referenceRules: buildReferenceRules(request, template.language),
+    isVariant: request.isVariant,
+    hasReferences: references.length > 0 || !!previousImage,
+    hasCharacterRefs: characterRefs.some(c => c.references.length > 0),
+    hasLocationRef: (locationRef?.references.length ?? 0) > 0,
+    hasPreviousImage: !!previousImage,
+  };
+};
+
+export const parsePromptTemplate = (body: string) => parseTemplate(body, PLACEHOLDER_NAMES);
+
+// The exact text sent with a request; the preview uses this too.
+export const renderScenePrompt = (request: ImageGenerationRequest): string =>
+  renderTemplate(parsePromptTemplate(request.template.body), buildPromptContext(request));
+
+const REFINE_PROMPTS: Record<PromptLanguage, (instruction: string) => string> = {
+  vi: (instruction) => `Chỉnh sửa hình ảnh được cung cấp theo yêu cầu sau: ${instruction}\nGiữ nguyên bố cục, góc máy, nhân vật, trang phục, bối cảnh và phong cách nghệ thuật; chỉ thay đổi những gì yêu cầu nhắc đến. Không thêm chữ, logo hay watermark.`,
+  en: (instruction) => `Edit the provided image as follows: ${instruction}\nKeep the composition, camera angle, characters, outfits, location and art style; change only what the instruction mentions. Do not add any text, logos or watermarks.`,
+};
+
+export const renderRefinePrompt = (instruction: string, language: PromptLanguage): string =>
+  REFINE_PROMPTS[language](instruction.trim());
+
+// The text a request actually sends, whether it composes a scene or refines a frame.
+export const renderRequestPrompt = (request: ImageGenerationRequest): string =>
+  request.refinement
+    ? renderRefinePrompt(request.refinement.instruction, request.template.language)
+    : renderScenePrompt(request);
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { parseTemplate, renderTemplate, TemplateContext } from './PromptTemplate';
+import { parsePromptTemplate, PROMPT_PLACEHOLDERS } from './PromptBuilder';
+import { PROMPT_PRESETS } from './PromptPresets';
+
+const NAMES = ['name', 'style', 'night', 'rain', 'count'];
+
+const render = (text: string, context: TemplateContext = {}) => {
+  const parsed = parseTemplate(text, NAMES);
+  expect(parsed.errors).toEqual([]);
+  return renderTemplate(parsed, context);
+};
+
+describe('renderTemplate', () => {
+  it('fills placeholders and tolerates spaces inside the braces', () => {
+    expect(render('Hello {{name}}, in {{ style }}.', { name: 'Claire', style: 'watercolour' })).toBe('Hello Claire, in watercolour.');
+  });
+
+  it('renders missing values as empty and numbers as text', () => {
+    expect(render('[{{name}}] {{count}}', { count: 0 })).toBe('[] 0');
+  });
+
+  it('numbers every {{n}} in order, skipped branches included', () => {
+    const text = '{{n}}. a\n{{#if rain}}{{n}}. rain\n{{/if}}{{n}}. b';
+    expect(render(text, { rain: true })).toBe('1. a\n2. rain\n3. b');
+    expect(render(text, { rain: false })).toBe('1. a\n2. b');
+  });
+
+  it('picks the branch by truthiness', () => {
+    const text = '{{#if name}}yes{{else}}no{{/if}}';
+    expect(render(text, { name: 'x' })).toBe('yes');
+    expect(render(text, { name: '   ' })).toBe('no');
+    expect(render(text, { name: 0 })).toBe('no');
+    expect(render(text, { name: 2 })).toBe('yes');
+    expect(render(text, {})).toBe('no');
+  });
+
+  it('negates with !', () => {
+    expect(render('{{#if !night}}day{{else}}night{{/if}}', { night: true })).toBe('night');
+    expect(render('{{#if ! night}}day{{/if}}', { night: false })).toBe('day');
+  });
+
+  it('nests conditionals', () => {
+    const text = '{{#if night}}night{{#if rain}} and rain{{else}} and clear{{/if}}{{else}}day{{#if rain}} and rain{{/if}}{{/if}}';
+    expect(render(text, { night: true, rain: true })).toBe('night and rain');
+    expect(render(text, { night: true, rain: false })).toBe('night and clear');
+    expect(render(text, { night: false, rain: true })).toBe('day and rain');
+    expect(render(text, {})).toBe('day');
+  });
+
+  it('drops the lines of block tags that stand alone', () => {
+    const text = 'A\n  {{#if rain}}\nRain\n{{else}}\nDry\n{{/if}}\nB';
+    expect(render(text, { rain: true })).toBe('A\nRain\nB');
+    expect(render(text, { rain: false })).toBe('A\nDry\nB');
+  });
+
+  it('keeps the line of a block tag that shares it with text', () => {
+    expect(render('A {{#if rain}}wet{{/if}}\nB', { rain: false })).toBe('A \nB');
+  });
+});
+
+describe('parseTemplate errors', () => {
+  const errors = (text: string) => parseTemplate(text, NAMES).errors;
+
+  it('reports unknown and malformed names on their line', () => {
+    expect(errors('ok\n{{nmae}}\n{{#if 2x}}{{/if}}')).toEqual([
+      { line: 2, message: 'Biến không tồn tại: {{nmae}}.' },
+      { line: 3, message: 'Tên không hợp lệ: "2x".' },
+    ]);
+  });
+
+  it('reports unbalanced blocks', () => {
+    expect(errors('{{else}}\n{{/if}}')).toEqual([
+      { line: 1, message: '{{else}} không nằm trong khối {{#if}}.' },
+      { line: 2, message: '{{/if}} không có {{#if}} tương ứng.' },
+    ]);
+    expect(errors('{{#if rain}}{{else}}{{else}}{{/if}}')).toEqual([expect.objectContaining({ line: 1, message: expect.stringContaining('{{else}}') })]);
+  });
+
+  it('reports an unclosed block at its opening line', () => {
+    expect(errors('a\n{{#if !rain}}\nb\n{{#if night}}c{{/if}}')).toEqual([
+      { line: 2, message: 'Khối {{#if !rain}} chưa được đóng bằng {{/if}}.' },
+    ]);
+  });
+
+  it('counts lines in the source, standalone block lines included', () => {
+    const text = '{{#if rain}}\nwet\n{{/if}}\n{{#if night}}\n{{/if}}\n{{oops}}';
+    expect(errors(text)).toEqual([{ line: 6, message: 'Biến không tồn tại: {{oops}}.' }]);
+  });
+
+  it('counts CRLF line endings', () => {
+    expect(errors('{{#if rain}}\r\nwet\r\n{{/if}}\r\n{{oops}}')).toEqual([expect.objectContaining({ line: 4 })]);
+  });
+});
+
+describe('parsePromptTemplate', () => {
+  it('accepts every placeholder the editor lists', () => {
+    const body = PROMPT_PLACEHOLDERS.map(p => `{{${p.name}}}`).join(' ');
+    expect(parsePromptTemplate(body).errors).toEqual([]);
+  });
+
+  it('accepts every preset', () => {
+    for (const preset of PROMPT_PRESETS) {
+      expect(parsePromptTemplate(preset.template.body).errors).toEqual([]);
+    }
+  });
+
+  it('rejects names outside the placeholder list', () => {
+    expect(parsePromptTemplate('{{#if hasPreviousImage}}\n{{sceneMood}}\n{{/if}}').errors).toEqual([{ line: 2, message: 'Biến không tồn tại: {{sceneMood}}.' }]);
+  });
+});
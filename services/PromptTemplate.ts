@@ -0,0 +1,132 @@
+/**
+ * Minimal template language for the generation prompt:
+ *
+ *   {{name}}                        value of a placeholder
+ *   {{n}}                           next number of an auto-incrementing counter
+ *   {{#if name}}…{{else}}…{{/if}}   conditional section (`!name` negates)
+ *
+ * A value is "true" when it is `true`, a non-zero number or a non-blank
+ * string. Block tags that sit alone on a line remove that whole line, so
+ * conditionals don't leave blank lines behind.
+ */
+
+export type TemplateValue = string | number | boolean;
+export type TemplateContext = Record<string, TemplateValue>;
+
+type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'value'; name: string }
+  | { type: 'counter' }
+  | { type: 'if'; name: string; negate: boolean; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+export interface TemplateError {
+  // 1-based line of the offending tag.
+  line: number;
+  message: string;
+}
+
+export interface ParsedTemplate {
+  nodes: TemplateNode[];
+  errors: TemplateError[];
+}
+
+const TAG = /\{\{\s*([^{}]*?)\s*\}\}/g;
+const BLOCK_TAG = /^(?:#if\s|else$|\/if$)/;
+const LINE_END = /^[ \t]*\r?\n/;
+const NAME = /^[A-Za-z][A-Za-z0-9]*$/;
+
+const lineAt = (text: string, index: number) => text.slice(0, index).split('\n').length;
+
+// Bounds of the whole line around a block tag that has nothing else on it,
+// or null when the tag shares its line with other text.
+const standaloneLine = (text: string, start: number, end: number) => {
+  const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+  const rest = LINE_END.exec(text.slice(end));
+  if (!rest || text.slice(lineStart, start).trim() !== '') return null;
+  return { start: lineStart, end: end + rest[0].length };
+};
+
+// `knownNames` lists the placeholders the caller can fill; anything else is reported.
+export const parseTemplate = (text: string, knownNames: string[]): ParsedTemplate => {
+  const errors: TemplateError[] = [];
+  const root: TemplateNode[] = [];
+  // Open `if` blocks, innermost last, with the branch currently being filled.
+  const stack: { node: Extract<TemplateNode, { type: 'if' }>; inElse: boolean; line: number }[] = [];
+
+  const current = () => {
+    const top = stack[stack.length - 1];
+    if (!top) return root;
+    return top.inElse ? top.node.otherwise : top.node.then;
+  };
+
+  const checkName = (name: string, line: number) => {
+    if (!NAME.test(name)) {
+      errors.push({ line, message: `Tên không hợp lệ: "${name}".` });
+    } else if (!knownNames.includes(name)) {
+      errors.push({ line, message: `Biến không tồn tại: {{${name}}}.` });
+    }
+  };
+
+  let last = 0;
+  for (const match of text.matchAll(TAG)) {
+    const index = match.index!;
+    const tag = match[1];
+    const line = lineAt(text, index);
+    // Lines are counted in the original text, before a standalone tag's line is dropped.
+    const span = (BLOCK_TAG.test(tag) && standaloneLine(text, index, index + match[0].length)) || { start: index, end: index + match[0].length };
+    if (span.start > last) current().push({ type: 'text', text: text.slice(last, span.start) });
+    last = span.end;
+
+    if (tag.startsWith('#if')) {
+      const condition = tag.slice(3).trim();
+      const negate = condition.startsWith('!');
+      const name = negate ? condition.slice(1).trim() : condition;
+      checkName(name, line);
+      const node: Extract<TemplateNode, { type: 'if' }> = { type: 'if', name, negate, then: [], otherwise: [] };
+      current().push(node);
+      stack.push({ node, inElse: false, line });
+    } else if (tag === 'else') {
+      const top = stack[stack.length - 1];
+      if (!top || top.inElse) {
+        errors.push({ line, message: '{{else}} không nằm trong khối {{#if}}.' });
+      } else {
+        top.inElse = true;
+      }
+    } else if (tag === '/if') {
+      if (!stack.pop()) errors.push({ line, message: '{{/if}} không có {{#if}} tương ứng.' });
+    } else if (tag === 'n') {
+      current().push({ type: 'counter' });
+    } else {
+      checkName(tag, line);
+      current().push({ type: 'value', name: tag });
+    }
+  }
+  if (last < text.length) current().push({ type: 'text', text: text.slice(last) });
+
+  for (const open of stack) {
+    errors.push({ line: open.line, message: `Khối {{#if ${open.node.negate ? '!' : ''}${open.node.name}}} chưa được đóng bằng {{/if}}.` });
+  }
+
+  return { nodes: root, errors };
+};
+
+const isTruthy = (value: TemplateValue | undefined) =>
+  typeof value === 'string' ? value.trim() !== '' : Boolean(value);
+
+export const renderTemplate = ({ nodes }: ParsedTemplate, context: TemplateContext): string => {
+  let counter = 0;
+  const render = (list: TemplateNode[]): string =>
+    list.map((node) => {
+      switch (node.type) {
+        case 'text':
+          return node.text;
+        case 'value':
+          return String(context[node.name] ?? '');
+        case 'counter':
+          return String(++counter);
+        case 'if':
+          return render(isTruthy(context[node.name]) !== node.negate ? node.then : node.otherwise);
+      }
+    }).join('');
+  return render(nodes);
+};
@@ -0,0 +1,10 @@
+// Script a new project starts with, showing every field the parser reads.
+export const DEFAULT_PROMPT = `Cảnh 32: Câu hỏi thực tế
+Nội dung: "'Is he hurt? Does he have a collar?'"
+Nội dung (Tiếng Việt): "'Nó có bị thương không? Có vòng cổ không?'"
+Địa điểm: "in the living room".
+Thời gian: "Night" (Tối).
+Prompt (Câu lệnh tiếng Anh): (Visual Style Guide) A digital painting, close-up on "Claire Hartley" (CIL: early 60s, kind but practical eyes). Her expression is focused and concerned, not sentimental yet, as she asks the "practical" (from C31) questions, "'Is he hurt? Does he have a collar?'" Warm interior light, 4K, realistic emotion.
+Nhân vật: Claire Hartley
+Thời lượng ảnh: 5-7 giây (Nhịp độ cơ bản)
+Ken Burns Effect (Chỉ đạo đạo diễn): Static (Không di chuyển). Giữ tĩnh để tập trung vào những câu hỏi nhanh, thực tế của bà.`;
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { Character, StoryLocation } from '../types';
+import { lintScript } from './ScriptLinter';
+
+const character = (name: string, aliases: string[] = []): Character =>
+  ({ id: name, name, aliases, description: '', references: [] });
+
+const location = (name: string, aliases: string[] = []): StoryLocation =>
+  ({ id: name, name, aliases, description: '', references: [] });
+
+const block = (n: number, fields = 'Nhân vật: Claire\nĐịa điểm: Kitchen') => `Cảnh ${n}: Tiêu đề
+Nội dung: Content
+Nội dung (Tiếng Việt): Nội dung
+Thời gian: Day
+Prompt: Prompt ${n}
+${fields}
+Thời lượng ảnh: 4 giây
+Ken Burns Effect: Static`;
+
+const lint = (promptsText: string, overrides: Partial<Parameters<typeof lintScript>[0]> = {}) =>
+  lintScript({ promptsText, artStyle: 'Watercolor', characters: [character('Claire')], locations: [], ...overrides });
+
+describe('lintScript', () => {
+  it('reports nothing for a clean script', () => {
+    expect(lint(`${block(1)}\n${block(2)}`)).toEqual([]);
+  });
+
+  it('reports an empty script as an error on the first line', () => {
+    expect(lint('')).toEqual([expect.objectContaining({ line: 1, severity: 'error' })]);
+  });
+
+  it('does not add the empty-script error when the parser already rejected a block', () => {
+    const diagnostics = lint('Cảnh 1: Không có prompt\nNội dung: Something');
+    expect(diagnostics.filter(d => d.severity === 'error')).toEqual([expect.objectContaining({ line: 1, field: 'prompt' })]);
+  });
+
+  it('flags a duplicated scene number at the second header and names the first line', () => {
+    const diagnostics = lint(`${block(1)}\n${block(1)}`);
+    expect(diagnostics).toEqual([expect.objectContaining({ line: 10, sceneNumber: 1, severity: 'error' })]);
+    expect(diagnostics[0].message).toContain('dòng 1');
+  });
+
+  it('warns about scenes out of order', () => {
+    expect(lint(`${block(2)}\n${block(1)}`)).toEqual([expect.objectContaining({ line: 10, sceneNumber: 1, severity: 'warning' })]);
+  });
+
+  it('targets the character field for names without a reference', () => {
+    const diagnostics = lint(block(3, 'Nhân vật: Claire, Tom\nĐịa điểm: Kitchen'));
+    expect(diagnostics).toEqual([expect.objectContaining({ line: 1, sceneNumber: 3, field: 'characterName', severity: 'warning' })]);
+    expect(diagnostics[0].message).toContain('"Tom"');
+  });
+
+  it('says so when no character references were uploaded at all', () => {
+    const [diagnostic] = lint(block(1), { characters: [] });
+    expect(diagnostic).toMatchObject({ field: 'characterName', severity: 'warning' });
+    expect(diagnostic.message).toContain('chưa có ảnh tham chiếu');
+  });
+
+  it('checks locations only once the library has entries', () => {
+    expect(lint(block(1))).toEqual([]);
+    expect(lint(block(1), { locations: [location('Garden')] }))
+      .toEqual([expect.objectContaining({ line: 1, field: 'location', severity: 'warning' })]);
+    expect(lint(block(1), { locations: [location('Bếp', ['Kitchen'])] })).toEqual([]);
+  });
+
+  it('reports a missing art style outside the script', () => {
+    expect(lint(block(1), { artStyle: '  ' })).toEqual([{ line: 0, target: 'artStyle', severity: 'warning', message: expect.any(String) }]);
+  });
+
+  it('sorts everything by line, parser findings included', () => {
+    const script = `${block(2)}\n${block(1, 'Nhân vật: Max\nĐịa điểm: Kitchen\nĐịa điểm: Hall')}`;
+    const diagnostics = lint(script, { artStyle: '' });
+    expect(diagnostics.map(d => d.line)).toEqual([0, 10, 10, 17]);
+    expect(diagnostics.map(d => d.field ?? d.target)).toEqual(['artStyle', undefined, 'characterName', 'location']);
+  });
+});
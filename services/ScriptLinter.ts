@@ -0,0 +1,80 @@
+import { Character, ScriptDiagnostic, StoryLocation } from '../types';
+import { parseScript } from './ScriptParser';
+import { splitCharacterNames, findCharacter, findLocation } from './CharacterMatcher';
+
+interface LintInput {
+  promptsText: string;
+  artStyle: string;
+  characters: Character[];
+  locations: StoryLocation[];
+}
+
+/**
+ * Validates the whole session before generation: everything the parser
+ * reports, plus checks that need the rest of the session (scene order,
+ * character and location references, art style). Results are sorted by
+ * script line.
+ */
+export const lintScript = ({ promptsText, artStyle, characters, locations }: LintInput): ScriptDiagnostic[] => {
+  const { scenes, diagnostics } = parseScript(promptsText);
+  const results: ScriptDiagnostic[] = [...diagnostics];
+
+  if (scenes.length === 0 && !diagnostics.some(d => d.severity === 'error')) {
+    results.push({ line: 1, severity: 'error', message: 'Không tìm thấy cảnh nào. Mỗi cảnh phải bắt đầu bằng dòng "Cảnh N: Tiêu đề".' });
+  }
+
+  const seen = new Map<number, number>();
+  scenes.forEach((scene, index) => {
+    const firstLine = seen.get(scene.sceneNumber);
+    if (firstLine !== undefined) {
+      results.push({
+        line: scene.lineNumber,
+        sceneNumber: scene.sceneNumber,
+        severity: 'error',
+        message: `Cảnh ${scene.sceneNumber} bị trùng số (đã có ở dòng ${firstLine}).`,
+      });
+    } else {
+      seen.set(scene.sceneNumber, scene.lineNumber);
+    }
+
+    const previous = scenes[index - 1];
+    if (previous && scene.sceneNumber < previous.sceneNumber) {
+      results.push({
+        line: scene.lineNumber,
+        sceneNumber: scene.sceneNumber,
+        severity: 'warning',
+        message: `Cảnh ${scene.sceneNumber} nằm sau cảnh ${previous.sceneNumber}; thứ tự cảnh bị đảo.`,
+      });
+    }
+
+    for (const name of splitCharacterNames(scene.characterName)) {
+      if (!findCharacter(name, characters)) {
+        results.push({
+          line: scene.lineNumber,
+          sceneNumber: scene.sceneNumber,
+          field: 'characterName',
+          severity: 'warning',
+          message: characters.length === 0
+            ? `Cảnh ${scene.sceneNumber}: nhân vật "${name}" chưa có ảnh tham chiếu nào được tải lên.`
+            : `Cảnh ${scene.sceneNumber}: nhân vật "${name}" không khớp với nhân vật tham chiếu nào.`,
+        });
+      }
+    }
+
+    if (locations.length > 0 && scene.location && !findLocation(scene.location, locations)) {
+      results.push({
+        line: scene.lineNumber,
+        sceneNumber: scene.sceneNumber,
+        field: 'location',
+        severity: 'warning',
+        message: `Cảnh ${scene.sceneNumber}: địa điểm "${scene.location}" không khớp với bối cảnh nào trong thư viện.`,
+      });
+    }
+  });
+
+  if (artStyle.trim() === '') {
+    results.push({ line: 0, target: 'artStyle', severity: 'warning', message: 'Chưa nhập phong cách nghệ thuật (Art Style).' });
+  }
+
+  return results.sort((a, b) => a.line - b.line);
+};
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { parseDuration, parseSceneBlock, parseScript } from './ScriptParser';
+import { DEFAULT_PROMPT } from './SampleScript';
+
+const FULL_BLOCK = (n: number, prompt = `Prompt for scene ${n}.`) => `Cảnh ${n}: Tiêu đề ${n}
+Nội dung: Content ${n}
+Nội dung (Tiếng Việt): Nội dung ${n}
+Địa điểm: Kitchen
+Thời gian: Day
+Prompt (Câu lệnh tiếng Anh): ${prompt}
+Nhân vật: Claire
+Thời lượng ảnh: 4 giây
+Ken Burns Effect: Zoom in`;
+
+describe('parseScript', () => {
+  it('reads every field of the sample script', () => {
+    const { scenes, diagnostics } = parseScript(DEFAULT_PROMPT);
+    expect(diagnostics).toEqual([]);
+    expect(scenes).toHaveLength(1);
+    const [scene] = scenes;
+    expect(scene).toMatchObject({
+      sceneNumber: 32,
+      title: 'Câu hỏi thực tế',
+      content: "Is he hurt? Does he have a collar?",
+      contentVi: 'Nó có bị thương không? Có vòng cổ không?',
+      location: 'in the living room',
+      time: 'Night (Tối)',
+      characterName: 'Claire Hartley',
+      duration: '5-7 giây (Nhịp độ cơ bản)',
+      durationRange: { min: 5, max: 7 },
+      lineNumber: 1,
+    });
+    expect(scene.prompt).toMatch(/^\(Visual Style Guide\) A digital painting/);
+    expect(scene.kenBurns).toMatch(/^Static/);
+  });
+
+  it('splits blocks at scene headers and keeps their starting lines', () => {
+    const { scenes } = parseScript(`${FULL_BLOCK(1)}\n\n${FULL_BLOCK(2)}`);
+    expect(scenes.map(s => [s.sceneNumber, s.lineNumber])).toEqual([[1, 1], [2, 11]]);
+  });
+
+  it('continues a field on lines without a label', () => {
+    const { scenes } = parseScript(FULL_BLOCK(1, 'First line\nsecond line'));
+    expect(scenes[0].prompt).toBe('First line\nsecond line');
+  });
+
+  it('rejects a block without a Prompt field and reports its header line', () => {
+    const script = `${FULL_BLOCK(1)}\nCảnh 2: Không có prompt\nNội dung: Something`;
+    const { scenes, diagnostics } = parseScript(script);
+    expect(scenes.map(s => s.sceneNumber)).toEqual([1]);
+    const errors = diagnostics.filter(d => d.severity === 'error');
+    expect(errors).toEqual([expect.objectContaining({ line: 10, sceneNumber: 2, field: 'prompt' })]);
+    expect(errors[0].message).toContain('thiếu trường');
+  });
+
+  it('rejects a block with an empty Prompt field and reports the field line', () => {
+    const script = `Cảnh 3: Trống\nNội dung: Something\nPrompt:   \nNhân vật: Claire`;
+    const { scenes, diagnostics } = parseScript(script);
+    expect(scenes).toEqual([]);
+    expect(diagnostics).toEqual([expect.objectContaining({ line: 3, sceneNumber: 3, field: 'prompt', severity: 'error' })]);
+    expect(diagnostics[0].message).toContain('trống');
+  });
+
+  it('warns about a duplicated field and keeps the last value', () => {
+    const script = FULL_BLOCK(4).replace('Địa điểm: Kitchen', 'Địa điểm: Kitchen\nĐịa điểm: Garden');
+    const { scenes, diagnostics } = parseScript(script);
+    expect(scenes[0].location).toBe('Garden');
+    expect(diagnostics).toEqual([expect.objectContaining({ line: 5, field: 'location', severity: 'warning' })]);
+  });
+
+  it('warns about missing optional fields without rejecting the scene', () => {
+    const { scenes, diagnostics } = parseScript('Cảnh 5:\nPrompt: Only a prompt');
+    expect(scenes).toHaveLength(1);
+    expect(scenes[0].characterName).toBe('Không');
+    expect(diagnostics.every(d => d.severity === 'warning' && d.line === 1)).toBe(true);
+    expect(diagnostics.map(d => d.field)).toContain('title');
+    expect(diagnostics.map(d => d.field)).toContain('duration');
+  });
+
+  it('warns when the duration has no number in it', () => {
+    const { scenes, diagnostics } = parseScript(FULL_BLOCK(6).replace('4 giây', 'khá lâu'));
+    expect(scenes[0].durationRange).toBeNull();
+    expect(diagnostics).toEqual([expect.objectContaining({ line: 8, field: 'duration', severity: 'warning' })]);
+  });
+
+  it('ignores text before the first scene header', () => {
+    const { scenes, diagnostics } = parseScript(`Ghi chú chung\n${FULL_BLOCK(7)}`);
+    expect(scenes).toHaveLength(1);
+    expect(scenes[0].lineNumber).toBe(2);
+    expect(diagnostics).toEqual([]);
+  });
+});
+
+describe('parseDuration', () => {
+  it.each([
+    ['5-7 giây', { min: 5, max: 7 }],
+    ['7 – 5 giây', { min: 5, max: 7 }],
+    ['3 đến 4,5 giây', { min: 3, max: 4.5 }],
+    ['2.5 to 3', { min: 2.5, max: 3 }],
+    ['6 giây', { min: 6, max: 6 }],
+  ])('reads "%s"', (text, range) => {
+    expect(parseDuration(text)).toEqual(range);
+  });
+
+  it('returns null without a number', () => {
+    expect(parseDuration('vài giây')).toBeNull();
+  });
+});
+
+describe('parseSceneBlock', () => {
+  it('accepts a block without the scene header', () => {
+    const scene = parseSceneBlock('Prompt: A quiet street\nNhân vật: Claire');
+    expect(scene).toMatchObject({ sceneNumber: 0, prompt: 'A quiet street', characterName: 'Claire' });
+  });
+
+  it('returns null when the prompt is missing', () => {
+    expect(parseSceneBlock('Nội dung: Something')).toBeNull();
+  });
+});
@@ -0,0 +1,191 @@
+import { Scene, SceneField, ScriptDiagnostic } from '../types';
+
+export interface ParsedScript {
+  scenes: Scene[];
+  diagnostics: ScriptDiagnostic[];
+}
+
+type BlockField = Exclude<SceneField, 'title'>;
+
+const SCENE_HEADER_REGEX = /^[\s*#]*Cảnh\s+(\d+)\s*[:.]\s*(.*?)[\s*]*$/i;
+
+// Order matters: "Nội dung (Tiếng Việt)" must be tried before "Nội dung".
+const FIELD_LABELS: { field: BlockField; regex: RegExp }[] = [
+  { field: 'contentVi', regex: /^[\s*-]*Nội dung\s*\(Tiếng Việt\)[\s*]*:\s*/i },
+  { field: 'content', regex: /^[\s*-]*Nội dung[\s*]*:\s*/i },
+  { field: 'location', regex: /^[\s*-]*Địa điểm[\s*]*:\s*/i },
+  { field: 'time', regex: /^[\s*-]*Thời gian[\s*]*:\s*/i },
+  { field: 'prompt', regex: /^[\s*-]*Prompt(?:\s*\([^)]*\))?[\s*]*:\s*/i },
+  { field: 'characterName', regex: /^[\s*-]*Nhân vật[\s*]*:\s*/i },
+  { field: 'duration', regex: /^[\s*-]*Thời lượng(?: ảnh)?[\s*]*:\s*/i },
+  { field: 'kenBurns', regex: /^[\s*-]*Ken Burns(?: Effect)?(?:\s*\([^)]*\))?[\s*]*:\s*/i },
+];
+
+const FIELD_LABEL_NAMES: Record<SceneField, string> = {
+  title: 'Tiêu đề cảnh',
+  content: 'Nội dung',
+  contentVi: 'Nội dung (Tiếng Việt)',
+  location: 'Địa điểm',
+  time: 'Thời gian',
+  prompt: 'Prompt (Câu lệnh tiếng Anh)',
+  characterName: 'Nhân vật',
+  duration: 'Thời lượng ảnh',
+  kenBurns: 'Ken Burns Effect',
+};
+
+const OPTIONAL_FIELDS: SceneField[] = ['title', 'content', 'contentVi', 'location', 'time', 'characterName', 'duration', 'kenBurns'];
+
+export const fieldLabel = (field: SceneField) => FIELD_LABEL_NAMES[field];
+
+// Strips the decoration scripts put around values: a trailing period and
+// quotes wrapping the whole value or its leading segment ("Night" (Tối).).
+const cleanValue = (value: string): string => {
+  let result = value.trim().replace(/\.$/, '').trim();
+  const wrapped = result.match(/^(["'“”])([\s\S]*)\1$/);
+  if (wrapped) {
+    result = wrapped[2].trim();
+    const inner = result.match(/^(["'])([\s\S]*)\1$/);
+    if (inner) result = inner[2].trim();
+  } else {
+    result = result.replace(/^"([^"]*)"/, '$1');
+  }
+  return result;
+};
+
+export const parseDuration = (text: string): { min: number; max: number } | null => {
+  const toNumber = (s: string) => parseFloat(s.replace(',', '.'));
+  const range = text.match(/(\d+(?:[.,]\d+)?)\s*(?:-|–|—|~|đến|to)\s*(\d+(?:[.,]\d+)?)/i);
+  if (range) {
+    const a = toNumber(range[1]);
+    const b = toNumber(range[2]);
+    return { min: Math.min(a, b), max: Math.max(a, b) };
+  }
+  const single = text.match(/(\d+(?:[.,]\d+)?)/);
+  if (single) {
+    const value = toNumber(single[1]);
+    return { min: value, max: value };
+  }
+  return null;
+};
+
+const parseBlock = (lines: string[], startLine: number, diagnostics: ScriptDiagnostic[]): Scene | null => {
+  const header = lines[0].match(SCENE_HEADER_REGEX);
+  if (!header) return null;
+  const sceneNumber = parseInt(header[1], 10);
+
+  const values: Partial<Record<BlockField, string[]>> = {};
+  const fieldLines: Partial<Record<BlockField, number>> = {};
+  let current: BlockField | null = null;
+
+  lines.slice(1).forEach((line, offset) => {
+    const label = FIELD_LABELS.find(({ regex }) => regex.test(line));
+    if (label) {
+      current = label.field;
+      if (values[current]) {
+        diagnostics.push({
+          line: startLine + offset + 1,
+          sceneNumber,
+          field: current,
+          severity: 'warning',
+          message: `Trường "${fieldLabel(current)}" xuất hiện nhiều lần; dùng giá trị cuối cùng.`,
+        });
+      }
+      values[current] = [line.replace(label.regex, '')];
+      fieldLines[current] = startLine + offset + 1;
+    } else if (current) {
+      values[current]!.push(line);
+    }
+  });
+
+  const read = (field: BlockField) => (values[field] ?? []).join('\n').trim();
+  const prompt = read('prompt');
+
+  if (!prompt) {
+    diagnostics.push({
+      line: fieldLines.prompt ?? startLine,
+      sceneNumber,
+      field: 'prompt',
+      severity: 'error',
+      message: values.prompt
+        ? `Cảnh ${sceneNumber}: trường "${fieldLabel('prompt')}" trống. Cảnh bị bỏ qua.`
+        : `Cảnh ${sceneNumber}: thiếu trường "${fieldLabel('prompt')}". Cảnh bị bỏ qua.`,
+    });
+    return null;
+  }
+
+  const scene: Scene = {
+    sceneNumber,
+    title: cleanValue(header[2] ?? ''),
+    content: cleanValue(read('content')),
+    contentVi: cleanValue(read('contentVi')),
+    location: cleanValue(read('location')),
+    time: cleanValue(read('time')),
+    prompt,
+    characterName: read('characterName') || 'Không',
+    duration: read('duration'),
+    durationRange: parseDuration(read('duration')),
+    kenBurns: read('kenBurns'),
+    fullText: lines.join('\n').trim(),
+    lineNumber: startLine,
+  };
+
+  for (const field of OPTIONAL_FIELDS) {
+    const missing = field === 'title' ? !scene.title : !values[field as BlockField];
+    if (missing) {
+      diagnostics.push({
+        line: startLine,
+        sceneNumber,
+        field,
+        severity: 'warning',
+        message: `Cảnh ${sceneNumber}: thiếu trường "${fieldLabel(field)}".`,
+      });
+    }
+  }
+  if (values.duration && !scene.durationRange) {
+    diagnostics.push({
+      line: fieldLines.duration ?? startLine,
+      sceneNumber,
+      field: 'duration',
+      severity: 'warning',
+      message: `Cảnh ${sceneNumber}: không đọc được số giây trong "${scene.duration}".`,
+    });
+  }
+
+  return scene;
+};
+
+/**
+ * Parses a pasted scene script into scenes. Each block starts with a
+ * "Cảnh N: Title" line and runs until the next one; lines without a known
+ * label continue the previous field. Blocks without a prompt are rejected
+ * and reported in `diagnostics` with their 1-based line number.
+ */
+export const parseScript = (text: string): ParsedScript => {
+  const lines = text.normalize('NFC').split(/\r?\n/);
+  const scenes: Scene[] = [];
+  const diagnostics: ScriptDiagnostic[] = [];
+
+  let blockStart = -1;
+  const flush = (end: number) => {
+    if (blockStart === -1) return;
+    const scene = parseBlock(lines.slice(blockStart, end), blockStart + 1, diagnostics);
+    if (scene) scenes.push(scene);
+  };
+
+  lines.forEach((line, index) => {
+    if (SCENE_HEADER_REGEX.test(line)) {
+      flush(index);
+      blockStart = index;
+    }
+  });
+  flush(lines.length);
+
+  return { scenes, diagnostics };
+};
+
+// Parses a single scene block, e.g. the `sceneScript` stored on a tile. The
+// "Cảnh N:" header is optional here since users often edit only the fields.
+export const parseSceneBlock = (text: string): Scene | null => {
+  const hasHeader = text.split(/\r?\n/).some(line => SCENE_HEADER_REGEX.test(line));
+  return parseScript(hasHeader ? text : `Cảnh 0:\n${text}`).scenes[0] ?? null;
+};
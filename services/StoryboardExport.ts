@@ -0,0 +1,95 @@
+import { GeneratedImage } from '../types';
+import { parseSceneBlock } from './ScriptParser';
+import { isImageSrc } from './ImageHistory';
+
+export type PageOrientation = 'portrait' | 'landscape';
+
+export interface StoryboardLayout {
+  columns: number;
+  rows: number;
+  orientation: PageOrientation;
+}
+
+export const DEFAULT_STORYBOARD_LAYOUT: StoryboardLayout = { columns: 2, rows: 3, orientation: 'portrait' };
+
+// A4 with 10mm margins; pages are sized in mm so print and screen match.
+const PAGE_MM: Record<PageOrientation, [number, number]> = { portrait: [210, 297], landscape: [297, 210] };
+const MARGIN_MM = 10;
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const renderFrame = (image: GeneratedImage) => {
+  const scene = parseSceneBlock(image.sceneScript);
+  const heading = scene ? `Cảnh ${scene.sceneNumber}${scene.title ? `: ${scene.title}` : ''}` : image.sceneName;
+  const rows = [
+    ['Nội dung', scene?.contentVi || scene?.content || ''],
+    ['Thời lượng', scene?.duration ?? ''],
+    ['Ken Burns', scene?.kenBurns ?? ''],
+  ].filter(([, value]) => value);
+
+  const picture = isImageSrc(image.src)
+    ? `<img src="${image.src}" alt="${escapeHtml(heading)}">`
+    : `<span class="empty">Chưa có ảnh</span>`;
+
+  return `<figure class="frame">
+  <div class="picture">${picture}</div>
+  <figcaption>
+    <h2>${escapeHtml(heading)}</h2>
+    <dl>${rows.map(([label, value]) => `<dt>${label}</dt><dd>${escapeHtml(value)}</dd>`).join('')}</dl>
+  </figcaption>
+</figure>`;
+};
+
+/**
+ * Print-ready HTML contact sheet of the given tiles, `columns × rows` frames
+ * per page, each captioned with the metadata of its scene block. Printing it
+ * to PDF from the browser gives the paper layout.
+ */
+export const buildStoryboardHtml = (title: string, images: GeneratedImage[], layout: StoryboardLayout): string => {
+  const perPage = Math.max(1, layout.columns * layout.rows);
+  const pages: GeneratedImage[][] = [];
+  for (let i = 0; i < images.length; i += perPage) pages.push(images.slice(i, i + perPage));
+  const [width, height] = PAGE_MM[layout.orientation];
+
+  const body = pages.map((frames, index) => `<section class="page">
+  <header><span>${escapeHtml(title)}</span><span>Trang ${index + 1}/${pages.length}</span></header>
+  <div class="grid">${frames.map(renderFrame).join('\n')}</div>
+</section>`).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="vi">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)} · Storyboard</title>
+<style>
+  @page { size: A4 ${layout.orientation}; margin: 0; }
+  * { box-sizing: border-box; }
+  body { margin: 0; background: #e5e7eb; font-family: system-ui, sans-serif; color: #111827; }
+  .toolbar { position: sticky; top: 0; padding: 8px; text-align: center; background: #1f2937; }
+  .toolbar button { padding: 6px 16px; font-size: 14px; cursor: pointer; }
+  .page { width: ${width}mm; height: ${height}mm; padding: ${MARGIN_MM}mm; margin: 8mm auto; background: #fff; display: flex; flex-direction: column; page-break-after: always; break-after: page; overflow: hidden; }
+  .page > header { display: flex; justify-content: space-between; font-size: 9pt; color: #4b5563; margin-bottom: 4mm; }
+  .grid { flex: 1; min-height: 0; display: grid; gap: 4mm; grid-template-columns: repeat(${layout.columns}, minmax(0, 1fr)); grid-template-rows: repeat(${layout.rows}, minmax(0, 1fr)); }
+  .frame { margin: 0; min-height: 0; display: flex; flex-direction: column; border: 1px solid #d1d5db; padding: 2mm; break-inside: avoid; }
+  .picture { flex: 1 1 0; min-height: 0; background: #f3f4f6; display: flex; align-items: center; justify-content: center; overflow: hidden; }
+  .picture img { width: 100%; height: 100%; object-fit: contain; }
+  .empty { font-size: 9pt; color: #9ca3af; }
+  figcaption { flex: 0 0 auto; max-height: 45%; overflow: hidden; margin-top: 1.5mm; font-size: 7.5pt; line-height: 1.3; }
+  figcaption h2 { margin: 0 0 1mm; font-size: 9pt; }
+  dl { margin: 0; display: grid; grid-template-columns: auto 1fr; gap: 0.5mm 2mm; }
+  dt { color: #6b7280; }
+  dd { margin: 0; }
+  @media print {
+    body { background: none; }
+    .toolbar { display: none; }
+    .page { margin: 0; }
+  }
+</style>
+</head>
+<body>
+<div class="toolbar"><button onclick="window.print()">In / Lưu thành PDF</button></div>
+${body}
+</body>
+</html>`;
+};
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { GeneratedImage } from '../types';
+import { buildSubtitles, buildVoiceOverScript } from './SubtitleExport';
+
+const tile = (sceneNumber: number, duration: string, narration = ''): GeneratedImage => ({
+  id: `t${sceneNumber}`,
+  prompt: '',
+  src: 'data:image/png;base64,AAAA',
+  isLoading: false,
+  sceneNumber,
+  characterRefIds: [],
+  isSelected: false,
+  sceneName: `Cảnh ${sceneNumber}`,
+  sceneScript: `Cảnh ${sceneNumber}: Tiêu đề ${sceneNumber}\nPrompt: Scene ${sceneNumber}\nThời lượng ảnh: ${duration}${narration}`,
+  versions: [],
+});
+
+const both = (vi: string, en: string) => `\nNội dung (Tiếng Việt): ${vi}\nNội dung: ${en}`;
+
+describe('buildSubtitles', () => {
+  const images = [
+    tile(2, '2-3 giây', both('Hai', 'Two')),
+    tile(1, '1-2 giây', both('Một', 'One')),
+    tile(3, '4 giây'),
+    tile(4, '1 giây', both('Bốn', 'Four')),
+  ];
+
+  it('writes SRT cues numbered from 1 in scene order, with comma milliseconds', () => {
+    expect(buildSubtitles(images, 'srt', 'vi')).toBe(
+      '1\n00:00:00,000 --> 00:00:01,500\nMột\n\n'
+      + '2\n00:00:01,500 --> 00:00:04,000\nHai\n\n'
+      + '3\n00:00:08,000 --> 00:00:09,000\nBốn\n',
+    );
+  });
+
+  it('writes WebVTT with a header, dot milliseconds and no cue numbers', () => {
+    expect(buildSubtitles(images, 'vtt', 'en')).toBe(
+      'WEBVTT\n\n'
+      + '00:00:00.000 --> 00:00:01.500\nOne\n\n'
+      + '00:00:01.500 --> 00:00:04.000\nTwo\n\n'
+      + '00:00:08.000 --> 00:00:09.000\nFour\n',
+    );
+  });
+
+  it('rolls minutes over into hours', () => {
+    const long = [tile(1, '3599-3600 giây'), tile(2, '1 giây', both('Một giờ', 'One hour'))];
+    expect(buildSubtitles(long, 'srt', 'vi')).toBe('1\n00:59:59,500 --> 01:00:00,500\nMột giờ\n');
+    expect(buildSubtitles(long, 'vtt', 'vi')).toBe('WEBVTT\n\n00:59:59.500 --> 01:00:00.500\nMột giờ\n');
+  });
+
+  it('falls back to the other language when a scene has only one narration line', () => {
+    const mixed = [tile(1, '2 giây', '\nNội dung: Only English'), tile(2, '2 giây', '\nNội dung (Tiếng Việt): Chỉ tiếng Việt')];
+    expect(buildSubtitles(mixed, 'vtt', 'vi')).toContain('00:00:00.000 --> 00:00:02.000\nOnly English');
+    expect(buildSubtitles(mixed, 'vtt', 'en')).toContain('00:00:02.000 --> 00:00:04.000\nChỉ tiếng Việt');
+  });
+
+  it('keeps multi-line narration in one cue without blank lines', () => {
+    const multiline = [tile(1, '2 giây', '\nNội dung (Tiếng Việt): Dòng một\n   \n  Dòng hai  ')];
+    expect(buildSubtitles(multiline, 'srt', 'vi')).toBe('1\n00:00:00,000 --> 00:00:02,000\nDòng một\nDòng hai\n');
+  });
+
+  it('rounds to whole milliseconds', () => {
+    const thirds = [tile(1, '1-1,3335 giây', both('A', 'A')), tile(2, '1 giây', both('B', 'B'))];
+    expect(buildSubtitles(thirds, 'srt', 'vi')).toContain('00:00:01,167 --> 00:00:02,167');
+  });
+});
+
+describe('buildVoiceOverScript', () => {
+  it('lists every scene with its timing and both narration lines', () => {
+    const images = [tile(1, '1-2 giây', both('Một', 'One')), tile(2, '4 giây')];
+    expect(buildVoiceOverScript('Phim', images)).toBe([
+      'Phim · Kịch bản lồng tiếng',
+      'Tổng thời lượng: 00:05 · 2 cảnh',
+      'Cảnh 1: Tiêu đề 1\n[00:00 – 00:01 · 1.5s]\nTiếng Việt: Một\nEnglish: One',
+      'Cảnh 2: Tiêu đề 2\n[00:01 – 00:05 · 4s]\n(Không có lời dẫn)',
+    ].join('\n\n') + '\n');
+  });
+});
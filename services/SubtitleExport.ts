@@ -0,0 +1,56 @@
+import { GeneratedImage, PromptLanguage } from '../types';
+import { AnimaticClip, buildAnimaticTimeline } from './Animatic';
+
+export type SubtitleFormat = 'srt' | 'vtt';
+
+// "Nội dung (Tiếng Việt)" for Vietnamese, "Nội dung" for English; each falls
+// back to the other so a scene with only one line still gets a cue.
+const narration = (clip: AnimaticClip, language: PromptLanguage) => {
+  const scene = clip.scene;
+  if (!scene) return '';
+  const text = language === 'vi' ? scene.contentVi || scene.content : scene.content || scene.contentVi;
+  // A blank line would end the cue early.
+  return text.split('\n').map(line => line.trim()).filter(Boolean).join('\n');
+};
+
+const timestamp = (seconds: number, separator: ',' | '.') => {
+  const ms = Math.round(seconds * 1000);
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  return `${pad(Math.floor(ms / 3_600_000))}:${pad(Math.floor(ms / 60_000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}${separator}${pad(ms % 1000, 3)}`;
+};
+
+/**
+ * One cue per scene with narration, timed from the same timeline as the
+ * animatic and the NLE exports so they line up.
+ */
+export const buildSubtitles = (images: GeneratedImage[], format: SubtitleFormat, language: PromptLanguage): string => {
+  const separator = format === 'srt' ? ',' : '.';
+  const cues = buildAnimaticTimeline(images).clips
+    .map(clip => ({ clip, text: narration(clip, language) }))
+    .filter(({ text }) => text)
+    .map(({ clip, text }, index) => {
+      const range = `${timestamp(clip.start, separator)} --> ${timestamp(clip.start + clip.duration, separator)}`;
+      return format === 'srt' ? `${index + 1}\n${range}\n${text}` : `${range}\n${text}`;
+    });
+  const body = cues.join('\n\n') + '\n';
+  return format === 'vtt' ? `WEBVTT\n\n${body}` : body;
+};
+
+/** Plain-text script for the narrator: both narration lines per scene with timings. */
+export const buildVoiceOverScript = (title: string, images: GeneratedImage[]): string => {
+  const { clips, total } = buildAnimaticTimeline(images);
+  const clock = (seconds: number) => timestamp(seconds, '.').slice(3, 8);
+  const sections = clips.map(clip => {
+    const scene = clip.scene;
+    const heading = scene ? `Cảnh ${scene.sceneNumber}${scene.title ? `: ${scene.title}` : ''}` : clip.sceneName;
+    const lines = [
+      heading,
+      `[${clock(clip.start)} – ${clock(clip.start + clip.duration)} · ${clip.duration}s]`,
+      scene?.contentVi ? `Tiếng Việt: ${scene.contentVi}` : '',
+      scene?.content ? `English: ${scene.content}` : '',
+      scene?.contentVi || scene?.content ? '' : '(Không có lời dẫn)',
+    ];
+    return lines.filter(Boolean).join('\n');
+  });
+  return [`${title} · Kịch bản lồng tiếng`, `Tổng thời lượng: ${clock(total)} · ${clips.length} cảnh`, ...sections].join('\n\n') + '\n';
+};
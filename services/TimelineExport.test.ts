@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { GeneratedImage } from '../types';
+import { exportTimelineArchive, TimelineExportOptions } from './TimelineExport';
+import { decodeText, readZip } from './ZipArchive';
+
+const tile = (sceneNumber: number, duration: string, extra: Partial<GeneratedImage> = {}, script = ''): GeneratedImage => ({
+  id: `t${sceneNumber}`,
+  prompt: '',
+  src: 'data:image/png;base64,AAAA',
+  isLoading: false,
+  sceneNumber,
+  characterRefIds: [],
+  isSelected: false,
+  sceneName: `Cảnh ${sceneNumber}`,
+  sceneScript: `Cảnh ${sceneNumber}: Tiêu đề ${sceneNumber}\nPrompt: Scene ${sceneNumber}\nThời lượng ảnh: ${duration}${script}`,
+  versions: [],
+  ...extra,
+});
+
+// 1.5 s, 2.5 s and 3.3 s: they start at 0, 1.5 and 4 s and end at 7.3 s.
+const SCENES = [tile(1, '1-2 giây'), tile(2, '2-3 giây'), tile(3, '3-3,6 giây')];
+
+const exportTimeline = async (images: GeneratedImage[], options: TimelineExportOptions) => {
+  const files = await readZip(exportTimelineArchive('Phim thử', images, options));
+  const [document] = [...files.keys()].filter(name => !name.startsWith('media/'));
+  return { name: document, media: [...files.keys()].filter(name => name.startsWith('media/')), text: decodeText(files.get(document)!) };
+};
+
+// Record in/out timecodes of every EDL event.
+const recordTimes = (edl: string) =>
+  edl.split('\r\n').filter(line => /^\d{3} /.test(line)).map(line => line.split(/\s+/).slice(6, 8));
+
+describe('exportTimelineArchive', () => {
+  it('stores the frames next to the timeline document', async () => {
+    const { name, media } = await exportTimeline(SCENES, { format: 'edl', fps: 25, aspectRatio: '16:9' });
+    expect(name).toBe('phim-thu.edl');
+    expect(media).toEqual(['media/001-canh-1.png', 'media/002-canh-2.png', 'media/003-canh-3.png']);
+  });
+
+  it.each([
+    [24, [['01:00:00:00', '01:00:01:12'], ['01:00:01:12', '01:00:04:00'], ['01:00:04:00', '01:00:07:07'], ['01:00:07:07', '01:00:10:14']]],
+    [25, [['01:00:00:00', '01:00:01:13'], ['01:00:01:13', '01:00:04:00'], ['01:00:04:00', '01:00:07:08'], ['01:00:07:08', '01:00:10:15']]],
+    [30, [['01:00:00:00', '01:00:01:15'], ['01:00:01:15', '01:00:04:00'], ['01:00:04:00', '01:00:07:09'], ['01:00:07:09', '01:00:10:18']]],
+  ])('rounds clip edges to whole frames from the running time at %i fps', async (fps, times) => {
+    const images = [...SCENES, tile(4, '3-3,6 giây')];
+    const { text } = await exportTimeline(images, { format: 'edl', fps, aspectRatio: '16:9' });
+    expect(recordTimes(text)).toEqual(times);
+  });
+
+  it('writes a CMX 3600 EDL in ASCII', async () => {
+    const images = [tile(1, '1-2 giây', {}, '\nNội dung (Tiếng Việt): Đêm "mưa" ở Hà Nội')];
+    const { text } = await exportTimeline(images, { format: 'edl', fps: 25, aspectRatio: '16:9' });
+    expect(text).toBe([
+      'TITLE: Phim thu',
+      'FCM: NON-DROP FRAME',
+      '',
+      '001  AX       V     C        00:00:00:00 00:00:01:13 01:00:00:00 01:00:01:13',
+      '* FROM CLIP NAME: 001-canh-1.png',
+      '* LOC: 01:00:00:00 BLUE    Canh 1: Tieu de 1 - Dem "mua" o Ha Noi',
+      '',
+    ].join('\r\n'));
+  });
+
+  it('writes FCPXML with a real sequence format and escaped names', async () => {
+    const images = [
+      tile(1, '1-2 giây', { sceneName: 'Cảnh 1 <"A" & B>' }, '\nNội dung (Tiếng Việt): Dòng một\nDòng hai'),
+      tile(2, '2-3 giây'),
+    ];
+    const { text } = await exportTimeline(images, { format: 'fcpxml', fps: 24, aspectRatio: '16:9' });
+    expect(text).toBe(`<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE fcpxml>
+<fcpxml version="1.9">
+  <resources>
+    <format id="r1" name="FFVideoFormat1080p24" frameDuration="1/24s" width="1920" height="1080"/>
+    <format id="r2" name="FFVideoFormatRateUndefined" width="1920" height="1080"/>
+    <asset id="a1" name="Cảnh 1 &lt;&quot;A&quot; &amp; B&gt;" src="media/001-canh-1-a-b.png" start="0s" duration="0s" hasVideo="1" format="r2"/>
+    <asset id="a2" name="Cảnh 2" src="media/002-canh-2.png" start="0s" duration="0s" hasVideo="1" format="r2"/>
+  </resources>
+  <library>
+    <event name="Phim thử">
+      <project name="Phim thử">
+        <sequence format="r1" duration="96/24s" tcStart="0s" tcFormat="NDF">
+          <spine>
+            <video ref="a1" name="Cảnh 1 &lt;&quot;A&quot; &amp; B&gt;" offset="0/24s" start="0s" duration="36/24s">
+              <marker start="0s" duration="1/24s" value="Cảnh 1: Tiêu đề 1" note="Dòng một&#10;Dòng hai"/>
+            </video>
+            <video ref="a2" name="Cảnh 2" offset="36/24s" start="0s" duration="60/24s">
+              <marker start="0s" duration="1/24s" value="Cảnh 2: Tiêu đề 2"/>
+            </video>
+          </spine>
+        </sequence>
+      </project>
+    </event>
+  </library>
+</fcpxml>
+`);
+  });
+
+  it('leaves the FCPXML sequence format unnamed for sizes without a preset', async () => {
+    const { text } = await exportTimeline(SCENES, { format: 'fcpxml', fps: 25, aspectRatio: '9:16' });
+    expect(text).toContain('<format id="r1" frameDuration="1/25s" width="1080" height="1920"/>');
+    expect(text).toContain('<sequence format="r1" duration="183/25s"');
+  });
+
+  it('writes OTIO clips in frames at the chosen rate', async () => {
+    const { text } = await exportTimeline(SCENES, { format: 'otio', fps: 30, aspectRatio: '16:9' });
+    const timeline = JSON.parse(text);
+    expect(timeline).toMatchObject({ OTIO_SCHEMA: 'Timeline.1', name: 'Phim thử' });
+    const clips = timeline.tracks.children[0].children;
+    expect(clips.map((clip: { name: string; source_range: { duration: { rate: number; value: number } } }) =>
+      [clip.name, clip.source_range.duration.rate, clip.source_range.duration.value])).toEqual([
+      ['Cảnh 1', 30, 45],
+      ['Cảnh 2', 30, 75],
+      ['Cảnh 3', 30, 99],
+    ]);
+    expect(clips[0]).toMatchObject({
+      media_reference: { OTIO_SCHEMA: 'ExternalReference.1', target_url: 'media/001-canh-1.png' },
+      markers: [{ name: 'Cảnh 1: Tiêu đề 1', marked_range: { duration: { rate: 30, value: 1 } } }],
+      metadata: { sceneNumber: 1 },
+    });
+  });
+});
@@ -0,0 +1,193 @@
+import { AspectRatio, GeneratedImage } from '../types';
+import { AnimaticClip, buildAnimaticTimeline, frameSize } from './Animatic';
+import { base64ToBytes, extensionFor, parseDataUrl, slugify } from './ProjectBundle';
+import { createZip, encodeText, ZipEntry } from './ZipArchive';
+
+export type TimelineFormat = 'edl' | 'fcpxml' | 'otio';
+
+export const TIMELINE_FORMATS: { id: TimelineFormat; label: string; extension: string }[] = [
+  { id: 'fcpxml', label: 'FCPXML (Final Cut, DaVinci Resolve, Premiere)', extension: 'fcpxml' },
+  { id: 'edl', label: 'EDL CMX 3600', extension: 'edl' },
+  { id: 'otio', label: 'OpenTimelineIO', extension: 'otio' },
+];
+
+export const TIMELINE_FRAME_RATES = [24, 25, 30];
+
+export interface TimelineExportOptions {
+  format: TimelineFormat;
+  fps: number;
+  aspectRatio: AspectRatio;
+}
+
+// A clip snapped to whole frames. Both ends are rounded from the cumulative
+// time, so clips stay contiguous and rounding never drifts.
+interface TimelineEvent {
+  clip: AnimaticClip;
+  file: string;
+  startFrame: number;
+  frames: number;
+  markerName: string;
+  markerNote: string;
+}
+
+const toEvents = (clips: AnimaticClip[], files: string[], fps: number): TimelineEvent[] =>
+  clips.map((clip, index) => {
+    const startFrame = Math.round(clip.start * fps);
+    const endFrame = Math.round((clip.start + clip.duration) * fps);
+    const scene = clip.scene;
+    return {
+      clip,
+      file: files[index],
+      startFrame,
+      frames: endFrame - startFrame,
+      markerName: scene ? `Cảnh ${scene.sceneNumber}${scene.title ? `: ${scene.title}` : ''}` : clip.sceneName,
+      markerNote: scene?.contentVi || scene?.content || '',
+    };
+  });
+
+const timecode = (frame: number, fps: number) => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const seconds = Math.floor(frame / fps);
+  return `${pad(Math.floor(seconds / 3600))}:${pad(Math.floor(seconds / 60) % 60)}:${pad(seconds % 60)}:${pad(frame % fps)}`;
+};
+
+// EDL readers expect plain ASCII on a single line.
+const toAscii = (text: string) =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/đ/g, 'd').replace(/Đ/g, 'D').replace(/[^\x20-\x7e]/g, '').replace(/\s+/g, ' ').trim();
+
+// Record times start at the conventional 01:00:00:00.
+const buildEdl = (title: string, events: TimelineEvent[], fps: number) => {
+  const recordOffset = 3600 * fps;
+  const lines = [`TITLE: ${toAscii(title)}`, 'FCM: NON-DROP FRAME', ''];
+  events.forEach((event, index) => {
+    const number = String(index + 1).padStart(3, '0');
+    const recordIn = recordOffset + event.startFrame;
+    lines.push(
+      `${number}  AX       V     C        ${timecode(0, fps)} ${timecode(event.frames, fps)} ${timecode(recordIn, fps)} ${timecode(recordIn + event.frames, fps)}`,
+      `* FROM CLIP NAME: ${event.file.split('/').pop()}`,
+      `* LOC: ${timecode(recordIn, fps)} BLUE    ${toAscii([event.markerName, event.markerNote].filter(Boolean).join(' - '))}`,
+      '',
+    );
+  });
+  return lines.join('\r\n');
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/\n/g, '&#10;');
+
+const buildFcpxml = (title: string, events: TimelineEvent[], fps: number, aspectRatio: AspectRatio) => {
+  const { width, height } = frameSize(aspectRatio, 1920);
+  const time = (frames: number) => `${frames}/${fps}s`;
+  const total = events.reduce((end, event) => Math.max(end, event.startFrame + event.frames), 0);
+  // Only 1080p has a named format; other sizes are a custom format at the
+  // same rate, which the NLE builds from the size and frame duration.
+  const sequenceName = width === 1920 && height === 1080 ? ` name="FFVideoFormat1080p${fps}"` : '';
+  const assets = events.map((event, index) =>
+    `    <asset id="a${index + 1}" name="${escapeXml(event.clip.sceneName)}" src="${escapeXml(event.file)}" start="0s" duration="0s" hasVideo="1" format="r2"/>`);
+  const clips = events.map((event, index) => [
+    `            <video ref="a${index + 1}" name="${escapeXml(event.clip.sceneName)}" offset="${time(event.startFrame)}" start="0s" duration="${time(event.frames)}">`,
+    `              <marker start="0s" duration="${time(1)}" value="${escapeXml(event.markerName)}"${event.markerNote ? ` note="${escapeXml(event.markerNote)}"` : ''}/>`,
+    `            </video>`,
+  ].join('\n'));
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE fcpxml>
+<fcpxml version="1.9">
+  <resources>
+    <format id="r1"${sequenceName} frameDuration="${time(1)}" width="${width}" height="${height}"/>
+    <format id="r2" name="FFVideoFormatRateUndefined" width="${width}" height="${height}"/>
+${assets.join('\n')}
+  </resources>
+  <library>
+    <event name="${escapeXml(title)}">
+      <project name="${escapeXml(title)}">
+        <sequence format="r1" duration="${time(total)}" tcStart="0s" tcFormat="NDF">
+          <spine>
+${clips.join('\n')}
+          </spine>
+        </sequence>
+      </project>
+    </event>
+  </library>
+</fcpxml>
+`;
+};
+
+const buildOtio = (title: string, events: TimelineEvent[], fps: number) => {
+  const rationalTime = (value: number) => ({ OTIO_SCHEMA: 'RationalTime.1', rate: fps, value });
+  const timeRange = (start: number, duration: number) => ({
+    OTIO_SCHEMA: 'TimeRange.1',
+    start_time: rationalTime(start),
+    duration: rationalTime(duration),
+  });
+
+  // Clips are contiguous, so the track needs no gaps between them.
+  const children = events.map(event => ({
+    OTIO_SCHEMA: 'Clip.1',
+    name: event.clip.sceneName,
+    source_range: timeRange(0, event.frames),
+    media_reference: { OTIO_SCHEMA: 'ExternalReference.1', target_url: event.file, available_range: null, metadata: {} },
+    markers: [{
+      OTIO_SCHEMA: 'Marker.2',
+      name: event.markerName,
+      comment: event.markerNote,
+      color: 'BLUE',
+      marked_range: timeRange(0, 1),
+      metadata: {},
+    }],
+    effects: [],
+    metadata: { sceneNumber: event.clip.scene?.sceneNumber ?? null },
+  }));
+
+  return JSON.stringify({
+    OTIO_SCHEMA: 'Timeline.1',
+    name: title,
+    global_start_time: null,
+    metadata: {},
+    tracks: {
+      OTIO_SCHEMA: 'Stack.1',
+      name: 'tracks',
+      source_range: null,
+      effects: [],
+      markers: [],
+      metadata: {},
+      children: [{
+        OTIO_SCHEMA: 'Track.1',
+        name: 'V1',
+        kind: 'Video',
+        source_range: null,
+        effects: [],
+        markers: [],
+        metadata: {},
+        children,
+      }],
+    },
+  }, null, 2);
+};
+
+/**
+ * Zip with the frames under `media/` and a timeline document next to them
+ * that references the files by relative path, so the sequence opens in an
+ * NLE once the archive is extracted. Clips follow the animatic timing.
+ */
+export const exportTimelineArchive = (title: string, images: GeneratedImage[], options: TimelineExportOptions): Blob => {
+  const { clips } = buildAnimaticTimeline(images);
+  const entries: ZipEntry[] = [];
+  const files = clips.map((clip, index) => {
+    const data = parseDataUrl(clip.src)!;
+    const file = `media/${String(index + 1).padStart(3, '0')}-${slugify(clip.sceneName) || 'scene'}.${extensionFor(data.mimeType)}`;
+    entries.push({ name: file, data: base64ToBytes(data.base64) });
+    return file;
+  });
+
+  const events = toEvents(clips, files, options.fps);
+  const format = TIMELINE_FORMATS.find(f => f.id === options.format)!;
+  const content = options.format === 'edl'
+    ? buildEdl(title, events, options.fps)
+    : options.format === 'fcpxml'
+      ? buildFcpxml(title, events, options.fps, options.aspectRatio)
+      : buildOtio(title, events, options.fps);
+
+  entries.unshift({ name: `${slugify(title) || 'timeline'}.${format.extension}`, data: encodeText(content) });
+  return createZip(entries);
+};
@@ -1,18 +1,142 @@
 
 export type AspectRatio = "1:1" | "4:3" | "16:9" | "9:16";
 
-export interface Character {
+export type ReferenceAngle = 'front' | 'profile' | 'fullBody' | 'other';
+
+export interface ReferenceImage {
   id: string;
-  name: string;
+  angle: ReferenceAngle;
   imageBase64: string;
   mimeType: string;
 }
 
+export interface Character {
+  id: string;
+  name: string;
+  aliases: string[];
+  description: string;
+  references: ReferenceImage[];
+}
+
+export interface StoryLocation {
+  id: string;
+  name: string;
+  aliases: string[];
+  description: string;
+  references: ReferenceImage[];
+}
+
 export interface Scene {
+  sceneNumber: number;
+  title: string;
+  content: string;
+  contentVi: string;
+  location: string;
+  time: string;
   prompt: string;
   characterName: string;
+  duration: string;
+  durationRange: { min: number; max: number } | null;
+  kenBurns: string;
   fullText: string;
-  sceneNumber: number;
+  lineNumber: number;
+}
+
+export type SceneField = 'title' | 'content' | 'contentVi' | 'location' | 'time' | 'prompt' | 'characterName' | 'duration' | 'kenBurns';
+
+export interface ScriptDiagnostic {
+  // 1-based line in the script, or 0 when the problem is outside the script.
+  line: number;
+  target?: 'artStyle';
+  sceneNumber?: number;
+  field?: SceneField;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+// One take of a tile: what was produced and exactly how.
+export interface ImageVersion {
+  id: string;
+  src: string;
+  // 'inpainted' takes regenerate a masked region and keep the rest of the frame.
+  origin: 'generated' | 'edited' | 'inpainted';
+  // The tile's script block and prompt at the time, and the full text sent
+  // to the provider (empty for editor saves and takes recorded before history existed).
+  sceneScript: string;
+  scenePrompt: string;
+  finalPrompt: string;
+  characterRefIds: string[];
+  locationRefId?: string;
+  // Ids of the individual reference images attached to the request.
+  referenceImageIds: string[];
+  usedPreviousScene: boolean;
+  // Take of the previous scene that was the reference, so the tile can tell
+  // when the user has since picked another take there.
+  previousSceneVersionId?: string;
+  artStyle: string;
+  createdAt: number;
+  // Candidates generated together for one scene share a batch id.
+  batchId?: string;
+  // Editor saves keep the steps that turned `sourceVersionId` into this take,
+  // so the next session re-renders from the untouched source.
+  editStack?: EditStack;
+  // Refined takes point at the take they were made from; following the
+  // parents gives the tile's refine thread.
+  refinement?: { instruction: string; parentVersionId?: string };
+  // Result of the local text/watermark check: empty when it found nothing,
+  // absent when the take was not checked.
+  artifacts?: ArtifactFinding[];
+  // Why earlier attempts of this take were thrown away or failed.
+  retryReasons?: string[];
+}
+
+export interface ArtifactFinding {
+  kind: 'text' | 'watermark';
+  rect: NormalizedRect;
+  score: number;
+}
+
+export type AdjustmentKind = 'brightness' | 'contrast' | 'saturation' | 'hue' | 'sepia' | 'grayscale' | 'temperature' | 'vignette' | 'sharpen';
+
+// Fractions of the image the step is applied to.
+export interface NormalizedRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type EditStep =
+  | { id: string; type: 'crop'; rect: NormalizedRect; aspect?: AspectRatio }
+  | { id: string; type: 'adjust'; kind: AdjustmentKind; amount: number };
+
+export interface EditStack {
+  sourceVersionId: string;
+  steps: EditStep[];
+}
+
+export type GenerationErrorKind =
+  | 'auth'
+  | 'quota'
+  | 'safety'
+  | 'noImage'
+  | 'network'
+  | 'server'
+  | 'invalidReference'
+  // The image came back with lettering or a watermark in it.
+  | 'artifact'
+  | 'unknown';
+
+export interface GenerationErrorDetails {
+  status?: number;
+  finishReason?: string;
+  blockCategories?: string[];
+}
+
+// Plain-data view of a failure, safe to keep in React state and to persist.
+export interface GenerationFailure extends GenerationErrorDetails {
+  kind: GenerationErrorKind;
+  message: string;
 }
 
 export interface GeneratedImage {
@@ -20,8 +144,110 @@ export interface GeneratedImage {
   prompt: string;
   src: string;
   isLoading: boolean;
-  characterRefId?: string;
+  sceneNumber: number;
+  characterRefIds: string[];
+  locationRefId?: string;
   isSelected: boolean;
   sceneName: string;
   sceneScript: string;
-}
\ No newline at end of file
+  // Oldest first. `src` shows the version named by `currentVersionId`, unless
+  // the latest attempt failed or was cancelled.
+  versions: ImageVersion[];
+  currentVersionId?: string;
+  // Animatic move chosen by the user instead of the script's Ken Burns line.
+  motionOverride?: KenBurnsMotion;
+  // Delivery crops of the current image for other formats, e.g. a 9:16 cut of a 16:9 board.
+  reframes?: Partial<Record<AspectRatio, NormalizedRect>>;
+  // Why the last generation failed, while `src` is 'error'.
+  failure?: GenerationFailure;
+}
+
+export type KenBurnsMotion = 'static' | 'zoomIn' | 'zoomOut' | 'panLeft' | 'panRight' | 'panUp' | 'panDown';
+
+export interface ImageGenerationRequest {
+  prompt: string;
+  storyContext: string;
+  artStyle: string;
+  aspectRatio: AspectRatio;
+  characterRefs: Character[];
+  locationRef?: StoryLocation;
+  // Data URL of the previous scene, used as a style reference.
+  previousImage?: string;
+  // Regenerations refine an existing frame instead of demanding a new composition.
+  isVariant: boolean;
+  // Conversational refine: edit `baseImage` (a data URL) as instructed instead
+  // of composing the scene from the prompt.
+  refinement?: { baseImage: string; baseVersionId?: string; instruction: string };
+  // Parsed script block of the scene, for the scene placeholders.
+  scene?: Scene;
+  template: PromptTemplate;
+}
+
+export type PromptLanguage = 'vi' | 'en';
+
+export interface PromptTemplate {
+  // Preset the body was loaded from; null once it no longer matches one.
+  presetId: string | null;
+  // Language of the generated reference-image rules.
+  language: PromptLanguage;
+  body: string;
+}
+
+export interface GenerationSettings {
+  concurrency: number;
+  requestsPerMinute: number;
+  // Pass the previous scene's image as a style reference when both scenes share a location.
+  chainScenes: boolean;
+  // Images generated per scene to pick from.
+  candidatesPerScene: number;
+  // Local text/watermark check of new images: off, flag suspicious tiles, or
+  // also spend a remaining attempt on a new image.
+  artifactCheck: 'off' | 'flag' | 'retry';
+}
+
+export type ImageProviderId = 'gemini' | 'mock';
+
+export interface ProviderSettings {
+  providerId: ImageProviderId;
+  model: string;
+  // Only used by the mock provider.
+  mockLatencyMs: number;
+  // Share of mock requests that fail (0-1).
+  mockFailureRate: number;
+  // Mock frames carry their prompt as text, which the artifact check flags.
+  mockLabels: boolean;
+}
+
+// Data URLs of the frame and of a black mask painted white where it may change.
+export interface ImageEditRequest {
+  image: string;
+  mask: string;
+  instruction: string;
+}
+
+// A backend that turns a generation request into base64 PNG data.
+export interface ImageProvider {
+  id: ImageProviderId;
+  generate: (request: ImageGenerationRequest, signal?: AbortSignal) => Promise<string>;
+  edit: (request: ImageEditRequest, signal?: AbortSignal) => Promise<string>;
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  storyContext: string;
+  artStyle: string;
+  promptsText: string;
+  aspectRatio: AspectRatio;
+  batchSize: number;
+  generationSettings: GenerationSettings;
+  providerSettings: ProviderSettings;
+  promptTemplate: PromptTemplate;
+  characters: Character[];
+  locations: StoryLocation[];
+  generatedImages: GeneratedImage[];
+}
+
+export type ProjectSummary = Pick<Project, 'id' | 'name' | 'createdAt' | 'updatedAt'>;